@@ -1,106 +1,414 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ConversionType, PatchRule, ToastMessage, SiteConfig } from './types';
-import { convertText, applyCustomPatches, parsePatches } from './utils/converter';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ActivityEntry, ActivityKind, Ambiguity, ChangeSpan, ConversionOptions, ConversionPair, ConversionResult, ConversionType, HistoryEntry, PatchDictionary, PatchSet, PatchSnapshot, TextFormat, ToastMessage, SiteConfig } from './types';
+import { CHINESE_VARIANTS, isChineseVariant, isTraditionalVariant, getConversionDirection } from './utils/converter';
+import { convertInWorker } from './utils/conversionClient';
+import { findAmbiguities, buildContextRule } from './utils/ambiguity';
+import { parsePatchText, formatPatchRule } from './utils/patchParser';
+import { combineDictionaries, createDictionary, loadDictionaries, moveDictionary, saveDictionaries, tagRules, toPatchSet } from './utils/dictionaries';
+import { EMPTY_RULE_STATS, loadRuleStats, pruneRuleStats, recordConversion, ruleStatKey, RuleStats, saveRuleStats } from './utils/ruleStats';
+import { countText } from './utils/textStats';
+import { addHistoryEntry, clearHistory, deleteHistoryEntry, listHistory, loadSession, saveSession } from './utils/historyStore';
+import { useUndoable } from './utils/useUndoable';
+import { ConfigChange, DEFAULT_SITE_CONFIG, findConfigChanges, loadSiteConfig, localizeSiteText, markConfigSeen } from './utils/siteConfig';
+import { TEXT_FORMATS } from './utils/formats';
+import { EMPTY_PATCH_SET, samePatchSet } from './utils/patchMerge';
+import { decideSync, loadSyncBase, saveSyncBase } from './utils/sync';
+import { createSyncAdapter, resolveSyncSettings, SyncAdapter } from './utils/syncAdapters';
 import Toast from './components/Toast';
+import AnnotatedOutput from './components/AnnotatedOutput';
+import AmbiguityPicker from './components/AmbiguityPicker';
+import BatchConverter from './components/BatchConverter';
+import MergePanel from './components/MergePanel';
+import DictionaryBar from './components/DictionaryBar';
+import RuleStatsPanel from './components/RuleStatsPanel';
+import HistoryDrawer from './components/HistoryDrawer';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
+import { findShortcut, formatShortcut, ShortcutAction, SHORTCUTS } from './utils/shortcuts';
+import { isLocale, LOCALES } from './utils/i18n';
+import { useI18n } from './utils/useI18n';
+import { errorText } from './utils/messages';
+import { appendActivity, loadActivityLog, saveActivityLog } from './utils/activityLog';
+import ActivityLogPanel from './components/ActivityLogPanel';
 
-const DEFAULT_CONFIG: SiteConfig = {
-  siteName: '夢幻文字雲端轉換器',
-  subtitle: '追求效率與美感的創作者工具',
-  customIcon: null,
-  clickSound: null,
-  gasUrl: null,
-};
+const DEFAULT_PAIR: ConversionPair = { from: 'tw', to: 'cn' };
+
+type PatchTab = 'post' | 'pre' | 'protected';
+
+const PATCH_TABS: PatchTab[] = ['post', 'pre', 'protected'];
+
+// 規則語法說明的各行（文字見各語言目錄）
+const SYNTAX_HELP = ['comment', 'basic', 'direction', 'wholeWord', 'regex', 'combine', 'escape'] as const;
+
+type PendingMerge = { base: PatchSet; remote: PatchSnapshot };
+
+type ToastExtra = Pick<ToastMessage, 'details' | 'actions' | 'sticky'>;
+
+// 即時轉換：停止輸入或編輯補丁後多久重新轉換
+const LIVE_DELAY = 400;
 
 const App: React.FC = () => {
-  // 核心數據狀態
-  const [inputText, setInputText] = useState('');
-  const [outputText, setOutputText] = useState('');
-  const [patches, setPatches] = useState('');
+  // 核心數據狀態：輸入與輸出共用一條復原歷程（轉換與對調會同時改動兩者）
+  const [texts, setTexts, textHistory] = useUndoable({ input: '', output: '' });
+  const inputText = texts.input;
+  const outputText = texts.output;
+  // 最近一次轉換的變更標記；輸出被其他操作改寫時清除
+  const [lastResult, setLastResult] = useState<ConversionResult | null>(null);
+  // 轉換進行中時為進度（0～1），閒置時為 null
+  const [progress, setProgress] = useState<number | null>(null);
+  const conversionAbort = useRef<AbortController | null>(null);
+  // 簡轉繁時待確認的一簡多繁位置
+  const [ambiguities, setAmbiguities] = useState<Ambiguity[]>([]);
+  // 曾寫入本地儲存的字典清單；復原或重做回到這些狀態時才寫回本地，未儲存的編輯仍須按下儲存
+  const savedDictionaryStates = useRef(new WeakSet<PatchDictionary[]>());
+  const persistDictionaries = useCallback((list: PatchDictionary[]) => {
+    saveDictionaries(list);
+    savedDictionaryStates.current.add(list);
+  }, []);
+  // 命名字典（順序即優先度）與目前在補丁面板中編輯的字典
+  const [dictionaries, setDictionaries, patchHistory] = useUndoable<PatchDictionary[]>(
+    () => [createDictionary('通用')],
+    { onStep: list => { if (savedDictionaryStates.current.has(list)) saveDictionaries(list); } }
+  );
+  const [selectedDictId, setSelectedDictId] = useState('');
+  const [pair, setPair] = useState<ConversionPair>(DEFAULT_PAIR);
+  const [format, setFormat] = useState<TextFormat | 'auto'>('auto');
+  // 各字典上次與雲端同步的版本，以及等待合併的雲端版本
+  const [syncBases, setSyncBases] = useState<Record<string, PatchSnapshot | null>>({});
+  const [pendingMerges, setPendingMerges] = useState<Record<string, PendingMerge>>({});
   
   // 品牌配置狀態
-  const [config, setConfig] = useState<SiteConfig>(DEFAULT_CONFIG);
+  const [config, setConfig] = useState<SiteConfig>(DEFAULT_SITE_CONFIG);
+  // 上次造訪後被修改的設定，使用者確認前持續提示
+  const [configChanges, setConfigChanges] = useState<ConfigChange[]>([]);
   
   // UI 狀態
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [quickSearch, setQuickSearch] = useState('');
   const [quickReplace, setQuickReplace] = useState('');
+  const quickReplaceRef = useRef<HTMLInputElement>(null);
+  // 成果區目前選取的文字，可帶入快速修正
+  const [outputSelection, setOutputSelection] = useState('');
+  const [liveMode, setLiveMode] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [patchTab, setPatchTab] = useState<PatchTab>('post');
+  const [showDiff, setShowDiff] = useState(false);
+  // 規則命中統計：累計（跨工作階段）與最近一次轉換
+  const [ruleStats, setRuleStats] = useState<RuleStats>(EMPTY_RULE_STATS);
+  const [lastHits, setLastHits] = useState<Record<string, number>>({});
+  // 轉換歷史抽屜；開啟時才從 IndexedDB 讀取
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  // 工作階段還原完成前不寫回，避免以空白內容覆蓋
+  const sessionRestored = useRef(false);
+  // 活動紀錄抽屜；上次開啟之後的錯誤數顯示在按鈕上
+  const [activityLog, setActivityLog] = useState<ActivityEntry[]>([]);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [activitySeenAt, setActivitySeenAt] = useState(() => Date.now());
+
+  const selectedDict = dictionaries.find(d => d.id === selectedDictId) ?? dictionaries[0];
+
+  // 合併所有啟用中的字典供轉換使用；目前字典另外解析以列出逐行錯誤
+  const combined = useMemo(() => combineDictionaries(dictionaries), [dictionaries]);
+  const parsedPatches = useMemo(() => parsePatchText(selectedDict.patches), [selectedDict.patches]);
+  const parsedPrePatches = useMemo(() => parsePatchText(selectedDict.prePatches), [selectedDict.prePatches]);
+  // 統計面板中的規則需帶有來源字典，才能對應累計統計的鍵
+  const statsRules = useMemo(
+    () => tagRules((patchTab === 'pre' ? parsedPrePatches : parsedPatches).rules, selectedDict),
+    [patchTab, parsedPatches, parsedPrePatches, selectedDict.id, selectedDict.name]
+  );
+  const inputCounts = useMemo(() => countText(inputText), [inputText]);
+  const outputCounts = useMemo(() => countText(outputText), [outputText]);
+  // 簡體介面文字也套用啟用中的補丁規則
+  const { locale, setLocale, t } = useI18n(combined.rules);
+  const conversionOptions = useMemo<ConversionOptions>(() => ({
+    rules: combined.rules,
+    preRules: combined.preRules,
+    protectedTerms: combined.protectedTerms,
+    format,
+  }), [combined, format]);
+
+  const localPatchSet = useMemo(() => toPatchSet(selectedDict), [selectedDict]);
+  const syncSettings = useMemo(() => resolveSyncSettings(config), [config]);
+  const syncAdapter = useMemo(
+    () => syncSettings ? createSyncAdapter(syncSettings, selectedDict) : null,
+    [syncSettings, selectedDict.id, selectedDict.name]
+  );
+  const syncBackend = syncSettings?.backend ?? null;
+  const syncBase = syncBases[selectedDict.id] ?? null;
+  const pendingMerge = pendingMerges[selectedDict.id] ?? null;
+  const hasUnsyncedChanges = !samePatchSet(localPatchSet, syncBase?.patchSet ?? EMPTY_PATCH_SET);
+
+  const unseenErrors = activityLog.filter(e => e.level === 'error' && e.at > activitySeenAt).length;
 
   // 用於防止初始化重複執行的 Ref
   const hasInitialized = useRef(false);
+  // 提示上的操作（重試、復原）稍後才執行，需讀取當下最新的字典與同步基準
+  const latest = useRef({ dictionaries, syncBases });
+  latest.current = { dictionaries, syncBases };
 
   // 統一的提示函數
-  const addToast = useCallback((message: string, type: ToastMessage['type'] = 'info') => {
-    setToasts(prev => [...prev, { id: Date.now() + Math.random(), message, type }]);
+  const addToast = useCallback((message: string, type: ToastMessage['type'] = 'info', extra: ToastExtra = {}) => {
+    setToasts(prev => [...prev, { id: Date.now() + Math.random(), message, type, ...extra }]);
+  }, []);
+
+  const removeToast = useCallback((id: number) => {
+    setToasts(list => list.filter(x => x.id !== id));
+  }, []);
+
+  // 寫入活動紀錄並保存
+  const logActivity = useCallback((kind: ActivityKind, level: ToastMessage['type'], message: string, details?: string) => {
+    setActivityLog(log => {
+      const next = appendActivity(log, { kind, level, message, ...(details ? { details } : {}) });
+      saveActivityLog(next);
+      return next;
+    });
+  }, []);
+
+  // 記錄活動並提示；silent 時（例如啟動時的背景同步）只記錄
+  const report = useCallback((
+    kind: ActivityKind,
+    message: string,
+    type: ToastMessage['type'],
+    { silent = false, ...extra }: ToastExtra & { silent?: boolean } = {}
+  ) => {
+    logActivity(kind, type, message, extra.details);
+    if (!silent) addToast(message, type, extra);
+  }, [logActivity, addToast]);
+
+  const setInputText = useCallback((input: string, coalesce?: string) => {
+    setTexts(t => ({ ...t, input }), { coalesce });
+  }, [setTexts]);
+
+  const setOutputText = useCallback((output: string | ((text: string) => string), coalesce?: string) => {
+    setTexts(t => ({ ...t, output: typeof output === 'function' ? output(t.output) : output }), { coalesce });
+  }, [setTexts]);
+
+  // 復原或重做文字後，轉換標記與待確認的一簡多繁已不再對應輸出
+  const stepText = (step: () => void) => {
+    step();
+    setLastResult(null);
+    setAmbiguities([]);
+  };
+
+  // 更新字典清單並寫入本地儲存
+  const updateDictionaries = useCallback((update: (list: PatchDictionary[]) => PatchDictionary[]) => {
+    setDictionaries(list => {
+      const next = update(list);
+      persistDictionaries(next);
+      return next;
+    });
+  }, [setDictionaries, persistDictionaries]);
+
+  // 編輯字典內容（只更新畫面，按下儲存後才寫入本地）；coalesce 讓連續打字合併為一個復原步驟
+  const editDictionary = (id: string, field: keyof PatchSet, value: string | ((text: string) => string), coalesce?: string) => {
+    setDictionaries(list => list.map(d => d.id === id
+      ? { ...d, [field]: typeof value === 'function' ? value(d[field]) : value }
+      : d), { coalesce });
+  };
+
+  // 新規則一律加入目前字典的後置補丁
+  const appendRule = (rule: string) => editDictionary(selectedDict.id, 'patches', p => p ? `${p}\n${rule}` : rule);
+
+  // 將一組補丁設定寫入指定字典與本地儲存
+  const applyPatchSet = useCallback((dictId: string, patchSet: PatchSet) => {
+    updateDictionaries(list => list.map(d => d.id === dictId ? { ...d, ...patchSet } : d));
+  }, [updateDictionaries]);
+
+  const updateSyncBase = useCallback((dictId: string, adapter: SyncAdapter, snapshot: PatchSnapshot) => {
+    setSyncBases(bases => ({ ...bases, [dictId]: snapshot }));
+    saveSyncBase(adapter.id, snapshot);
   }, []);
 
-  // 雲端同步功能：使用 config 中的 gasUrl
-  const syncFromCloud = useCallback(async (targetUrl: string | null = config.gasUrl, silent: boolean = false) => {
-    const url = targetUrl;
-    if (!url) {
-      if (!silent) addToast('未設定雲端網址，請前往後台設定', 'info');
+  const setPendingMerge = useCallback((dictId: string, merge: PendingMerge | null) => {
+    setPendingMerges(({ [dictId]: _, ...rest }) => merge ? { ...rest, [dictId]: merge } : rest);
+  }, []);
+
+  // 依本地、同步基準與雲端三方狀態決定：略過、快轉、保留本地或進入合併
+  const handleRemoteSnapshot = useCallback((
+    dict: PatchDictionary,
+    adapter: SyncAdapter,
+    remote: PatchSnapshot,
+    base: PatchSnapshot | null,
+    silent: boolean
+  ) => {
+    const decision = decideSync(base, toPatchSet(dict), remote);
+    switch (decision.kind) {
+      case 'up-to-date':
+        updateSyncBase(dict.id, adapter, remote);
+        report('sync', t('toast.upToDate', { name: dict.name }), 'info', { silent });
+        break;
+      case 'fast-forward':
+        applyPatchSet(dict.id, remote.patchSet);
+        updateSyncBase(dict.id, adapter, remote);
+        report('sync', t('toast.pulled', { name: dict.name, revision: remote.revision }), 'success', { silent });
+        break;
+      case 'local-ahead':
+        report('sync', t('toast.localAhead', { name: dict.name }), 'info', { silent });
+        break;
+      case 'conflict':
+        setPendingMerge(dict.id, { base: decision.base, remote });
+        report('sync', t('toast.needsMerge', { name: dict.name }), 'info');
+        break;
+    }
+  }, [report, t, applyPatchSet, updateSyncBase, setPendingMerge]);
+
+  // 雲端同步功能：使用後台設定的同步後端逐一字典同步，不會直接覆蓋本地未同步的規則
+  const syncFromCloud = useCallback(async (
+    dict: PatchDictionary,
+    adapter: SyncAdapter | null,
+    base: PatchSnapshot | null,
+    silent: boolean = false
+  ) => {
+    if (!adapter) {
+      if (!silent) addToast(t('toast.noSyncTarget'), 'info');
       return;
     }
     
     try {
-      const response = await fetch(url);
-      if (!response.ok) throw new Error('Network response was not ok');
-      const text = await response.text();
-      
-      let finalPatches = text;
-      try {
-        const data = JSON.parse(text);
-        finalPatches = data.patches || text;
-      } catch {
-        finalPatches = text;
-      }
-      
-      setPatches(finalPatches);
-      if (!silent) addToast('雲端補丁下載成功 ☁️', 'success');
+      handleRemoteSnapshot(dict, adapter, await adapter.pull(), base, silent);
     } catch (error) {
-      if (!silent) addToast('雲端下載失敗，請檢查網址或 CORS 設定', 'error');
+      // 啟動時的自動同步失敗同樣提示，但不常駐畫面
+      report('sync', t('toast.pullFailed', { name: dict.name }), 'error', {
+        sticky: !silent,
+        details: `${errorText(t, error)}\n${t('toast.syncTarget', { target: adapter.id })}`,
+        actions: [{
+          label: t('toast.retry'),
+          run: () => {
+            const current = latest.current.dictionaries.find(d => d.id === dict.id);
+            if (current) syncFromCloud(current, adapter, latest.current.syncBases[dict.id] ?? null);
+          },
+        }],
+      });
     }
-  }, [config.gasUrl, addToast]);
+  }, [report, t, handleRemoteSnapshot]);
 
-  const uploadToCloud = async () => {
-    if (!config.gasUrl) return addToast('未設定雲端網址，請前往後台設定', 'error');
+  // 上傳指定字典；重試時字典與同步基準可能已改變，一律讀取最新狀態
+  const uploadToCloud = async (dictId: string = selectedDict.id) => {
+    const dict = latest.current.dictionaries.find(d => d.id === dictId);
+    if (!dict) return;
+    if (!syncSettings) return addToast(t('toast.noSyncTarget'), 'error');
+    const adapter = createSyncAdapter(syncSettings, dict);
+    const base = latest.current.syncBases[dict.id] ?? null;
     try {
-      await fetch(config.gasUrl, {
-        method: 'POST',
-        mode: 'no-cors',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ patches })
-      });
-      addToast('已送出雲端上傳請求 🚀', 'info');
+      const result = await adapter.push(base?.revision ?? 0, toPatchSet(dict));
+      if (result.ok) {
+        updateSyncBase(dict.id, adapter, result.snapshot);
+        report('upload', t('toast.pushed', { name: dict.name, revision: result.snapshot.revision }), 'success');
+      } else {
+        setPendingMerge(dict.id, { base: base?.patchSet ?? EMPTY_PATCH_SET, remote: result.remote });
+        report('upload', t('toast.pushConflict', { name: dict.name }), 'error', {
+          details: t('toast.syncTarget', { target: adapter.id }),
+        });
+      }
     } catch (error) {
-      addToast('上傳失敗', 'error');
+      report('upload', t('toast.pushFailed', { name: dict.name }), 'error', {
+        details: `${errorText(t, error)}\n${t('toast.syncTarget', { target: adapter.id })}`,
+        actions: [{ label: t('toast.retry'), run: () => uploadToCloud(dict.id) }],
+      });
     }
   };
 
+  // 合併完成後以雲端版本為新的基準，合併結果成為本地待上傳的變更
+  const applyMerge = (merged: PatchSet) => {
+    if (!pendingMerge || !syncAdapter) return;
+    applyPatchSet(selectedDict.id, merged);
+    updateSyncBase(selectedDict.id, syncAdapter, pendingMerge.remote);
+    setPendingMerge(selectedDict.id, null);
+    addToast(t('toast.merged'), 'success');
+  };
+
+  // 字典管理：新增、改名、刪除、啟用與優先順序
+  const addDictionary = () => {
+    const name = window.prompt(t('dictionary.newPrompt'), t('dictionary.newDefault', { index: dictionaries.length + 1 }))?.trim();
+    if (!name) return;
+    const dict = createDictionary(name);
+    updateDictionaries(list => [...list, dict]);
+    setSelectedDictId(dict.id);
+  };
+
+  const renameDictionary = (id: string) => {
+    const current = dictionaries.find(d => d.id === id);
+    const name = window.prompt(t('dictionary.renamePrompt'), current?.name)?.trim();
+    if (name) updateDictionaries(list => list.map(d => d.id === id ? { ...d, name } : d));
+  };
+
+  const removeDictionary = (id: string) => {
+    const target = dictionaries.find(d => d.id === id);
+    if (!target || dictionaries.length <= 1) return;
+    if (!window.confirm(t('dictionary.removeConfirm', { name: target.name }))) return;
+    updateDictionaries(list => list.filter(d => d.id !== id));
+    setPendingMerge(id, null);
+  };
+
   // 初始化：只執行一次
   useEffect(() => {
     if (hasInitialized.current) return;
 
-    const savedPatches = localStorage.getItem('dream_cloud_patches');
-    const savedConfigStr = localStorage.getItem('dream_cloud_site_config');
-    
-    if (savedPatches) setPatches(savedPatches);
-    
-    if (savedConfigStr) {
-      const savedConfig: SiteConfig = JSON.parse(savedConfigStr);
-      setConfig(savedConfig);
-      if (savedConfig.gasUrl) {
-        syncFromCloud(savedConfig.gasUrl, true);
+    const savedConfig = loadSiteConfig();
+    const savedDictionaries = loadDictionaries();
+    savedDictionaryStates.current.add(savedDictionaries);
+    setRuleStats(loadRuleStats());
+    setActivityLog(loadActivityLog());
+    patchHistory.reset(savedDictionaries);
+    setSelectedDictId(savedDictionaries[0].id);
+
+    setLiveMode(localStorage.getItem('dream_cloud_live_mode') === '1');
+    const savedPairStr = localStorage.getItem('dream_cloud_conversion_pair');
+    if (savedPairStr) {
+      try {
+        const savedPair = JSON.parse(savedPairStr);
+        if (isChineseVariant(savedPair?.from) && isChineseVariant(savedPair?.to)) {
+          setPair({ from: savedPair.from, to: savedPair.to });
+        }
+      } catch {
+        // 忽略損壞的紀錄，沿用預設方向
       }
     }
+    
+    setConfig(savedConfig);
+    setConfigChanges(findConfigChanges(savedConfig));
+    const settings = resolveSyncSettings(savedConfig);
+    if (settings) {
+      const bases: Record<string, PatchSnapshot | null> = {};
+      savedDictionaries.forEach(dict => {
+        const adapter = createSyncAdapter(settings, dict);
+        bases[dict.id] = loadSyncBase(adapter.id);
+        // 需要選擇檔案的後端無法在背景同步
+        if (!adapter.interactive) syncFromCloud(dict, adapter, bases[dict.id], true);
+      });
+      setSyncBases(bases);
+    }
+
+    loadSession()
+      .then(session => {
+        if (!session) return;
+        textHistory.reset({ input: session.inputText, output: session.outputText });
+        if (isChineseVariant(session.pair?.from) && isChineseVariant(session.pair?.to)) setPair(session.pair);
+        setFormat(session.format);
+      })
+      .catch(err => report('save', t('toast.sessionRestoreFailed'), 'error', { silent: true, details: errorText(t, err) }))
+      .finally(() => { sessionRestored.current = true; });
 
     hasInitialized.current = true;
-  }, [syncFromCloud]);
+  }, [syncFromCloud, report, t]);
+
+  // 工作內容變動後稍待片刻再寫入，重新整理時可還原
+  useEffect(() => {
+    if (!sessionRestored.current) return;
+    const timer = setTimeout(() => {
+      saveSession({ inputText, outputText, pair, format })
+        .catch(err => report('save', t('toast.sessionSaveFailed'), 'error', { silent: true, details: errorText(t, err) }));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [inputText, outputText, pair, format, report, t]);
+
+  const siteText = localizeSiteText(config, locale);
 
   // 同步更新瀏覽器分頁標題與 Favicon
   useEffect(() => {
     // 更新標題
-    document.title = config.siteName;
+    document.title = siteText.siteName;
 
     // 更新 Favicon
     if (config.customIcon) {
@@ -112,7 +420,7 @@ const App: React.FC = () => {
       }
       link.href = config.customIcon;
     }
-  }, [config.siteName, config.customIcon]);
+  }, [siteText.siteName, config.customIcon]);
 
   // 播放音效
   const playSound = useCallback(() => {
@@ -128,14 +436,353 @@ const App: React.FC = () => {
     fn(...args);
   };
 
-  const handleConvert = async (type: ConversionType) => {
-    if (!inputText.trim()) return addToast('請先輸入內容', 'info');
+  // 變簡體／變繁體沿用目前選定的繁體地區變體
+  const traditionalVariant = [pair.from, pair.to].find(isTraditionalVariant) ?? 'tw';
+
+  // 累計規則命中統計：啟用中的規則參與這次轉換；已從字典刪除的規則一併移除統計
+  const recordRuleHits = (result: ConversionResult, direction: ConversionType) => {
+    const withStage = ({ rules, preRules }: Pick<ConversionOptions, 'rules' | 'preRules'>) => [
+      ...preRules!.map(rule => ({ rule, stage: 'pre' as const })),
+      ...rules!.map(rule => ({ rule, stage: 'post' as const })),
+    ];
+    const active = withStage(conversionOptions);
+    const existing = withStage(combineDictionaries(dictionaries.map(d => ({ ...d, enabled: true }))));
+    setLastHits(Object.fromEntries(result.hits.map(hit => [ruleStatKey(hit.rule, hit.stage), hit.count])));
+    setRuleStats(stats => {
+      const next = pruneRuleStats(recordConversion(stats, active, result.hits, direction), existing);
+      saveRuleStats(next);
+      return next;
+    });
+  };
+
+  // 移除目前字典中指定行號的規則（用於清理未使用的規則）
+  const removeRuleLines = (field: keyof PatchSet, lines: number[]) => {
+    const drop = new Set(lines);
+    editDictionary(selectedDict.id, field, text => text.split('\n').filter((_, i) => !drop.has(i + 1)).join('\n'));
+    addToast(t('toast.rulesRemoved', { count: lines.length }), 'success');
+  };
+
+  // live：即時轉換，不顯示進度與提示，也不寫入歷史與規則統計；輸出與打字合併為同一個復原步驟
+  const handleConvert = async (target: ConversionPair, { live = false } = {}) => {
+    if (!inputText.trim()) {
+      if (!live) return addToast(t('toast.emptyInput'), 'info');
+      conversionAbort.current?.abort();
+      if (outputText) setOutputText('', 'typing');
+      setLastResult(null);
+      setAmbiguities([]);
+      return;
+    }
+    setPair(target);
+    localStorage.setItem('dream_cloud_conversion_pair', JSON.stringify(target));
+    conversionAbort.current?.abort();
+    const controller = new AbortController();
+    conversionAbort.current = controller;
+    if (!live) setProgress(0);
+    try {
+      const result = await convertInWorker(inputText, target, conversionOptions, {
+        signal: controller.signal,
+        onProgress: live ? undefined : setProgress,
+      });
+      if (!live || result.text !== outputText) setOutputText(result.text, live ? 'typing' : undefined);
+      setLastResult(result);
+      const needsReview = target.from === 'cn' && getConversionDirection(target) === ConversionType.TO_TRADITIONAL;
+      setAmbiguities(needsReview ? findAmbiguities(result) : []);
+      if (live) return;
+      addHistoryEntry({
+        createdAt: Date.now(),
+        pair: target,
+        format,
+        input: inputText,
+        output: result.text,
+        dictionaries: dictionaries.filter(d => d.enabled),
+      }).catch(err => report('save', t('toast.historySaveFailed'), 'error', { silent: true, details: errorText(t, err) }));
+      recordRuleHits(result, getConversionDirection(target));
+      addToast(t('toast.converted'), 'success');
+    } catch (err) {
+      // 即時轉換失敗只記錄，避免每次輸入都跳出錯誤
+      if (!controller.signal.aborted) {
+        report('conversion', t('toast.conversionFailed'), 'error', {
+          silent: live,
+          details: err instanceof Error ? errorText(t, err) : t('toast.unknownError'),
+        });
+      }
+    } finally {
+      if (conversionAbort.current === controller) {
+        conversionAbort.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancelConversion = () => {
+    conversionAbort.current?.abort();
+    addToast(t('toast.cancelled'), 'info');
+  };
+
+  const toggleLiveMode = () => {
+    const next = !liveMode;
+    setLiveMode(next);
+    localStorage.setItem('dream_cloud_live_mode', next ? '1' : '0');
+    addToast(t(next ? 'toast.liveOn' : 'toast.liveOff'), 'info');
+  };
+
+  // 即時轉換：輸入、補丁、方向或格式變動後稍待片刻，依目前方向重新轉換
+  useEffect(() => {
+    if (!liveMode || !sessionRestored.current) return;
+    const timer = setTimeout(() => handleConvert(pair, { live: true }), LIVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [liveMode, inputText, pair, conversionOptions]);
+
+  const swapTexts = () => {
+    setTexts(t => ({ input: t.output, output: t.input }));
+    setLastResult(null);
+    setAmbiguities([]);
+  };
+
+  const copyOutput = () => {
+    navigator.clipboard.writeText(outputText);
+    addToast(t('toast.copied'), 'success');
+  };
+
+  const saveLocal = () => {
     try {
-      let result = await convertText(inputText, type);
-      result = applyCustomPatches(result, parsePatches(patches));
-      setOutputText(result);
-      addToast('轉換完成 ✨', 'success');
-    } catch { addToast('發生未知錯誤', 'error'); }
+      persistDictionaries(dictionaries);
+      report('save', t('toast.savedLocal'), 'success');
+    } catch (error) {
+      report('save', t('toast.saveFailed'), 'error', { details: errorText(t, error) });
+    }
+  };
+
+  // 修正並記憶：快速修正列的內容加入目前字典；提示中的「復原」移除剛加入的規則
+  const applyQuickFix = () => {
+    if (!quickSearch.trim()) return addToast(t('toast.quickFixEmpty'), 'info');
+    const search = quickSearch, replace = quickReplace, dict = selectedDict;
+    const rule = formatPatchRule(search.trim(), replace.trim());
+    appendRule(rule);
+    setQuickSearch(''); setQuickReplace('');
+    addToast(t('toast.ruleAdded', { name: dict.name }), 'success', {
+      actions: [{
+        label: t('toast.undo'),
+        run: () => {
+          editDictionary(dict.id, 'patches', text => {
+            const lines = text.split('\n');
+            const index = lines.lastIndexOf(rule);
+            return index < 0 ? text : lines.filter((_, i) => i !== index).join('\n');
+          });
+          setQuickSearch(search); setQuickReplace(replace);
+          addToast(t('toast.ruleRemoved', { name: dict.name }), 'info');
+        },
+      }],
+    });
+  };
+
+  const notifyBatch = (message: string, type: ToastMessage['type'] = 'info') =>
+    type === 'error' ? report('conversion', message, type) : addToast(message, type);
+
+  // 記下成果區的選取文字（純文字框讀取選取範圍，差異標示模式讀取頁面選取）
+  const captureOutputSelection = (e: React.SyntheticEvent<HTMLElement>) => {
+    const target = e.target;
+    if (target instanceof HTMLTextAreaElement) {
+      setOutputSelection(target.value.slice(target.selectionStart, target.selectionEnd).trim());
+      return;
+    }
+    const selection = window.getSelection();
+    if (selection && e.currentTarget.contains(selection.anchorNode)) setOutputSelection(selection.toString().trim());
+  };
+
+  useEffect(() => setOutputSelection(''), [outputText]);
+
+  // 以選取的文字預填快速修正，游標移到「換成對的」
+  const prefillQuickFix = () => {
+    if (!outputSelection) return addToast(t('toast.noSelection'), 'info');
+    if (outputSelection.includes('\n')) return addToast(t('toast.multilineSelection'), 'info');
+    setQuickSearch(outputSelection);
+    setQuickReplace(outputSelection);
+    requestAnimationFrame(() => quickReplaceRef.current?.select());
+  };
+
+  // 快捷鍵對應的動作；每次繪製更新，監聽器只需註冊一次
+  const shortcutActions = useRef({} as Record<ShortcutAction, () => void>);
+  shortcutActions.current = {
+    convert: () => { if (progress === null) handleConvert(pair); },
+    swap: swapTexts,
+    copy: copyOutput,
+    prefillFix: prefillQuickFix,
+    quickFix: applyQuickFix,
+    palette: () => setPaletteOpen(open => !open),
+  };
+
+  const shortcutLabel = (action: ShortcutAction) => formatShortcut(SHORTCUTS[action]);
+
+  // 檔案後端的下載／上傳實際上是匯入／匯出補丁檔
+  const pullLabel = t(syncBackend === 'file' ? 'sync.importFile' : 'sync.pull');
+  const pushLabel = t(syncBackend === 'file' ? 'sync.exportFile' : 'sync.push');
+
+  // 設定變更提醒中顯示的新值；圖示、音效與各語言名稱不顯示內容
+  const describeConfigField = (field: keyof SiteConfig): string | undefined => {
+    switch (field) {
+      case 'siteName': return config.siteName;
+      case 'subtitle': return config.subtitle;
+      case 'sync':
+        if (!config.sync) return t('configChange.unset');
+        return [t(`syncBackend.${config.sync.backend}`), config.sync.url].filter(Boolean).join(t('configChange.colon'));
+      case 'embedOrigins': return config.embedOrigins.join(t('list.separator')) || t('configChange.unset');
+      default: return undefined;
+    }
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'convert', label: t('command.convert'), group: t('command.group.convert'), shortcut: shortcutLabel('convert'), disabled: progress !== null, run: () => handleConvert(pair) },
+    { id: 'to-simplified', label: t('convert.toSimplified'), group: t('command.group.convert'), disabled: progress !== null, run: () => handleConvert({ from: traditionalVariant, to: 'cn' }) },
+    { id: 'to-traditional', label: t('convert.toTraditional'), group: t('command.group.convert'), disabled: progress !== null, run: () => handleConvert({ from: 'cn', to: traditionalVariant }) },
+    { id: 'live', label: t(liveMode ? 'command.liveOff' : 'command.liveOn'), group: t('command.group.convert'), run: toggleLiveMode },
+    { id: 'swap', label: t('command.swap'), group: t('command.group.edit'), shortcut: shortcutLabel('swap'), run: swapTexts },
+    { id: 'copy', label: t('command.copy'), group: t('command.group.edit'), shortcut: shortcutLabel('copy'), run: copyOutput },
+    { id: 'prefill-fix', label: t('command.prefillFix'), group: t('command.group.edit'), shortcut: shortcutLabel('prefillFix'), disabled: !outputSelection, run: prefillQuickFix },
+    { id: 'quick-fix', label: t('quickFix.apply'), group: t('command.group.edit'), shortcut: shortcutLabel('quickFix'), disabled: !quickSearch.trim(), run: applyQuickFix },
+    { id: 'undo-text', label: t('command.undoText'), group: t('command.group.edit'), disabled: !textHistory.canUndo, run: () => stepText(textHistory.undo) },
+    { id: 'redo-text', label: t('command.redoText'), group: t('command.group.edit'), disabled: !textHistory.canRedo, run: () => stepText(textHistory.redo) },
+    { id: 'toggle-diff', label: t(showDiff ? 'command.hideDiff' : 'command.showDiff'), group: t('command.group.view'), disabled: !lastResult, run: () => setShowDiff(v => !v) },
+    { id: 'history', label: t('command.history'), group: t('command.group.view'), run: () => openHistory() },
+    { id: 'activity', label: t('command.activity'), group: t('command.group.view'), run: () => openActivity() },
+    { id: 'sync-pull', label: pullLabel, group: t('command.group.patches'), run: () => syncFromCloud(selectedDict, syncAdapter, syncBase) },
+    { id: 'sync-push', label: pushLabel, group: t('command.group.patches'), run: () => uploadToCloud() },
+    { id: 'save', label: t('command.save'), group: t('command.group.patches'), run: saveLocal },
+    { id: 'undo-patch', label: t('command.undoPatches'), group: t('command.group.patches'), disabled: !patchHistory.canUndo, run: patchHistory.undo },
+    { id: 'redo-patch', label: t('command.redoPatches'), group: t('command.group.patches'), disabled: !patchHistory.canRedo, run: patchHistory.redo },
+    { id: 'add-dictionary', label: t('command.addDictionary'), group: t('command.group.dictionary'), run: addDictionary },
+    ...dictionaries.map(d => ({
+      id: `select:${d.id}`,
+      label: t('command.selectDictionary', { name: d.name }),
+      group: t('command.group.dictionary'),
+      disabled: d.id === selectedDict.id,
+      run: () => setSelectedDictId(d.id),
+    })),
+  ];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = findShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      shortcutActions.current[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openHistory = () => {
+    setHistoryOpen(true);
+    listHistory().then(setHistoryEntries).catch(() => addToast(t('toast.historyLoadFailed'), 'error'));
+  };
+
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    setTexts({ input: entry.input, output: entry.output });
+    setPair(entry.pair);
+    setFormat(entry.format);
+    setLastResult(null);
+    setAmbiguities([]);
+    setHistoryOpen(false);
+    addToast(t('toast.historyOpened'), 'success');
+  };
+
+  // 當時啟用的字典依原順序排在最前並啟用，其餘字典停用；可用補丁面板的復原撤銷
+  const handleRestorePatches = (entry: HistoryEntry) => {
+    if (!window.confirm(t('toast.restorePatchesConfirm'))) return;
+    const snapshotIds = new Set(entry.dictionaries.map(d => d.id));
+    updateDictionaries(list => [
+      ...entry.dictionaries.map(d => ({ ...d, enabled: true })),
+      ...list.filter(d => !snapshotIds.has(d.id)).map(d => ({ ...d, enabled: false })),
+    ]);
+    setHistoryOpen(false);
+    addToast(t('toast.patchesRestored'), 'success');
+  };
+
+  const handleDeleteHistory = (id: number) => {
+    deleteHistoryEntry(id)
+      .then(() => setHistoryEntries(entries => entries.filter(e => e.id !== id)))
+      .catch(() => addToast(t('toast.deleteFailed'), 'error'));
+  };
+
+  const handleClearHistory = () => {
+    clearHistory()
+      .then(() => setHistoryEntries([]))
+      .catch(() => addToast(t('toast.clearFailed'), 'error'));
+  };
+
+  const openActivity = () => {
+    setActivityOpen(true);
+    setActivitySeenAt(Date.now());
+  };
+
+  const clearActivity = () => {
+    setActivityLog([]);
+    saveActivityLog([]);
+  };
+
+  // 由差異檢視新增或修改規則：規則來源改寫所屬字典的原行，OpenCC 來源則新增至目前字典。
+  // 轉換後字典可能已被編輯，行號不再可靠：原行不是同一條規則時改找相同的規則，找不到則新增
+  const handleSaveSpanRule = (span: ChangeSpan, old: string, newVal: string) => {
+    if (span.source.kind === 'rule' && span.source.rule.line && span.source.rule.dictionary) {
+      const { rule, stage } = span.source;
+      const field = stage === 'pre' ? 'prePatches' : 'patches';
+      const dict = dictionaries.find(d => d.id === rule.dictionary!.id);
+      const original = formatPatchRule(rule.old, rule.newVal, rule);
+      const isOriginal = (text: string) => {
+        const parsed = parsePatchText(text).rules[0];
+        return !!parsed && formatPatchRule(parsed.old, parsed.newVal, parsed) === original;
+      };
+      const findLine = (lines: string[]) => isOriginal(lines[rule.line! - 1] ?? '') ? rule.line! - 1 : lines.findIndex(isOriginal);
+      const line = formatPatchRule(old, newVal, rule);
+      const index = dict ? findLine(dict[field].split('\n')) : -1;
+      editDictionary(rule.dictionary!.id, field, text => {
+        const lines = text.split('\n');
+        const at = findLine(lines);
+        if (at < 0) return text ? `${text}\n${line}` : line;
+        lines[at] = line;
+        return lines.join('\n');
+      });
+      addToast(index < 0
+        ? t('toast.ruleMissingAdded', { name: rule.dictionary!.name })
+        : t('toast.ruleUpdated', { name: rule.dictionary!.name, line: index + 1 }), 'success');
+      return;
+    }
+    appendRule(formatPatchRule(old, newVal));
+    addToast(t('toast.ruleAddedReconvert', { name: selectedDict.name }), 'success');
+  };
+
+  // 批次轉換沿用目前選定的方向與補丁，格式則依各檔案的副檔名決定
+  const convertForBatch = useCallback(
+    async (text: string, fileFormat: TextFormat) =>
+      (await convertInWorker(text, pair, { ...conversionOptions, format: fileFormat })).text,
+    [pair, conversionOptions]
+  );
+
+  // 確認一簡多繁的寫法：直接改寫輸出，並可選擇記憶為帶上下文的補丁
+  const handleResolveAmbiguity = (amb: Ambiguity, choice: string, remember: boolean) => {
+    if (choice !== amb.current) {
+      const replaceAt = (text: string) => text.slice(0, amb.start) + choice + text.slice(amb.end);
+      setOutputText(replaceAt);
+      setLastResult(r => r && { ...r, text: replaceAt(r.text) });
+      if (remember) {
+        const rule = buildContextRule(outputText, amb, choice);
+        appendRule(rule);
+        addToast(t('toast.ruleAddedWithRule', { name: selectedDict.name, rule }), 'success');
+      }
+    }
+    setAmbiguities(list => list.filter(a => a !== amb));
+  };
+
+  // 目前字典中被其他字典蓋過的規則（只列出目前分頁的階段）
+  const shadowedInSelected = combined.shadowed.filter(s =>
+    s.rule.dictionary?.id === selectedDict.id && s.stage === (patchTab === 'pre' ? 'pre' : 'post') && patchTab !== 'protected');
+
+  // 目前分頁所編輯的內容
+  const currentTab = {
+    hint: t(`patches.hint.${patchTab}`),
+    placeholder: t(`patches.placeholder.${patchTab}`),
+    field: (patchTab === 'post' ? 'patches' : patchTab === 'pre' ? 'prePatches' : 'protectedTerms') as keyof PatchSet,
+    errors: patchTab === 'post' ? parsedPatches.errors : patchTab === 'pre' ? parsedPrePatches.errors : [],
   };
 
   return (
@@ -152,69 +799,193 @@ const App: React.FC = () => {
           </div>
           <div className="flex flex-col text-left">
             <h1 className="text-3xl font-extrabold bg-gradient-to-r from-rose-500 to-purple-600 bg-clip-text text-transparent leading-tight">
-              {config.siteName}
+              {siteText.siteName}
             </h1>
-            <p className="text-slate-500 text-sm font-medium tracking-wide opacity-80">{config.subtitle}</p>
+            <p className="text-slate-500 text-sm font-medium tracking-wide opacity-80">{siteText.subtitle}</p>
           </div>
         </div>
+        <div className="flex flex-wrap justify-end gap-2 shrink-0">
+          <select
+            value={locale}
+            onChange={e => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+            aria-label={t('locale.label')}
+            className="text-xs bg-white/60 px-3 py-2 rounded-xl border border-white/20 font-medium text-slate-500 outline-none"
+          >
+            {LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
+          <button onClick={wrap(() => setPaletteOpen(true))} title={t('header.paletteTitle', { shortcut: shortcutLabel('palette') })} className="text-xs bg-white/60 px-4 py-2 rounded-xl border border-white/20 hover:bg-white transition-all font-medium text-slate-500">{t('header.palette')}</button>
+          <button onClick={wrap(openHistory)} className="text-xs bg-white/60 px-4 py-2 rounded-xl border border-white/20 hover:bg-white transition-all font-medium text-slate-500">{t('header.history')}</button>
+          <button onClick={wrap(openActivity)} className="relative text-xs bg-white/60 px-4 py-2 rounded-xl border border-white/20 hover:bg-white transition-all font-medium text-slate-500">
+            {t('header.activity')}
+            {unseenErrors > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center" aria-label={t('header.activityErrors', { count: unseenErrors })}>
+                {unseenErrors}
+              </span>
+            )}
+          </button>
+        </div>
       </header>
 
+      {configChanges.length > 0 && (
+        <div role="alert" className={`mb-6 rounded-2xl px-5 py-4 text-sm shadow-md ${configChanges.some(c => c.field === 'sync' || c.field === 'embedOrigins') ? 'bg-amber-50 border border-amber-200 text-amber-800' : 'bg-white/70 text-slate-600'}`}>
+          <p className="font-bold">{t('configChange.title')}</p>
+          <ul className="mt-1 text-xs space-y-0.5">
+            {configChanges.map(({ field }) => {
+              const detail = describeConfigField(field);
+              return (
+                <li key={field}>
+                  {t(`configField.${field}`)}{detail !== undefined && <>{t('configChange.colon')}<span className="font-mono break-all">{detail || t('configChange.empty')}</span></>}
+                </li>
+              );
+            })}
+          </ul>
+          {configChanges.some(c => c.field === 'sync') && (
+            <p className="mt-1 text-xs">{t('configChange.syncWarning')}</p>
+          )}
+          {configChanges.some(c => c.field === 'embedOrigins') && (
+            <p className="mt-1 text-xs">{t('configChange.embedWarning')}</p>
+          )}
+          <button
+            onClick={() => { markConfigSeen(config); setConfigChanges([]); }}
+            className="mt-2 text-xs font-bold underline"
+          >
+            {t('configChange.dismiss')}
+          </button>
+        </div>
+      )}
+
       <main className="space-y-6">
         {/* 輸入區域 */}
         <section className="glass-panel rounded-[2rem] p-6 shadow-xl border-white/40">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-slate-600 font-bold flex items-center gap-2">
               <span className="w-2.5 h-2.5 rounded-full bg-rose-400"></span>
-              輸入原文
+              {t('input.title')}
             </h2>
-            <button onClick={wrap(() => setInputText(''))} className="text-xs text-slate-400 hover:text-rose-500 transition-colors font-medium">清空內容</button>
+            <div className="flex items-center gap-3">
+              <button onClick={wrap(() => stepText(textHistory.undo))} disabled={!textHistory.canUndo} title={t('input.undoTitle')} className="text-xs text-slate-400 hover:text-rose-500 transition-colors font-medium disabled:opacity-30">{t('input.undo')}</button>
+              <button onClick={wrap(() => stepText(textHistory.redo))} disabled={!textHistory.canRedo} title={t('input.redoTitle')} className="text-xs text-slate-400 hover:text-rose-500 transition-colors font-medium disabled:opacity-30">{t('input.redo')}</button>
+              <button onClick={wrap(() => setInputText(''))} className="text-xs text-slate-400 hover:text-rose-500 transition-colors font-medium">{t('input.clear')}</button>
+            </div>
           </div>
           <textarea
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            placeholder="請在此貼上您的中文內容..."
+            onChange={(e) => setInputText(e.target.value, 'typing')}
+            placeholder={t('input.placeholder')}
             className="w-full h-44 bg-transparent border-none focus:ring-0 text-lg leading-relaxed placeholder:text-slate-300 resize-none no-scrollbar"
           />
+          <p className="text-right text-[10px] text-slate-400">{t('counts', { ...inputCounts })}</p>
         </section>
 
         {/* Action Bar */}
         <section className="grid grid-cols-1 lg:grid-cols-12 gap-4">
           <div className="lg:col-span-7 glass-panel rounded-[1.5rem] p-3 shadow-md flex items-center gap-2 sm:gap-4">
             <div className="flex flex-1 items-center gap-2 min-w-0">
-              <input value={quickSearch} onChange={e => setQuickSearch(e.target.value)} placeholder="把這個錯字..." className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2.5 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
+              <button
+                onClick={wrap(prefillQuickFix)}
+                disabled={!outputSelection}
+                title={t('quickFix.prefillTitle', { shortcut: shortcutLabel('prefillFix') })}
+                className="shrink-0 text-sm disabled:opacity-30 hover:scale-110 transition-transform"
+              >
+                📌
+              </button>
+              <input value={quickSearch} onChange={e => setQuickSearch(e.target.value)} placeholder={t('quickFix.searchPlaceholder')} className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2.5 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
               <span className="text-rose-300 font-bold shrink-0">➔</span>
-              <input value={quickReplace} onChange={e => setQuickReplace(e.target.value)} placeholder="換成對的..." className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2.5 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
+              <input ref={quickReplaceRef} value={quickReplace} onChange={e => setQuickReplace(e.target.value)} placeholder={t('quickFix.replacePlaceholder')} className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2.5 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
             </div>
             <button 
-              onClick={wrap(() => {
-                if (!quickSearch.trim()) return addToast('請輸入要修正的字', 'info');
-                const rule = `${quickSearch.trim()}=${quickReplace.trim()}`;
-                setPatches(p => p ? `${p}\n${rule}` : rule);
-                setQuickSearch(''); setQuickReplace(''); addToast('已加入補丁', 'success');
-              })} 
+              onClick={wrap(applyQuickFix)}
+              title={shortcutLabel('quickFix')}
               className="bg-rose-400 text-white px-4 sm:px-6 py-2.5 rounded-xl text-xs sm:text-sm font-bold shadow-lg shrink-0 whitespace-nowrap active:scale-95 transition-transform"
             >
-              修正並記憶
+              {t('quickFix.apply')}
             </button>
           </div>
 
           <div className="lg:col-span-5 flex gap-2">
-            <button onClick={wrap(() => handleConvert(ConversionType.TO_SIMPLIFIED))} className="flex-1 bg-gradient-to-r from-rose-400 to-rose-500 text-white font-bold rounded-2xl shadow-lg py-3 hover:brightness-105 active:scale-95 transition-all">變簡體</button>
-            <button onClick={wrap(() => handleConvert(ConversionType.TO_TRADITIONAL))} className="flex-1 bg-gradient-to-r from-purple-400 to-purple-500 text-white font-bold rounded-2xl shadow-lg py-3 hover:brightness-105 active:scale-95 transition-all">變繁體</button>
-            <button onClick={wrap(() => { setInputText(outputText); setOutputText(inputText); })} className="bg-white/60 w-12 sm:w-14 flex items-center justify-center rounded-2xl shadow-md text-slate-500 hover:rotate-180 transition-transform duration-500">🔄</button>
+            {progress === null ? (
+              <>
+                <button onClick={wrap(() => handleConvert({ from: traditionalVariant, to: 'cn' }))} className="flex-1 bg-gradient-to-r from-rose-400 to-rose-500 text-white font-bold rounded-2xl shadow-lg py-3 hover:brightness-105 active:scale-95 transition-all">{t('convert.toSimplified')}</button>
+                <button onClick={wrap(() => handleConvert({ from: 'cn', to: traditionalVariant }))} className="flex-1 bg-gradient-to-r from-purple-400 to-purple-500 text-white font-bold rounded-2xl shadow-lg py-3 hover:brightness-105 active:scale-95 transition-all">{t('convert.toTraditional')}</button>
+              </>
+            ) : (
+              <div className="flex-1 relative overflow-hidden bg-white/60 rounded-2xl shadow-lg flex items-center justify-between px-4">
+                <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-rose-200 to-purple-200 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                <span className="relative text-sm font-bold text-slate-600">{t('convert.progress', { percent: Math.round(progress * 100) })}</span>
+                <button onClick={wrap(cancelConversion)} className="relative text-xs font-bold text-rose-400 hover:text-rose-600">{t('convert.cancel')}</button>
+              </div>
+            )}
+            <button onClick={wrap(swapTexts)} title={t('convert.swapTitle', { shortcut: shortcutLabel('swap') })} className="bg-white/60 w-12 sm:w-14 flex items-center justify-center rounded-2xl shadow-md text-slate-500 hover:rotate-180 transition-transform duration-500">🔄</button>
           </div>
         </section>
 
+        {/* 轉換變體選擇 */}
+        <section className="glass-panel rounded-[1.5rem] p-3 shadow-md flex flex-wrap items-center gap-2 sm:gap-3">
+          <span className="text-xs font-bold text-slate-500 shrink-0">{t('direction.title')}</span>
+          <select value={pair.from} onChange={e => setPair({ ...pair, from: e.target.value as ConversionPair['from'] })} className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none">
+            {CHINESE_VARIANTS.map(v => <option key={v.value} value={v.value}>{t(`variant.${v.value}`)}</option>)}
+          </select>
+          <button onClick={wrap(() => setPair({ from: pair.to, to: pair.from }))} className="text-rose-300 font-bold shrink-0 hover:text-rose-500 transition-colors" title={t('direction.swapTitle')}>⇄</button>
+          <select value={pair.to} onChange={e => setPair({ ...pair, to: e.target.value as ConversionPair['to'] })} className="flex-1 min-w-0 bg-white/50 border-none rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none">
+            {CHINESE_VARIANTS.map(v => <option key={v.value} value={v.value}>{t(`variant.${v.value}`)}</option>)}
+          </select>
+          <select value={format} onChange={e => setFormat(e.target.value as TextFormat | 'auto')} title={t('direction.formatTitle')} className="min-w-0 bg-white/50 border-none rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none">
+            <option value="auto">{t('direction.formatAuto')}</option>
+            {TEXT_FORMATS.map(f => <option key={f.value} value={f.value}>{t('direction.format', { format: t(`format.${f.value}`) })}</option>)}
+          </select>
+          <label className="flex items-center gap-1.5 text-xs font-bold text-slate-500 shrink-0 cursor-pointer" title={t('direction.liveTitle')}>
+            <input type="checkbox" checked={liveMode} onChange={wrap(toggleLiveMode)} className="accent-rose-400" />
+            {t('direction.live')}
+          </label>
+          <button onClick={wrap(() => handleConvert(pair))} disabled={progress !== null} title={shortcutLabel('convert')} className="disabled:opacity-40 bg-slate-700 text-white px-4 py-2 rounded-xl text-xs sm:text-sm font-bold shadow-md shrink-0 whitespace-nowrap active:scale-95 transition-transform">{t('direction.convert')}</button>
+        </section>
+
         {/* 成果輸出 */}
         <section className="glass-panel rounded-[2rem] p-6 shadow-xl">
            <div className="flex justify-between items-center mb-4">
             <h2 className="text-slate-600 font-bold flex items-center gap-2">
               <span className="w-2.5 h-2.5 rounded-full bg-purple-400"></span>
-              成果報告
+              {t('output.title')}
             </h2>
-            <button onClick={wrap(() => { navigator.clipboard.writeText(outputText); addToast('成果已複製', 'success'); })} className="text-xs bg-white/60 px-4 py-1.5 rounded-lg border border-white/20 hover:bg-white transition-all font-medium">📋 複製成果</button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={wrap(() => setShowDiff(v => !v))}
+                disabled={!lastResult}
+                className={`text-xs px-4 py-1.5 rounded-lg border border-white/20 transition-all font-medium disabled:opacity-40 ${showDiff ? 'bg-purple-400 text-white' : 'bg-white/60 hover:bg-white'}`}
+              >
+                {t('output.diff')}
+              </button>
+              <button onClick={wrap(copyOutput)} title={shortcutLabel('copy')} className="text-xs bg-white/60 px-4 py-1.5 rounded-lg border border-white/20 hover:bg-white transition-all font-medium">{t('output.copy')}</button>
+            </div>
+          </div>
+          <div onMouseUp={captureOutputSelection} onKeyUp={captureOutputSelection} onSelect={captureOutputSelection}>
+            {showDiff && lastResult ? (
+              <AnnotatedOutput result={lastResult} onSaveRule={handleSaveSpanRule} t={t} />
+            ) : (
+              <textarea readOnly value={outputText} className="w-full h-44 bg-transparent border-none focus:ring-0 text-lg leading-relaxed no-scrollbar resize-none cursor-default" placeholder={t('output.placeholder')} />
+            )}
           </div>
-          <textarea readOnly value={outputText} className="w-full h-44 bg-transparent border-none focus:ring-0 text-lg leading-relaxed no-scrollbar resize-none cursor-default" placeholder="轉換後的內容將顯示於此..." />
+          <p className="text-right text-[10px] text-slate-400">
+            {t('counts', { ...outputCounts })}
+            {lastResult && t('output.summary', { spans: lastResult.spans.length, hits: lastResult.hits.length })}
+          </p>
+          <AmbiguityPicker text={outputText} ambiguities={ambiguities} onResolve={handleResolveAmbiguity} t={t} />
+        </section>
+
+        {/* 批次檔案轉換 */}
+        <section className="glass-panel rounded-[1.5rem] overflow-hidden shadow-lg border border-white/20">
+          <details className="group">
+            <summary className="flex items-center justify-between p-4 cursor-pointer hover:bg-white/30 transition-colors list-none">
+              <div className="flex items-center gap-3">
+                <span className="text-lg">📁</span>
+                <span className="font-bold text-slate-600">{t('batch.title')}</span>
+              </div>
+              <svg className="w-5 h-5 text-slate-400 group-open:rotate-180 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+            </summary>
+            <div className="p-4 border-t border-white/20 bg-white/10">
+              <BatchConverter convert={convertForBatch} onNotify={notifyBatch} t={t} />
+            </div>
+          </details>
         </section>
 
         {/* 智慧補丁系統 */}
@@ -223,11 +994,16 @@ const App: React.FC = () => {
             <summary className="flex items-center justify-between p-4 cursor-pointer hover:bg-white/30 transition-colors list-none">
               <div className="flex items-center gap-3">
                 <span className="text-lg">✨</span>
-                <span className="font-bold text-slate-600">智慧補丁系統 (Cloud Dictionary)</span>
+                <span className="font-bold text-slate-600">{t('patches.title')}</span>
               </div>
               <div className="flex items-center gap-2">
-                <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${config.gasUrl ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
-                   {config.gasUrl ? '☁️ 已連結雲端' : '未設定網址'}
+                {syncAdapter && syncBase && (
+                  <span className="text-[10px] text-slate-400 font-mono" title={t('patches.hashTitle', { hash: syncBase.hash })}>
+                    rev {syncBase.revision}{hasUnsyncedChanges ? t('patches.unsynced') : ''}
+                  </span>
+                )}
+                <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${syncBackend ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
+                   {syncBackend ? `☁️ ${t(`syncBackend.${syncBackend}`)}` : t('patches.noSync')}
                 </span>
                 <svg className="w-5 h-5 text-slate-400 group-open:rotate-180 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
               </div>
@@ -235,29 +1011,132 @@ const App: React.FC = () => {
             <div className="p-4 border-t border-white/20 space-y-4 bg-white/10">
               <div className="flex justify-between items-center">
                  <div className="flex gap-2">
-                  <button onClick={wrap(() => syncFromCloud(null, false))} className="px-4 py-2 bg-sky-400 text-white text-[10px] font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all whitespace-nowrap">☁️ 手動下載補丁</button>
-                  <button onClick={wrap(uploadToCloud)} className="px-4 py-2 bg-indigo-400 text-white text-[10px] font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all whitespace-nowrap">🚀 上傳至雲端</button>
+                  <button onClick={wrap(() => syncFromCloud(selectedDict, syncAdapter, syncBase))} className="px-4 py-2 bg-sky-400 text-white text-[10px] font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all whitespace-nowrap">{pullLabel}</button>
+                  <button onClick={wrap(() => uploadToCloud())} className="px-4 py-2 bg-indigo-400 text-white text-[10px] font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all whitespace-nowrap">{pushLabel}</button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button onClick={wrap(patchHistory.undo)} disabled={!patchHistory.canUndo} title={t('patches.undoTitle')} className="text-[10px] font-bold text-slate-400 hover:text-rose-500 disabled:opacity-30">{t('input.undo')}</button>
+                  <button onClick={wrap(patchHistory.redo)} disabled={!patchHistory.canRedo} title={t('patches.redoTitle')} className="text-[10px] font-bold text-slate-400 hover:text-rose-500 disabled:opacity-30">{t('input.redo')}</button>
+                  <button onClick={wrap(saveLocal)} className="text-[10px] font-bold text-rose-400 hover:underline">{t('patches.saveLocal')}</button>
                 </div>
-                <button onClick={wrap(() => { localStorage.setItem('dream_cloud_patches', patches); addToast('已儲存至本地', 'success'); })} className="text-[10px] font-bold text-rose-400 hover:underline">💾 儲存至本地</button>
+              </div>
+
+              <DictionaryBar
+                dictionaries={dictionaries}
+                selectedId={selectedDict.id}
+                pendingIds={Object.keys(pendingMerges)}
+                onSelect={setSelectedDictId}
+                onToggle={id => updateDictionaries(list => list.map(d => d.id === id ? { ...d, enabled: !d.enabled } : d))}
+                onMove={(id, delta) => updateDictionaries(list => moveDictionary(list, id, delta))}
+                onRename={renameDictionary}
+                onRemove={removeDictionary}
+                onAdd={addDictionary}
+                t={t}
+              />
+
+              {pendingMerge && (
+                <MergePanel
+                  base={pendingMerge.base}
+                  local={localPatchSet}
+                  remote={pendingMerge.remote}
+                  onApply={applyMerge}
+                  onCancel={() => setPendingMerge(selectedDict.id, null)}
+                  t={t}
+                />
+              )}
+
+              <div className="flex gap-1 bg-white/30 rounded-xl p-1">
+                {PATCH_TABS.map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setPatchTab(tab)}
+                    className={`flex-1 py-1.5 rounded-lg text-[11px] font-bold transition-all ${patchTab === tab ? 'bg-white text-rose-500 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {t(`patches.tab.${tab}`)}
+                  </button>
+                ))}
               </div>
 
               <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">
-                規則清單（每行一條：舊字=新字）
+                {currentTab.hint}
               </div>
+              {patchTab !== 'protected' && (
+                <details className="text-[11px] text-slate-500 bg-white/30 rounded-xl px-3 py-2">
+                  <summary className="cursor-pointer font-bold">{t('patches.syntax.title')}</summary>
+                  <ul className="mt-2 space-y-1 font-mono">
+                    {SYNTAX_HELP.map(line => <li key={line}>{t(`patches.syntax.${line}`)}</li>)}
+                  </ul>
+                </details>
+              )}
               
               <textarea
-                value={patches}
-                onChange={(e) => setPatches(e.target.value)}
+                value={selectedDict[currentTab.field]}
+                onChange={(e) => editDictionary(selectedDict.id, currentTab.field, e.target.value, `${selectedDict.id}:${currentTab.field}`)}
                 className="w-full h-48 bg-white/40 rounded-xl p-4 text-sm font-mono border-none focus:ring-2 focus:ring-rose-200 resize-none no-scrollbar leading-relaxed"
-                placeholder="範例：&#10;發佈=發布&#10;程式=程序"
+                placeholder={currentTab.placeholder}
               />
-              <p className="text-[9px] text-slate-400 text-center italic">※ 提示：雲端網址現在統一由後台 (admin.html) 進行管理設定。</p>
+              {currentTab.errors.length > 0 && (
+                <ul className="text-[11px] text-rose-500 bg-rose-50/60 rounded-xl px-3 py-2 space-y-0.5">
+                  {currentTab.errors.map(err => (
+                    <li key={err.line}>{t('patches.lineError', { line: err.line, message: t(err.key, err.params) })}</li>
+                  ))}
+                </ul>
+              )}
+              {shadowedInSelected.length > 0 && (
+                <ul className="text-[11px] text-amber-600 bg-amber-50/60 rounded-xl px-3 py-2 space-y-0.5">
+                  {shadowedInSelected.map(({ rule, by }) => (
+                    <li key={rule.line}>
+                      {t('patches.shadowed', { line: rule.line!, old: rule.old, dictionary: by.dictionary?.name ?? '', byLine: by.line!, newVal: by.newVal })}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {patchTab !== 'protected' && (
+                <RuleStatsPanel
+                  rules={statsRules}
+                  stage={patchTab === 'pre' ? 'pre' : 'post'}
+                  stats={ruleStats}
+                  lastHits={lastHits}
+                  onRemoveLines={lines => removeRuleLines(patchTab === 'pre' ? 'prePatches' : 'patches', lines)}
+                  onReset={() => {
+                    setRuleStats(EMPTY_RULE_STATS);
+                    saveRuleStats(EMPTY_RULE_STATS);
+                    setLastHits({});
+                  }}
+                  t={t}
+                />
+              )}
+              <p className="text-[10px] text-slate-400">
+                {t('patches.order', { order: dictionaries.filter(d => d.enabled).map(d => d.name).join(' → ') || t('patches.orderNone') })}
+                {t('patches.totals', { rules: combined.rules.length, preRules: combined.preRules.length, protectedTerms: combined.protectedTerms.length })}
+              </p>
+              <p className="text-[9px] text-slate-400 text-center italic">{t('patches.adminNote')}</p>
             </div>
           </details>
         </section>
       </main>
 
-      <Toast toasts={toasts} onRemove={(id) => setToasts(t => t.filter(x => x.id !== id))} />
+      <HistoryDrawer
+        open={historyOpen}
+        entries={historyEntries}
+        onClose={() => setHistoryOpen(false)}
+        onOpen={handleOpenHistory}
+        onRestorePatches={handleRestorePatches}
+        onDelete={handleDeleteHistory}
+        onClear={handleClearHistory}
+        t={t}
+        locale={locale}
+      />
+      <CommandPalette open={paletteOpen} commands={paletteCommands} onClose={() => setPaletteOpen(false)} t={t} />
+      <ActivityLogPanel
+        open={activityOpen}
+        entries={activityLog}
+        onClose={() => setActivityOpen(false)}
+        onClear={clearActivity}
+        t={t}
+        locale={locale}
+      />
+      <Toast toasts={toasts} onRemove={removeToast} labels={{ details: t('toast.details'), close: t('toast.close') }} />
     </div>
   );
 };
@@ -1,34 +1,59 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
-import { SiteConfig } from './types';
-
-const DEFAULT_CONFIG: SiteConfig = {
-  siteName: '夢幻文字雲端轉換器',
-  subtitle: '追求效率與美感的創作者工具',
-  customIcon: null,
-  clickSound: null,
-  gasUrl: null,
+import { Locale, SiteConfig, SiteText, SyncSettings } from './types';
+import { downloadTextFile, pickTextFile, SYNC_BACKENDS } from './utils/syncAdapters';
+import { createConfigBundle, DEFAULT_SITE_CONFIG, loadSiteConfig, localizeSiteText, readConfigBundle, saveSiteConfig, toOrigin } from './utils/siteConfig';
+import { combineDictionaries, loadDictionaries, saveDictionaries } from './utils/dictionaries';
+import { clearPasscode, hasPasscode, setPasscode } from './utils/adminPasscode';
+import DictionaryConsole from './components/DictionaryConsole';
+import PasscodeGate from './components/PasscodeGate';
+import { registerServiceWorker } from './utils/pwa';
+import { isLocale, LOCALES } from './utils/i18n';
+import { useI18n } from './utils/useI18n';
+import { errorText } from './utils/messages';
+
+const DEFAULT_SYNC: SyncSettings = { backend: 'gas', url: '' };
+
+// 各後端的網址範例；欄位名稱與說明見各語言目錄的 admin.sync.*
+const SYNC_URL_PLACEHOLDERS: Record<SyncSettings['backend'], string> = {
+  gas: 'https://script.google.com/macros/s/.../exec',
+  rest: 'https://api.example.com/patches',
+  webdav: 'https://dav.example.com/dream-cloud/patches.json',
+  file: '',
 };
 
+// 網站名稱與副標題可另外設定的語言（來源語言直接使用上方欄位）
+const TRANSLATED_LOCALES = LOCALES.filter(l => l.value !== 'zh-TW');
+
 const AdminApp: React.FC = () => {
-  const [config, setConfig] = useState<SiteConfig>(DEFAULT_CONFIG);
+  const [config, setConfig] = useState<SiteConfig>(DEFAULT_SITE_CONFIG);
+  const [sync, setSync] = useState<SyncSettings>(DEFAULT_SYNC);
+  // 嵌入允許來源的編輯內容（每行一個），儲存時才正規化
+  const [embedOriginsText, setEmbedOriginsText] = useState('');
   const [saveStatus, setSaveStatus] = useState(false);
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [bundleMessage, setBundleMessage] = useState('');
+  const [passcodeSet, setPasscodeSet] = useState(hasPasscode);
+  const [newPasscode, setNewPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [passcodeMessage, setPasscodeMessage] = useState('');
+  // 匯入設定包後遞增，讓字典管理重新讀取
+  const [dictionaryVersion, setDictionaryVersion] = useState(0);
+  // 簡體介面文字套用與主程式相同的補丁規則
+  const rules = useMemo(() => combineDictionaries(loadDictionaries()).rules, [dictionaryVersion]);
+  const { locale, setLocale, t } = useI18n(rules);
 
   useEffect(() => {
-    const saved = localStorage.getItem('dream_cloud_site_config');
-    if (saved) {
-      try {
-        setConfig({ ...DEFAULT_CONFIG, ...JSON.parse(saved) });
-      } catch (e) {
-        console.error("Failed to parse saved config", e);
-      }
-    }
+    const savedConfig = loadSiteConfig();
+    setConfig(savedConfig);
+    setSync(savedConfig.sync ?? DEFAULT_SYNC);
+    setEmbedOriginsText(savedConfig.embedOrigins.join('\n'));
   }, []);
 
   // 同步更新瀏覽器分頁標題與 Favicon
   useEffect(() => {
-    document.title = `${config.siteName} - 後台管理`;
+    document.title = t('admin.documentTitle', { siteName: localizeSiteText(config, locale).siteName });
     if (config.customIcon) {
       let link: HTMLLinkElement | null = document.querySelector("link[rel~='icon']");
       if (!link) {
@@ -38,18 +63,70 @@ const AdminApp: React.FC = () => {
       }
       link.href = config.customIcon;
     }
-  }, [config.siteName, config.customIcon]);
+  }, [config, locale, t]);
+
+  const embedOriginLines = embedOriginsText.split('\n').map(line => line.trim()).filter(Boolean);
+  const invalidEmbedOrigins = embedOriginLines.filter(line => !toOrigin(line));
 
   const handleSave = () => {
-    localStorage.setItem('dream_cloud_site_config', JSON.stringify(config));
-    // 同步舊有的 gas_url 鍵值以確保相容性
-    if (config.gasUrl) {
-      localStorage.setItem('dream_cloud_gas_url', config.gasUrl);
-    }
+    const embedOrigins = embedOriginLines.map(toOrigin).filter((origin): origin is string => origin !== null);
+    // 未填網址的同步來源視為未設定（檔案匯出不需要網址），與從未設定同步時一樣存成 null
+    const url = sync.url.trim();
+    saveSiteConfig({ ...config, sync: url || sync.backend === 'file' ? { ...sync, url } : null, embedOrigins });
+    setConfig({ ...config, embedOrigins });
+    setEmbedOriginsText(embedOrigins.join('\n'));
     setSaveStatus(true);
     setTimeout(() => setSaveStatus(false), 2000);
   };
 
+  // 設定包內容以已儲存的設定與字典為準
+  const handleExportBundle = async () => {
+    const bundle = await createConfigBundle(loadSiteConfig(), loadDictionaries(), { includeCredentials });
+    const date = bundle.exportedAt.slice(0, 10);
+    downloadTextFile(`dream-cloud-bundle-${date}.json`, JSON.stringify(bundle, null, 2));
+    setBundleMessage(t('admin.bundle.exported', { count: bundle.dictionaries.length }));
+  };
+
+  const handleImportBundle = async () => {
+    try {
+      const { config: imported, dictionaries } = await readConfigBundle(await pickTextFile('.json'));
+      if (!window.confirm(t('admin.bundle.importConfirm', { count: dictionaries.length }))) return;
+      saveSiteConfig(imported);
+      saveDictionaries(dictionaries);
+      setConfig(imported);
+      setSync(imported.sync ?? DEFAULT_SYNC);
+      setEmbedOriginsText(imported.embedOrigins.join('\n'));
+      setDictionaryVersion(v => v + 1);
+      setBundleMessage(t('admin.bundle.imported', { count: dictionaries.length }));
+    } catch (err) {
+      setBundleMessage(t('admin.bundle.importFailed', { message: errorText(t, err) }));
+    }
+  };
+
+  const handleSetPasscode = async () => {
+    if (newPasscode.length < 4) return setPasscodeMessage(t('admin.passcode.tooShort'));
+    if (newPasscode !== confirmPasscode) return setPasscodeMessage(t('admin.passcode.mismatch'));
+    await setPasscode(newPasscode);
+    setPasscodeSet(true);
+    setNewPasscode('');
+    setConfirmPasscode('');
+    setPasscodeMessage(t(passcodeSet ? 'admin.passcode.changed' : 'admin.passcode.created'));
+  };
+
+  const handleClearPasscode = () => {
+    if (!window.confirm(t('admin.passcode.removeConfirm'))) return;
+    clearPasscode();
+    setPasscodeSet(false);
+    setPasscodeMessage(t('admin.passcode.removed'));
+  };
+
+  const setTranslation = (target: Locale, field: keyof SiteText, value: string) => {
+    setConfig({
+      ...config,
+      translations: { ...config.translations, [target]: { ...config.translations[target], [field]: value } },
+    });
+  };
+
   const handleFileUpload = (type: 'icon' | 'sound', e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -61,20 +138,30 @@ const AdminApp: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen p-6 md:p-12 flex items-center justify-center">
+    <div className="min-h-screen p-6 md:p-12 flex flex-col items-center justify-center gap-10">
       <div className="max-w-2xl w-full bg-white shadow-2xl rounded-[2.5rem] p-10 border border-slate-100">
         <div className="flex justify-between items-center mb-10">
           <h1 className="text-3xl font-black text-slate-800 flex items-center gap-3">
             <span className="bg-indigo-600 p-2 rounded-xl text-white">⚙️</span>
-            後台管理平台
+            {t('admin.title')}
           </h1>
-          <a href="index.html" className="text-indigo-600 font-bold hover:underline">返回主網站 →</a>
+          <div className="flex items-center gap-4">
+            <select
+              value={locale}
+              onChange={e => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+              aria-label={t('locale.label')}
+              className="text-sm bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 outline-none"
+            >
+              {LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+            </select>
+            <a href="index.html" className="text-indigo-600 font-bold hover:underline">{t('admin.back')}</a>
+          </div>
         </div>
 
         <div className="space-y-8">
           <div className="grid md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <label className="text-sm font-bold text-slate-500 uppercase">網站名稱</label>
+              <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.siteName')}</label>
               <input 
                 type="text" value={config.siteName} 
                 onChange={e => setConfig({...config, siteName: e.target.value})}
@@ -82,7 +169,7 @@ const AdminApp: React.FC = () => {
               />
             </div>
             <div className="space-y-2">
-              <label className="text-sm font-bold text-slate-500 uppercase">網站副標題</label>
+              <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.subtitle')}</label>
               <input 
                 type="text" value={config.subtitle} 
                 onChange={e => setConfig({...config, subtitle: e.target.value})}
@@ -91,21 +178,93 @@ const AdminApp: React.FC = () => {
             </div>
           </div>
 
+          <details className="space-y-2">
+            <summary className="text-sm font-bold text-slate-500 uppercase cursor-pointer">{t('admin.translations')}</summary>
+            <p className="text-[10px] text-slate-400 px-2 italic">{t('admin.translationsHint')}</p>
+            {TRANSLATED_LOCALES.map(l => (
+              <div key={l.value} className="grid md:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={config.translations[l.value]?.siteName ?? ''}
+                  onChange={e => setTranslation(l.value, 'siteName', e.target.value)}
+                  placeholder={t('admin.translatedSiteName', { locale: l.label })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="text"
+                  value={config.translations[l.value]?.subtitle ?? ''}
+                  onChange={e => setTranslation(l.value, 'subtitle', e.target.value)}
+                  placeholder={t('admin.translatedSubtitle', { locale: l.label })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+            ))}
+          </details>
+
           <div className="space-y-2">
-            <label className="text-sm font-bold text-slate-500 uppercase">雲端補丁 GAS URL (固定讀取網址)</label>
-            <input 
-              type="text" 
-              value={config.gasUrl || ''} 
-              onChange={e => setConfig({...config, gasUrl: e.target.value})}
-              placeholder="https://script.google.com/macros/s/.../exec"
-              className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
-            />
-            <p className="text-[10px] text-slate-400 px-2 italic">設定後，主程式將固定從此網址自動下載並同步補丁。</p>
+            <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.syncBackend')}</label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {SYNC_BACKENDS.map(backend => (
+                <button
+                  key={backend}
+                  onClick={() => setSync({ ...sync, backend })}
+                  className={`px-3 py-2 rounded-2xl text-xs font-bold transition-all ${sync.backend === backend ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-50 text-slate-500 border border-slate-200 hover:bg-slate-100'}`}
+                >
+                  {t(`syncBackend.${backend}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {sync.backend !== 'file' && (
+              <>
+                <label className="text-sm font-bold text-slate-500 uppercase">{t(`admin.sync.${sync.backend}.label`)}</label>
+                <input 
+                  type="text" 
+                  value={sync.url} 
+                  onChange={e => setSync({...sync, url: e.target.value})}
+                  placeholder={SYNC_URL_PLACEHOLDERS[sync.backend]}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </>
+            )}
+            {sync.backend === 'rest' && (
+              <input 
+                type="password" 
+                value={sync.token || ''} 
+                onChange={e => setSync({...sync, token: e.target.value})}
+                placeholder={t('admin.sync.token')}
+                autoComplete="off"
+                className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            )}
+            {sync.backend === 'webdav' && (
+              <div className="grid md:grid-cols-2 gap-2">
+                <input 
+                  type="text" 
+                  value={sync.username || ''} 
+                  onChange={e => setSync({...sync, username: e.target.value})}
+                  placeholder={t('admin.sync.username')}
+                  autoComplete="off"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input 
+                  type="password" 
+                  value={sync.password || ''} 
+                  onChange={e => setSync({...sync, password: e.target.value})}
+                  placeholder={t('admin.sync.password')}
+                  autoComplete="off"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400 px-2 italic">{t(`admin.sync.${sync.backend}.hint`)}</p>
           </div>
 
           <div className="grid md:grid-cols-2 gap-6">
             <div className="space-y-4">
-              <label className="text-sm font-bold text-slate-500 uppercase">自訂品牌 ICON</label>
+              <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.icon')}</label>
               <div className="flex items-center gap-4 p-4 bg-slate-50 rounded-2xl border-2 border-dashed border-slate-200">
                 <div className="w-16 h-16 bg-white rounded-xl shadow-sm overflow-hidden flex items-center justify-center">
                   {config.customIcon ? <img src={config.customIcon} className="w-full h-full object-cover" alt="Custom Icon" /> : <span className="text-2xl">☁️</span>}
@@ -115,30 +274,111 @@ const AdminApp: React.FC = () => {
             </div>
 
             <div className="space-y-4">
-              <label className="text-sm font-bold text-slate-500 uppercase">按鈕點擊音效</label>
+              <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.sound')}</label>
               <div className="flex flex-col gap-2 p-4 bg-slate-50 rounded-2xl border-2 border-dashed border-slate-200">
                 <input type="file" accept="audio/*" onChange={e => handleFileUpload('sound', e)} className="text-xs" />
                 {config.clickSound && (
-                  <button onClick={() => new Audio(config.clickSound!).play()} className="text-xs text-indigo-600 font-bold self-start">▶ 測試音效</button>
+                  <button onClick={() => new Audio(config.clickSound!).play()} className="text-xs text-indigo-600 font-bold self-start">{t('admin.testSound')}</button>
                 )}
               </div>
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.embed.title')}</label>
+            <textarea
+              value={embedOriginsText}
+              onChange={e => setEmbedOriginsText(e.target.value)}
+              placeholder="https://cms.example.com"
+              rows={3}
+              className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <p className="text-[10px] text-slate-400 px-2 italic">{t('admin.embed.hint')}</p>
+            <p className="text-[10px] text-slate-400 px-2 font-mono break-all">
+              {t('admin.embed.url', { url: new URL('index.html?embed', window.location.href).href })}
+            </p>
+            {invalidEmbedOrigins.length > 0 && (
+              <p className="text-xs text-rose-500 px-2">{t('admin.embed.invalid', { origins: invalidEmbedOrigins.join(t('list.separator')) })}</p>
+            )}
+          </div>
+
           <button 
             onClick={handleSave}
             className={`w-full py-4 rounded-2xl font-bold text-white transition-all shadow-xl ${saveStatus ? 'bg-emerald-500' : 'bg-slate-900 hover:scale-[1.02]'}`}
           >
-            {saveStatus ? '✅ 已成功儲存全站設定！' : '儲存全站設定'}
+            {t(saveStatus ? 'admin.saved' : 'admin.save')}
           </button>
+
+          <div className="space-y-2 p-4 bg-slate-50 rounded-2xl border border-slate-200">
+            <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.bundle.title')}</label>
+            <p className="text-[10px] text-slate-400 italic">{t('admin.bundle.hint')}</p>
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={handleExportBundle} className="px-4 py-2 rounded-xl text-xs font-bold bg-indigo-600 text-white shadow-md">{t('admin.bundle.export')}</button>
+              <button onClick={handleImportBundle} className="px-4 py-2 rounded-xl text-xs font-bold bg-white text-indigo-600 border border-indigo-200">{t('admin.bundle.import')}</button>
+              <label className="flex items-center gap-1 text-xs text-slate-500">
+                <input type="checkbox" checked={includeCredentials} onChange={e => setIncludeCredentials(e.target.checked)} className="accent-indigo-600" />
+                {t('admin.bundle.includeCredentials')}
+              </label>
+            </div>
+            {bundleMessage && <p className="text-xs text-slate-500">{bundleMessage}</p>}
+          </div>
+
+          <div className="space-y-2 p-4 bg-slate-50 rounded-2xl border border-slate-200">
+            <label className="text-sm font-bold text-slate-500 uppercase">{t('admin.passcode.title')}{t(passcodeSet ? 'admin.passcode.enabled' : 'admin.passcode.disabled')}</label>
+            <p className="text-[10px] text-slate-400 italic">{t('admin.passcode.hint')}</p>
+            <div className="grid md:grid-cols-2 gap-2">
+              <input
+                type="password"
+                value={newPasscode}
+                onChange={e => { setNewPasscode(e.target.value); setPasscodeMessage(''); }}
+                placeholder={t(passcodeSet ? 'admin.passcode.new' : 'admin.passcode.password')}
+                autoComplete="new-password"
+                className="w-full bg-white border border-slate-200 rounded-2xl px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <input
+                type="password"
+                value={confirmPasscode}
+                onChange={e => { setConfirmPasscode(e.target.value); setPasscodeMessage(''); }}
+                placeholder={t('admin.passcode.confirm')}
+                autoComplete="new-password"
+                className="w-full bg-white border border-slate-200 rounded-2xl px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={handleSetPasscode} disabled={!newPasscode} className="px-4 py-2 rounded-xl text-xs font-bold bg-indigo-600 text-white shadow-md disabled:bg-slate-300">
+                {t(passcodeSet ? 'admin.passcode.change' : 'admin.passcode.set')}
+              </button>
+              {passcodeSet && (
+                <button onClick={handleClearPasscode} className="px-4 py-2 rounded-xl text-xs font-bold bg-white text-rose-500 border border-rose-200">{t('admin.passcode.remove')}</button>
+              )}
+              {passcodeMessage && <span className="text-xs text-slate-500">{passcodeMessage}</span>}
+            </div>
+          </div>
         </div>
       </div>
+
+      <div className="max-w-5xl w-full bg-white shadow-2xl rounded-[2.5rem] p-10 border border-slate-100">
+        <DictionaryConsole key={dictionaryVersion} t={t} />
+      </div>
     </div>
   );
 };
 
+// 密碼閘門在後台內容之外，以已儲存的補丁規則另外產生介面文字
+const LockedAdminApp: React.FC = () => {
+  const rules = useMemo(() => combineDictionaries(loadDictionaries()).rules, []);
+  const { t } = useI18n(rules);
+  return (
+    <PasscodeGate t={t}>
+      <AdminApp />
+    </PasscodeGate>
+  );
+};
+
 const rootElement = document.getElementById('admin-root');
 if (rootElement) {
   const root = ReactDOM.createRoot(rootElement);
-  root.render(<AdminApp />);
+  root.render(<LockedAdminApp />);
 }
+
+registerServiceWorker();
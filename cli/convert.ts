@@ -0,0 +1,226 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  CHINESE_VARIANTS,
+  ConversionOptions,
+  ConversionPair,
+  ConversionType,
+  convertWithPatches,
+  formatFromFileName,
+  isChineseVariant,
+  parsePatchText,
+  parseProtectedTerms,
+  TEXT_FILE_EXTENSIONS,
+  TEXT_FORMATS,
+  TextFormat,
+  toConversionPair,
+} from '../utils/core';
+import { decodeTextFile, encodeTextFile } from '../utils/encoding';
+
+/**
+ * 命令列轉換工具：轉換標準輸入、檔案或整個資料夾，可套用補丁檔。
+ * 結束碼：0 成功；1 有檔案轉換失敗；2 參數或補丁檔錯誤。
+ */
+
+const USAGE = `用法：dream-convert [選項] [檔案或資料夾…]
+
+未指定檔案（或指定 -）時從標準輸入讀取，結果寫到標準輸出。
+資料夾會遞迴轉換其中的 ${TEXT_FILE_EXTENSIONS.join('、')} 檔案。
+
+選項：
+  -d, --direction <方向>    s（轉簡體）、t（轉繁體）或「來源:目標」，例如 cn:twp（預設 t）
+  -p, --patches <檔案>      後置補丁檔（每行一條：舊字=新字）
+      --pre-patches <檔案>  前置規則檔（語法同補丁，於 OpenCC 之前套用）
+      --protected <檔案>    保護詞清單（每行一個）
+  -f, --format <格式>       auto、${TEXT_FORMATS.map(f => f.value).join('、')}（預設依副檔名，標準輸入為 auto）
+  -i, --in-place            直接覆寫原檔（沿用原本的編碼；Big5、GBK 檔案無法寫回，會略過並回報失敗）
+  -o, --out-dir <資料夾>    輸出到指定資料夾（保留資料夾內的相對路徑，一律存為 UTF-8）
+  -h, --help                顯示此說明
+
+可用的變體：${CHINESE_VARIANTS.map(v => `${v.value}（${v.label}）`).join('、')}`;
+
+class UsageError extends Error {}
+
+interface InputFile {
+  /** 實際路徑 */
+  file: string;
+  /** 輸出到 --out-dir 時使用的相對路徑 */
+  relative: string;
+}
+
+const parseDirection = (value: string): ConversionPair => {
+  if (value === 's') return toConversionPair(ConversionType.TO_SIMPLIFIED);
+  if (value === 't') return toConversionPair(ConversionType.TO_TRADITIONAL);
+  const [from, to] = value.split(':');
+  if (!isChineseVariant(from) || !isChineseVariant(to)) {
+    throw new UsageError(`無法辨識的轉換方向「${value}」，請使用 s、t 或「來源:目標」`);
+  }
+  return { from, to };
+};
+
+const parseFormat = (value: string): TextFormat | 'auto' => {
+  if (value === 'auto' || TEXT_FORMATS.some(f => f.value === value)) return value as TextFormat | 'auto';
+  throw new UsageError(`無法辨識的格式「${value}」`);
+};
+
+const readDecoded = async (file: string) => decodeTextFile(new Uint8Array(await readFile(file)).buffer);
+
+const readText = async (file: string) => (await readDecoded(file)).text;
+
+/**
+ * 讀取補丁檔；有語法錯誤時列出每一行並視為參數錯誤
+ */
+const readRules = async (file: string) => {
+  const { rules, errors } = parsePatchText(await readText(file));
+  if (errors.length) {
+    throw new UsageError(errors.map(e => `${file}:${e.line}：${e.message}`).join('\n'));
+  }
+  return rules;
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return decodeTextFile(new Uint8Array(Buffer.concat(chunks)).buffer).text;
+};
+
+const walk = async (dir: string, root: string): Promise<InputFile[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: InputFile[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(file, root)));
+    else if (entry.isFile() && TEXT_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push({ file, relative: path.relative(root, file) });
+    }
+  }
+  return files;
+};
+
+const collectInputs = async (paths: string[]): Promise<{ files: InputFile[]; hasDirectory: boolean }> => {
+  const files: InputFile[] = [];
+  let hasDirectory = false;
+  for (const p of paths) {
+    const info = await stat(p).catch(() => {
+      throw new UsageError(`找不到「${p}」`);
+    });
+    if (info.isDirectory()) {
+      hasDirectory = true;
+      files.push(...(await walk(p, p)));
+    } else {
+      files.push({ file: p, relative: path.basename(p) });
+    }
+  }
+  return { files, hasDirectory };
+};
+
+/**
+ * 找出 --out-dir 下會寫到同一個路徑的輸入（例如不同資料夾中的同名檔案）；
+ * 同一個檔案重複指定時只保留一次
+ */
+const findCollisions = (files: InputFile[]): { files: InputFile[]; collisions: string[] } => {
+  const byTarget = new Map<string, InputFile[]>();
+  const seen = new Set<string>();
+  for (const input of files) {
+    const resolved = path.resolve(input.file);
+    if (seen.has(resolved)) continue;
+    seen.add(resolved);
+    // 不分大小寫的檔案系統上，只差在大小寫的路徑也會互相覆蓋
+    const key = path.normalize(input.relative).toLowerCase();
+    byTarget.set(key, [...(byTarget.get(key) ?? []), input]);
+  }
+  const collisions = [...byTarget.values()]
+    .filter(group => group.length > 1)
+    .map(group => `${group[0].relative}：${group.map(f => f.file).join('、')}`);
+  return { files: [...byTarget.values()].flat(), collisions };
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      direction: { type: 'string', short: 'd', default: 't' },
+      patches: { type: 'string', short: 'p' },
+      'pre-patches': { type: 'string' },
+      protected: { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      'in-place': { type: 'boolean', short: 'i', default: false },
+      'out-dir': { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const pair = parseDirection(values.direction);
+  const format = values.format ? parseFormat(values.format) : undefined;
+  const inPlace = values['in-place'];
+  const outDir = values['out-dir'];
+  if (inPlace && outDir) throw new UsageError('--in-place 與 --out-dir 只能擇一');
+
+  const options: ConversionOptions = {
+    rules: values.patches ? await readRules(values.patches) : [],
+    preRules: values['pre-patches'] ? await readRules(values['pre-patches']) : [],
+    protectedTerms: values.protected ? parseProtectedTerms(await readText(values.protected)) : [],
+  };
+
+  if (positionals.length === 0 || (positionals.length === 1 && positionals[0] === '-')) {
+    if (inPlace || outDir) throw new UsageError('從標準輸入讀取時不能使用 --in-place 或 --out-dir');
+    const result = await convertWithPatches(await readStdin(), pair, { ...options, format: format ?? 'auto' });
+    process.stdout.write(result);
+    return 0;
+  }
+
+  const collected = await collectInputs(positionals);
+  if ((collected.hasDirectory || collected.files.length > 1) && !inPlace && !outDir) {
+    throw new UsageError('轉換多個檔案或資料夾時，請指定 --in-place 或 --out-dir');
+  }
+  const { files, collisions } = findCollisions(collected.files);
+  if (outDir && collisions.length) {
+    throw new UsageError(`以下檔案會輸出到 --out-dir 中的同一個路徑，請分開轉換：\n${collisions.join('\n')}`);
+  }
+
+  let failed = 0;
+  for (const { file, relative } of files) {
+    try {
+      const { text, encoding, bom } = await readDecoded(file);
+      if (inPlace && (encoding === 'big5' || encoding === 'gbk')) {
+        throw new Error(`${encoding.toUpperCase()} 編碼的檔案無法直接覆寫，請改用 --out-dir 輸出為 UTF-8`);
+      }
+      const result = await convertWithPatches(text, pair, { ...options, format: format ?? formatFromFileName(file) });
+      if (inPlace) {
+        await writeFile(file, encodeTextFile(result, encoding, bom)!);
+      } else if (outDir) {
+        const target = path.join(outDir, relative);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, result);
+        if (encoding !== 'utf-8') process.stderr.write(`${file}：原檔為 ${encoding.toUpperCase()}，已存為 UTF-8\n`);
+      } else {
+        process.stdout.write(result);
+      }
+    } catch (err) {
+      failed++;
+      process.stderr.write(`${file}：${err instanceof Error ? err.message : err}\n`);
+    }
+  }
+  if (inPlace || outDir) {
+    process.stderr.write(`已轉換 ${files.length - failed} 個檔案${failed ? `，${failed} 個失敗` : ''}\n`);
+  }
+  return failed ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  err => {
+    // parseArgs 的未知選項等錯誤也屬於參數錯誤
+    const usage = err instanceof UsageError || (err as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+    if (usage) process.stderr.write('使用 --help 查看用法\n');
+    process.exitCode = usage ? 2 : 1;
+  }
+);
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityEntry } from '../types';
+import { Translate } from '../utils/useI18n';
+
+interface ActivityLogPanelProps {
+  open: boolean;
+  entries: ActivityEntry[];
+  onClose: () => void;
+  onClear: () => void;
+  t: Translate;
+  locale: string;
+}
+
+const LEVEL_STYLES: Record<ActivityEntry['level'], string> = {
+  success: 'bg-emerald-400',
+  error: 'bg-rose-500',
+  info: 'bg-sky-400',
+};
+
+/**
+ * 活動紀錄抽屜：依時間列出同步、上傳、儲存與轉換失敗等事件，可只看錯誤
+ */
+const ActivityLogPanel: React.FC<ActivityLogPanelProps> = ({ open, entries, onClose, onClear, t, locale }) => {
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const visible = useMemo(
+    () => (errorsOnly ? entries.filter(e => e.level === 'error') : entries),
+    [entries, errorsOnly]
+  );
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-slate-900/20" />
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="relative w-full max-w-md h-full glass-panel shadow-2xl flex flex-col"
+        aria-label={t('activity.title')}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/40">
+          <h2 className="font-bold text-slate-600">{t('activity.title')}</h2>
+          <div className="flex items-center gap-3">
+            {entries.length > 0 && (
+              <button
+                onClick={() => { if (window.confirm(t('activity.clearConfirm'))) onClear(); }}
+                className="text-[11px] font-bold text-slate-400 hover:text-rose-500"
+              >
+                {t('activity.clear')}
+              </button>
+            )}
+            <button onClick={onClose} aria-label={t('toast.close')} className="text-slate-400 hover:text-slate-600 font-bold">✕</button>
+          </div>
+        </div>
+        <div className="flex gap-2 p-4">
+          {[false, true].map(value => (
+            <button
+              key={String(value)}
+              onClick={() => setErrorsOnly(value)}
+              className={`px-3 py-1 rounded-full text-xs font-bold ${errorsOnly === value ? 'bg-rose-500 text-white' : 'bg-white/60 text-slate-500'}`}
+            >
+              {t(value ? 'activity.filter.errors' : 'activity.filter.all')}
+            </button>
+          ))}
+        </div>
+        <ul className="flex-1 overflow-y-auto no-scrollbar px-4 pb-4 space-y-2">
+          {visible.map(entry => (
+            <li key={entry.id} className="bg-white/60 rounded-2xl p-3 text-xs space-y-1">
+              <div className="flex items-center gap-2 text-slate-400">
+                <span className={`w-2 h-2 rounded-full ${LEVEL_STYLES[entry.level]}`} />
+                <span className="font-bold text-slate-500">{t(`activity.kind.${entry.kind}`)}</span>
+                <time className="ml-auto" dateTime={new Date(entry.at).toISOString()}>{new Date(entry.at).toLocaleString(locale)}</time>
+              </div>
+              <p className={`break-all ${entry.level === 'error' ? 'text-rose-600' : 'text-slate-700'}`}>{entry.message}</p>
+              {entry.details && (
+                <details className="text-slate-400">
+                  <summary className="cursor-pointer">{t('toast.details')}</summary>
+                  <pre className="mt-1 whitespace-pre-wrap break-all font-mono">{entry.details}</pre>
+                </details>
+              )}
+            </li>
+          ))}
+          {visible.length === 0 && (
+            <li className="text-center text-sm text-slate-400 py-10">{t('activity.empty')}</li>
+          )}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default ActivityLogPanel;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Ambiguity } from '../types';
+import { Translate } from '../utils/useI18n';
+
+interface AmbiguityPickerProps {
+  text: string;
+  ambiguities: Ambiguity[];
+  onResolve: (ambiguity: Ambiguity, choice: string, remember: boolean) => void;
+  t: Translate;
+}
+
+// 每個待確認位置前後顯示的字數
+const CONTEXT = 6;
+
+const AmbiguityPicker: React.FC<AmbiguityPickerProps> = ({ text, ambiguities, onResolve, t }) => {
+  const [remember, setRemember] = useState(false);
+
+  if (ambiguities.length === 0) return null;
+
+  return (
+    <details className="mt-4 bg-amber-50/60 rounded-xl group">
+      <summary className="flex items-center justify-between px-4 py-2 cursor-pointer list-none text-xs font-bold text-amber-600">
+        <span>{t('ambiguity.title', { count: ambiguities.length })}</span>
+        <label className="flex items-center gap-1 font-medium text-slate-500" onClick={e => e.stopPropagation()}>
+          <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+          {t('ambiguity.remember')}
+        </label>
+      </summary>
+      <ul className="max-h-56 overflow-y-auto no-scrollbar px-4 pb-3 space-y-1.5">
+        {ambiguities.map(amb => (
+          <li key={amb.start} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-500 min-w-0 truncate">
+              …{text.slice(Math.max(0, amb.start - CONTEXT), amb.start)}
+              <mark className="bg-amber-200 text-amber-800 rounded px-0.5">{amb.current}</mark>
+              {text.slice(amb.end, amb.end + CONTEXT)}…
+            </span>
+            <span className="text-[10px] text-slate-400">{t('ambiguity.source', { source: amb.source })}</span>
+            <div className="flex gap-1">
+              {amb.options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => onResolve(amb, option, remember)}
+                  className={`w-8 h-8 rounded-lg text-sm font-bold transition-all active:scale-95 ${option === amb.current ? 'bg-amber-400 text-white' : 'bg-white/70 text-slate-600 hover:bg-white'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default AmbiguityPicker;
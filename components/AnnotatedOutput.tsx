@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ChangeSpan, ConversionResult, ConversionType } from '../types';
+import { Translate } from '../utils/useI18n';
+
+interface AnnotatedOutputProps {
+  result: ConversionResult;
+  onSaveRule: (span: ChangeSpan, old: string, newVal: string) => void;
+  t: Translate;
+}
+
+// 補丁規則的配色，依行號輪替，讓同一條規則的命中顏色一致
+const RULE_COLORS = [
+  'bg-rose-100 text-rose-700',
+  'bg-amber-100 text-amber-700',
+  'bg-emerald-100 text-emerald-700',
+  'bg-violet-100 text-violet-700',
+  'bg-lime-100 text-lime-700',
+  'bg-orange-100 text-orange-700',
+];
+
+const OPENCC_COLOR = 'bg-sky-100 text-sky-700';
+
+const spanColor = (span: ChangeSpan): string =>
+  span.source.kind === 'opencc' ? OPENCC_COLOR : RULE_COLORS[(span.source.rule.line ?? 0) % RULE_COLORS.length];
+
+/**
+ * 變更來源的說明文字（滑鼠懸停與編輯面板共用）
+ */
+const describeSource = (span: ChangeSpan, text: string, t: Translate): string => {
+  if (span.source.kind === 'opencc') return t('annotated.openccSource', { from: span.from, to: text.slice(span.start, span.end) });
+  const { rule, stage } = span.source;
+  const flags = [
+    rule.direction ? t(rule.direction === ConversionType.TO_SIMPLIFIED ? 'annotated.flag.toSimplified' : 'annotated.flag.toTraditional') : '',
+    rule.isRegex ? t('annotated.flag.regex') : '',
+    rule.wholeWord ? t('annotated.flag.wholeWord') : '',
+  ].filter(Boolean).join(t('list.separator'));
+  return t('annotated.ruleSource', {
+    origin: rule.dictionary ? t('annotated.origin', { name: rule.dictionary.name }) : '',
+    stage: t(stage === 'pre' ? 'patches.tab.pre' : 'patches.tab.post'),
+    line: rule.line ? t('annotated.line', { line: rule.line }) : '',
+    rule: `${rule.old}=${rule.newVal}`,
+    flags: flags ? t('annotated.flags', { flags }) : '',
+  });
+};
+
+const AnnotatedOutput: React.FC<AnnotatedOutputProps> = ({ result, onSaveRule, t }) => {
+  const [selected, setSelected] = useState<ChangeSpan | null>(null);
+  const [editOld, setEditOld] = useState('');
+  const [editNew, setEditNew] = useState('');
+
+  // 新的轉換結果出現時關閉編輯面板
+  useEffect(() => setSelected(null), [result]);
+
+  const selectSpan = (span: ChangeSpan) => {
+    const current = result.text.slice(span.start, span.end);
+    setSelected(span);
+    if (span.source.kind === 'rule') {
+      setEditOld(span.source.rule.old);
+      setEditNew(span.source.rule.newVal);
+    } else {
+      setEditOld(current);
+      setEditNew(current);
+    }
+  };
+
+  // 依序輸出未變動文字與變更片段
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  result.spans.forEach((span, i) => {
+    if (span.start > cursor) pieces.push(result.text.slice(cursor, span.start));
+    const content = result.text.slice(span.start, span.end);
+    pieces.push(
+      <mark
+        key={i}
+        title={describeSource(span, result.text, t)}
+        onClick={() => selectSpan(span)}
+        className={`${spanColor(span)} rounded px-0.5 cursor-pointer hover:ring-2 hover:ring-rose-200 ${selected === span ? 'ring-2 ring-rose-300' : ''}`}
+      >
+        {content || '⌫'}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  if (cursor < result.text.length) pieces.push(result.text.slice(cursor));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-[10px] font-bold">
+        <span className={`${OPENCC_COLOR} rounded px-2 py-0.5`}>{t('annotated.opencc')}</span>
+        <span className={`${RULE_COLORS[0]} rounded px-2 py-0.5`}>{t('annotated.legendRules')}</span>
+        <span className="text-slate-400">{t('annotated.legendHint')}</span>
+      </div>
+      <div className="w-full h-44 overflow-y-auto text-lg leading-relaxed whitespace-pre-wrap break-words no-scrollbar">
+        {pieces}
+      </div>
+      {selected && (
+        <div className="bg-white/50 rounded-xl p-3 space-y-2">
+          <p className="text-[11px] text-slate-500">
+            {describeSource(selected, result.text, t)}
+            {selected.source.kind === 'opencc' && t('annotated.addAsPatch')}
+          </p>
+          <div className="flex items-center gap-2">
+            <input value={editOld} onChange={e => setEditOld(e.target.value)} className="flex-1 min-w-0 bg-white/70 border-none rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
+            <span className="text-rose-300 font-bold shrink-0">➔</span>
+            <input value={editNew} onChange={e => setEditNew(e.target.value)} className="flex-1 min-w-0 bg-white/70 border-none rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none" />
+            <button
+              onClick={() => {
+                if (!editOld.trim()) return;
+                onSaveRule(selected, editOld.trim(), editNew.trim());
+                setSelected(null);
+              }}
+              className="bg-rose-400 text-white px-4 py-2 rounded-xl text-xs font-bold shadow-md shrink-0 active:scale-95 transition-transform"
+            >
+              {t(selected.source.kind === 'rule' ? 'annotated.updateRule' : 'annotated.addRule')}
+            </button>
+            <button onClick={() => setSelected(null)} className="text-xs text-slate-400 hover:text-slate-600 shrink-0">{t('common.cancel')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotatedOutput;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { TextFormat, ToastMessage } from '../types';
+import { decodeTextFile, TextEncodingName } from '../utils/encoding';
+import { createZip } from '../utils/zip';
+import { formatFromFileName, TEXT_FILE_EXTENSIONS } from '../utils/formats';
+import { errorText } from '../utils/messages';
+import { Translate } from '../utils/useI18n';
+
+interface BatchConverterProps {
+  convert: (text: string, format: TextFormat) => Promise<string>;
+  onNotify: (message: string, type?: ToastMessage['type']) => void;
+  t: Translate;
+}
+
+interface BatchFile {
+  id: number;
+  file: File;
+  status: 'pending' | 'converting' | 'done' | 'error';
+  encoding?: TextEncodingName;
+  outputName?: string;
+  result?: string;
+  error?: string;
+}
+
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+};
+
+const isAccepted = (file: File) => TEXT_FILE_EXTENSIONS.includes(splitExtension(file.name)[1].toLowerCase());
+
+/**
+ * ZIP 內的檔名不可重複，重名時加上流水號
+ */
+const uniqueName = (name: string, used: Set<string>): string => {
+  const [base, ext] = splitExtension(name);
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) candidate = `${base} (${n})${ext}`;
+  used.add(candidate);
+  return candidate;
+};
+
+const BatchConverter: React.FC<BatchConverterProps> = ({ convert, onNotify, t }) => {
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [renameFiles, setRenameFiles] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateFile = (id: number, patch: Partial<BatchFile>) =>
+    setFiles(list => list.map(f => (f.id === id ? { ...f, ...patch } : f)));
+
+  const addFiles = (incoming: FileList | File[]) => {
+    const all = Array.from(incoming);
+    const accepted = all.filter(isAccepted);
+    if (accepted.length < all.length) {
+      onNotify(t('batch.skipped', { count: all.length - accepted.length, extensions: TEXT_FILE_EXTENSIONS.join('/') }), 'info');
+    }
+    setFiles(list => [
+      ...list,
+      ...accepted.map(file => ({ id: Date.now() + Math.random(), file, status: 'pending' as const })),
+    ]);
+  };
+
+  const runBatch = async () => {
+    if (files.length === 0) return onNotify(t('batch.noFiles'), 'info');
+    setIsRunning(true);
+    let failed = 0;
+    for (const entry of files) {
+      updateFile(entry.id, { status: 'converting', error: undefined });
+      try {
+        const { text, encoding } = decodeTextFile(await entry.file.arrayBuffer());
+        const result = await convert(text, formatFromFileName(entry.file.name));
+        const [base, ext] = splitExtension(entry.file.name);
+        const outputName = renameFiles ? `${await convert(base, 'plain')}${ext}` : entry.file.name;
+        updateFile(entry.id, { status: 'done', encoding, result, outputName });
+      } catch (e) {
+        failed++;
+        updateFile(entry.id, { status: 'error', error: errorText(t, e) || t('toast.conversionFailed') });
+      }
+    }
+    setIsRunning(false);
+    onNotify(failed ? t('batch.finishedWithFailures', { count: failed }) : t('batch.finished'), failed ? 'error' : 'success');
+  };
+
+  const downloadZip = () => {
+    const done = files.filter(f => f.status === 'done' && f.result !== undefined);
+    if (done.length === 0) return onNotify(t('batch.nothingDone'), 'info');
+    const encoder = new TextEncoder();
+    const used = new Set<string>();
+    const zip = createZip(done.map(f => ({
+      name: uniqueName(f.outputName || f.file.name, used),
+      data: encoder.encode(f.result),
+    })));
+    const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `converted-${new Date().toISOString().slice(0, 10)}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+        className={`flex flex-col items-center justify-center gap-1 h-28 rounded-2xl border-2 border-dashed cursor-pointer transition-colors ${isDragging ? 'border-rose-300 bg-rose-50/60' : 'border-white/60 bg-white/30 hover:bg-white/50'}`}
+      >
+        <span className="text-sm font-bold text-slate-500">{t('batch.drop')}</span>
+        <span className="text-[10px] text-slate-400">{t('batch.dropHint', { extensions: TEXT_FILE_EXTENSIONS.join(' / ') })}</span>
+        <input type="file" multiple accept={TEXT_FILE_EXTENSIONS.join(',')} className="hidden" onChange={e => { if (e.target.files) addFiles(e.target.files); e.target.value = ''; }} />
+      </label>
+
+      {files.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto no-scrollbar space-y-1 text-sm">
+          {files.map(f => (
+            <li key={f.id} className="flex items-center justify-between gap-3 bg-white/40 rounded-xl px-3 py-2">
+              <span className="min-w-0 truncate text-slate-600">
+                {f.file.name}
+                {f.outputName && f.outputName !== f.file.name && <span className="text-slate-400"> → {f.outputName}</span>}
+              </span>
+              <span className="flex items-center gap-2 shrink-0 text-[11px]">
+                {f.encoding && <span className="text-slate-400 uppercase">{f.encoding}</span>}
+                <span
+                  title={f.error}
+                  className={`font-bold ${f.status === 'done' ? 'text-emerald-500' : f.status === 'error' ? 'text-rose-500' : 'text-slate-400'}`}
+                >
+                  {t(`batch.status.${f.status}`)}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          <input type="checkbox" checked={renameFiles} onChange={e => setRenameFiles(e.target.checked)} />
+          {t('batch.renameFiles')}
+        </label>
+        <div className="flex gap-2">
+          <button onClick={() => setFiles([])} disabled={isRunning} className="text-xs text-slate-400 hover:text-rose-500 transition-colors font-medium disabled:opacity-40">{t('batch.clear')}</button>
+          <button onClick={runBatch} disabled={isRunning} className="px-4 py-2 bg-rose-400 text-white text-xs font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all disabled:opacity-50">
+            {t(isRunning ? 'batch.status.converting' : 'batch.convertAll')}
+          </button>
+          <button onClick={downloadZip} disabled={isRunning} className="px-4 py-2 bg-purple-400 text-white text-xs font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all disabled:opacity-50">
+            {t('batch.downloadZip')}
+          </button>
+        </div>
+      </div>
+      <p className="text-[9px] text-slate-400 text-center italic">{t('batch.note')}</p>
+    </div>
+  );
+};
+
+export default BatchConverter;
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Translate } from '../utils/useI18n';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** 分類，顯示於指令右側並可用於搜尋 */
+  group: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  commands: PaletteCommand[];
+  onClose: () => void;
+  t: Translate;
+}
+
+/**
+ * 指令面板：輸入關鍵字篩選，方向鍵選擇、Enter 執行、Esc 關閉
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, commands, onClose, t }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setActive(0);
+    }
+  }, [open]);
+
+  const visible = useMemo(() => {
+    const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter(c => !c.disabled && words.every(w => `${c.label} ${c.group}`.toLowerCase().includes(w)));
+  }, [commands, query]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  if (!open) return null;
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(i => Math.min(i + 1, visible.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(visible[active]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-start justify-center pt-[15vh] px-4" onClick={onClose}>
+      <div className="absolute inset-0 bg-slate-900/20" />
+      <div
+        role="dialog"
+        aria-label={t('palette.title')}
+        onClick={e => e.stopPropagation()}
+        className="relative w-full max-w-lg glass-panel rounded-2xl shadow-2xl overflow-hidden"
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActive(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder={t('palette.placeholder')}
+          className="w-full bg-white/70 border-none px-5 py-4 text-sm focus:ring-0 outline-none"
+        />
+        <ul ref={listRef} className="max-h-80 overflow-y-auto no-scrollbar py-2">
+          {visible.map((command, i) => (
+            <li key={command.id}>
+              <button
+                onMouseEnter={() => setActive(i)}
+                onClick={() => run(command)}
+                className={`w-full flex items-center justify-between gap-3 px-5 py-2 text-left text-sm ${i === active ? 'bg-rose-100/70 text-rose-600' : 'text-slate-600'}`}
+              >
+                <span>{command.label}</span>
+                <span className="flex items-center gap-2 text-[10px] text-slate-400 shrink-0">
+                  {command.group}
+                  {command.shortcut && <kbd className="bg-white/80 rounded px-1.5 py-0.5 font-mono">{command.shortcut}</kbd>}
+                </span>
+              </button>
+            </li>
+          ))}
+          {visible.length === 0 && <li className="px-5 py-6 text-center text-sm text-slate-400">{t('palette.empty')}</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
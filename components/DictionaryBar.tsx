@@ -0,0 +1,67 @@
+import React from 'react';
+import { PatchDictionary } from '../types';
+import { Translate } from '../utils/useI18n';
+
+interface DictionaryBarProps {
+  dictionaries: PatchDictionary[];
+  selectedId: string;
+  /** 有待合併雲端版本的字典 */
+  pendingIds: string[];
+  onSelect: (id: string) => void;
+  onToggle: (id: string) => void;
+  onMove: (id: string, delta: number) => void;
+  onRename: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+  t: Translate;
+}
+
+/**
+ * 字典清單：勾選決定是否參與轉換，排在越前面的字典優先度越高
+ */
+const DictionaryBar: React.FC<DictionaryBarProps> = ({
+  dictionaries, selectedId, pendingIds, onSelect, onToggle, onMove, onRename, onRemove, onAdd, t,
+}) => {
+  const selectedIndex = dictionaries.findIndex(d => d.id === selectedId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {dictionaries.map((dict, i) => (
+          <div
+            key={dict.id}
+            className={`flex items-center gap-1.5 pl-2 pr-3 py-1 rounded-xl text-xs transition-all ${dict.id === selectedId ? 'bg-white shadow-sm ring-2 ring-rose-200' : 'bg-white/40 hover:bg-white/70'}`}
+          >
+            <input
+              type="checkbox"
+              checked={dict.enabled}
+              onChange={() => onToggle(dict.id)}
+              title={t(dict.enabled ? 'dictionary.enabledTitle' : 'dictionary.disabledTitle')}
+              className="accent-rose-400"
+            />
+            <button onClick={() => onSelect(dict.id)} className={`font-bold ${dict.enabled ? 'text-slate-600' : 'text-slate-300 line-through'}`}>
+              <span className="text-[10px] text-slate-400 font-mono mr-1">{i + 1}</span>
+              {dict.name}
+              {pendingIds.includes(dict.id) && <span className="ml-1 text-amber-500" title={t('dictionary.pendingMerge')}>⚠️</span>}
+            </button>
+          </div>
+        ))}
+        <button onClick={onAdd} className="px-3 py-1 rounded-xl text-xs font-bold text-rose-400 bg-white/30 hover:bg-white/60">{t('dictionary.add')}</button>
+      </div>
+
+      {selectedIndex >= 0 && (
+        <div className="flex items-center gap-3 text-[10px] text-slate-400">
+          <span>{t('dictionary.priority')}</span>
+          <button onClick={() => onMove(selectedId, -1)} disabled={selectedIndex === 0} className="font-bold hover:text-slate-600 disabled:opacity-30">{t('dictionary.raise')}</button>
+          <button onClick={() => onMove(selectedId, 1)} disabled={selectedIndex === dictionaries.length - 1} className="font-bold hover:text-slate-600 disabled:opacity-30">{t('dictionary.lower')}</button>
+          <button onClick={() => onRename(selectedId)} className="font-bold hover:text-slate-600">{t('dictionary.rename')}</button>
+          {dictionaries.length > 1 && (
+            <button onClick={() => onRemove(selectedId)} className="font-bold text-rose-300 hover:text-rose-500">{t('dictionary.remove')}</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DictionaryBar;
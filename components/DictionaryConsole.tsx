@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ConversionType, PatchDictionary, PatchRule } from '../types';
+import { convertText } from '../utils/converter';
+import { loadDictionaries, saveDictionaries } from '../utils/dictionaries';
+import { DICTIONARY_FILE_FORMATS, DictionaryFileFormat, detectDictionaryFormat, exportDictionary, importDictionary } from '../utils/dictionaryIO';
+import { MessageKey } from '../utils/i18n';
+import { errorText } from '../utils/messages';
+import { findUnmatchableRules, lintPatchRules, LINT_KINDS, PatchLintIssue, PatchLintKind } from '../utils/patchLint';
+import { formatPatchRule, parsePatchText } from '../utils/patchParser';
+import { Translate } from '../utils/useI18n';
+
+type RuleField = 'patches' | 'prePatches';
+type SortKey = 'line' | 'old' | 'newVal' | 'direction';
+
+interface RuleDraft {
+  /** 編輯中的規則行號；null 表示新增 */
+  line: number | null;
+  old: string;
+  newVal: string;
+  direction: '' | ConversionType;
+  wholeWord: boolean;
+  isRegex: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = { line: null, old: '', newVal: '', direction: '', wholeWord: false, isRegex: false };
+
+interface DictionaryConsoleProps {
+  t: Translate;
+}
+
+// 欄位名稱與主程式補丁面板的分頁相同
+const FIELD_LABELS: Record<RuleField, MessageKey> = { patches: 'patches.tab.post', prePatches: 'patches.tab.pre' };
+
+const DIRECTION_LABELS: Record<string, MessageKey> = {
+  '': 'console.direction.both',
+  [ConversionType.TO_SIMPLIFIED]: 'console.direction.toSimplified',
+  [ConversionType.TO_TRADITIONAL]: 'console.direction.toTraditional',
+};
+
+const LINT_COLORS: Record<PatchLintKind, string> = {
+  duplicate: 'bg-slate-100 text-slate-500',
+  conflict: 'bg-rose-100 text-rose-600',
+  shadowed: 'bg-amber-100 text-amber-700',
+  cycle: 'bg-purple-100 text-purple-600',
+  identity: 'bg-slate-100 text-slate-500',
+  unmatchable: 'bg-sky-100 text-sky-700',
+};
+
+// 停止編輯後多久才以轉換引擎檢查「不會命中」的規則
+const LINT_DELAY = 500;
+
+const inputClass = 'bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/**
+ * 後台的字典編輯器：以表格檢視規則、排序搜尋、匯入匯出與規則檢查。
+ * 規則仍以補丁文字儲存，表格的編輯會改寫對應的行，註解與空行維持不變。
+ */
+const DictionaryConsole: React.FC<DictionaryConsoleProps> = ({ t }) => {
+  const [dictionaries, setDictionaries] = useState<PatchDictionary[]>(() => loadDictionaries());
+  const [selectedId, setSelectedId] = useState(() => dictionaries[0].id);
+  const [field, setField] = useState<RuleField>('patches');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; asc: boolean }>({ key: 'line', asc: true });
+  const [lintFilter, setLintFilter] = useState<PatchLintKind | 'all' | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [importFormat, setImportFormat] = useState<DictionaryFileFormat | 'auto'>('auto');
+  const [importMode, setImportMode] = useState<'append' | 'replace'>('append');
+  const [exportFormat, setExportFormat] = useState<DictionaryFileFormat>('csv');
+  const [unmatchable, setUnmatchable] = useState<PatchLintIssue[]>([]);
+  // 轉換引擎載入失敗時無法檢查「不會命中」，需明確告知而非當作沒有問題
+  const [engineError, setEngineError] = useState<unknown>(null);
+  // 在此編輯過的字典欄位（「字典 id|欄位」）；儲存時只寫回這些欄位
+  const [edited, setEdited] = useState<Set<string>>(() => new Set());
+  const dirty = edited.size > 0;
+  const [message, setMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const dict = dictionaries.find(d => d.id === selectedId) ?? dictionaries[0];
+  const text = dict[field];
+  const parsed = useMemo(() => parsePatchText(text), [text]);
+
+  // 只有後置補丁會比對 OpenCC 的輸出；前置規則比對的是原文
+  useEffect(() => {
+    if (field !== 'patches') {
+      setUnmatchable([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findUnmatchableRules(parsed.rules, convertText)
+        .then(issues => {
+          if (cancelled) return;
+          setUnmatchable(issues);
+          setEngineError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setUnmatchable([]);
+          setEngineError(err);
+        });
+    }, LINT_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsed, field]);
+
+  const issues = useMemo(() => [...lintPatchRules(parsed.rules), ...unmatchable], [parsed, unmatchable]);
+  const issuesByLine = useMemo(() => {
+    const map = new Map<number, PatchLintIssue[]>();
+    issues.forEach(issue => map.set(issue.line, [...(map.get(issue.line) ?? []), issue]));
+    return map;
+  }, [issues]);
+  const countByKind = useMemo(() => {
+    const counts = {} as Record<PatchLintKind, number>;
+    issues.forEach(issue => { counts[issue.kind] = (counts[issue.kind] ?? 0) + 1; });
+    return counts;
+  }, [issues]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = parsed.rules.filter(rule => {
+      if (query && !rule.old.toLowerCase().includes(query) && !rule.newVal.toLowerCase().includes(query)) return false;
+      if (lintFilter === 'all') return issuesByLine.has(rule.line!);
+      if (lintFilter) return issuesByLine.get(rule.line!)?.some(i => i.kind === lintFilter) ?? false;
+      return true;
+    });
+    const value = (rule: PatchRule): string | number =>
+      sort.key === 'line' ? rule.line! : sort.key === 'direction' ? rule.direction ?? '' : rule[sort.key];
+    return [...filtered].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb), 'zh-Hant');
+      return sort.asc ? order : -order;
+    });
+  }, [parsed, search, sort, lintFilter, issuesByLine]);
+
+  const flash = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const setText = (update: (text: string) => string) => {
+    setDictionaries(list => list.map(d => d.id === dict.id ? { ...d, [field]: update(d[field]) } : d));
+    setEdited(keys => new Set(keys).add(`${dict.id}|${field}`));
+  };
+
+  const replaceLine = (line: number, content: string | null) => {
+    // 刪除會改變後續行號，編輯中的規則需重新選取
+    if (content === null) setDraft(EMPTY_DRAFT);
+    setText(current => {
+      const lines = current.split('\n');
+      if (content === null) lines.splice(line - 1, 1);
+      else lines[line - 1] = content;
+      return lines.join('\n');
+    });
+  };
+
+  const commitDraft = () => {
+    if (!draft.old) return flash(t('console.needOld'));
+    const line = formatPatchRule(draft.old, draft.newVal, {
+      direction: draft.direction || undefined,
+      isRegex: draft.isRegex,
+      wholeWord: draft.wholeWord,
+    });
+    const error = parsePatchText(line).errors[0];
+    if (error) return flash(t(error.key, error.params));
+    if (draft.line) replaceLine(draft.line, line);
+    else setText(current => current.trim() ? `${current.replace(/\n+$/, '')}\n${line}` : line);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const editRule = (rule: PatchRule) => setDraft({
+    line: rule.line!,
+    old: rule.old,
+    newVal: rule.newVal,
+    direction: rule.direction ?? '',
+    wholeWord: !!rule.wholeWord,
+    isRegex: !!rule.isRegex,
+  });
+
+  const toggleSort = (key: SortKey) =>
+    setSort(current => ({ key, asc: current.key === key ? !current.asc : true }));
+
+  // 重新讀取目前儲存的字典，只寫回這裡編輯過的欄位，不覆蓋主程式在期間做的其他修改
+  const handleSave = () => {
+    const stored = loadDictionaries();
+    const merged = stored.map(d => {
+      const local = dictionaries.find(x => x.id === d.id);
+      if (!local) return d;
+      const fields = (['patches', 'prePatches'] as RuleField[]).filter(f => edited.has(`${d.id}|${f}`));
+      return fields.length ? { ...d, ...Object.fromEntries(fields.map(f => [f, local[f]])) } : d;
+    });
+    const removed = dictionaries.filter(d => [...edited].some(key => key.startsWith(`${d.id}|`)) && !stored.some(x => x.id === d.id));
+    saveDictionaries(merged);
+    setDictionaries(merged);
+    setEdited(new Set());
+    flash(removed.length
+      ? t('console.savedWithRemoved', { names: removed.map(d => d.name).join(t('list.separator')) })
+      : t('console.savedNote'));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    const format = importFormat === 'auto' ? detectDictionaryFormat(file.name, content) : importFormat;
+    const result = importDictionary(content, format);
+    const imported = result.lines.join('\n');
+    setText(current => importMode === 'replace' || !current.trim() ? imported : `${current.replace(/\n+$/, '')}\n${imported}`);
+    flash(t('console.imported', {
+      count: result.lines.length,
+      format: t(`dictionaryFormat.${format}`),
+      skipped: result.skipped.length ? t('console.importSkipped', { count: result.skipped.length }) : '',
+    }));
+  };
+
+  const handleExport = () => {
+    const { text: content, skipped } = exportDictionary(text, exportFormat);
+    const info = DICTIONARY_FILE_FORMATS.find(f => f.value === exportFormat)!;
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${dict.name}-${t(FIELD_LABELS[field])}${info.extension}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    if (skipped) flash(t('console.exportSkipped', { format: t(`dictionaryFormat.${exportFormat}`), count: skipped }));
+  };
+
+  const sortMark = (key: SortKey) => sort.key === key ? (sort.asc ? ' ▲' : ' ▼') : '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-2xl font-black text-slate-800 flex items-center gap-3">
+          <span className="bg-rose-500 p-2 rounded-xl text-white">📚</span>
+          {t('console.title')}
+        </h2>
+        <div className="flex items-center gap-3">
+          {message && <span className="text-xs text-slate-500">{message}</span>}
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-slate-900 disabled:bg-slate-300 transition-all"
+          >
+            {t(dirty ? 'console.save' : 'console.saved')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <select value={dict.id} onChange={e => { setSelectedId(e.target.value); setDraft(EMPTY_DRAFT); }} className={inputClass}>
+          {dictionaries.map((d, i) => (
+            <option key={d.id} value={d.id}>{i + 1}. {d.name}{d.enabled ? '' : t('console.disabled')}</option>
+          ))}
+        </select>
+        <div className="flex gap-1 bg-slate-100 rounded-xl p-1">
+          {(Object.keys(FIELD_LABELS) as RuleField[]).map(f => (
+            <button
+              key={f}
+              onClick={() => { setField(f); setDraft(EMPTY_DRAFT); }}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold ${field === f ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+            >
+              {t(FIELD_LABELS[f])}
+            </button>
+          ))}
+        </div>
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder={t('console.search')} className={`${inputClass} flex-1 min-w-[10rem]`} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button
+          onClick={() => setLintFilter(lintFilter === 'all' ? null : 'all')}
+          className={`px-3 py-1 rounded-full font-bold ${lintFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}
+        >
+          {issues.length ? t('console.issues', { count: issuesByLine.size }) : t('console.noIssues')}
+        </button>
+        {LINT_KINDS.filter(kind => countByKind[kind]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => setLintFilter(lintFilter === kind ? null : kind)}
+            className={`px-3 py-1 rounded-full font-bold ${lintFilter === kind ? 'ring-2 ring-indigo-400' : ''} ${LINT_COLORS[kind]}`}
+          >
+            {t(`lint.kind.${kind}`)} {countByKind[kind]}
+          </button>
+        ))}
+        {parsed.errors.length > 0 && (
+          <span className="px-3 py-1 rounded-full font-bold bg-rose-500 text-white" title={parsed.errors.map(e => t('patches.lineError', { line: e.line, message: t(e.key, e.params) })).join('\n')}>
+            {t('console.syntaxErrors', { count: parsed.errors.length })}
+          </span>
+        )}
+        {engineError !== null && field === 'patches' && (
+          <span className="px-3 py-1 rounded-full font-bold bg-amber-100 text-amber-700" title={errorText(t, engineError)}>
+            {t('console.engineUnavailable', { kind: t('lint.kind.unmatchable') })}
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-[28rem] overflow-y-auto rounded-2xl border border-slate-100">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left cursor-pointer w-14" onClick={() => toggleSort('line')}>{t('console.column.line')}{sortMark('line')}</th>
+              <th className="px-3 py-2 text-left cursor-pointer" onClick={() => toggleSort('old')}>{t('console.column.old')}{sortMark('old')}</th>
+              <th className="px-3 py-2 text-left cursor-pointer" onClick={() => toggleSort('newVal')}>{t('console.column.new')}{sortMark('newVal')}</th>
+              <th className="px-3 py-2 text-left cursor-pointer w-20" onClick={() => toggleSort('direction')}>{t('console.column.direction')}{sortMark('direction')}</th>
+              <th className="px-3 py-2 text-left">{t('console.column.check')}</th>
+              <th className="px-3 py-2 w-16"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(rule => (
+              <tr key={rule.line} className={`border-t border-slate-100 hover:bg-indigo-50/40 ${draft.line === rule.line ? 'bg-indigo-50' : ''}`}>
+                <td className="px-3 py-1.5 text-xs text-slate-400 font-mono">{rule.line}</td>
+                <td className="px-3 py-1.5 font-mono cursor-pointer" onClick={() => editRule(rule)}>
+                  {rule.old}
+                  {rule.isRegex && <span className="ml-1 text-[10px] text-purple-500">re</span>}
+                  {rule.wholeWord && <span className="ml-1 text-[10px] text-emerald-600">w</span>}
+                </td>
+                <td className="px-3 py-1.5 font-mono cursor-pointer" onClick={() => editRule(rule)}>{rule.newVal || <span className="text-slate-300">{t('console.deletes')}</span>}</td>
+                <td className="px-3 py-1.5 text-xs text-slate-500">{t(DIRECTION_LABELS[rule.direction ?? ''])}</td>
+                <td className="px-3 py-1.5">
+                  <div className="flex flex-wrap gap-1">
+                    {issuesByLine.get(rule.line!)?.map((issue, i) => (
+                      <span key={i} title={t(issue.key, issue.params)} className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${LINT_COLORS[issue.kind]}`}>
+                        {t(`lint.kind.${issue.kind}`)}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  <button onClick={() => replaceLine(rule.line!, null)} className="text-xs text-rose-400 hover:text-rose-600">{t('common.delete')}</button>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="px-3 py-8 text-center text-slate-400 text-xs">{t('console.noMatches')}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 p-4 bg-slate-50 rounded-2xl">
+        <span className="text-xs font-bold text-slate-500 w-full">{draft.line ? t('console.editLine', { line: draft.line }) : t('console.newRule')}</span>
+        <input value={draft.old} onChange={e => setDraft({ ...draft, old: e.target.value })} placeholder={t('console.column.old')} className={`${inputClass} flex-1 min-w-[6rem] font-mono`} />
+        <span className="text-slate-400">➔</span>
+        <input value={draft.newVal} onChange={e => setDraft({ ...draft, newVal: e.target.value })} placeholder={t('console.column.new')} className={`${inputClass} flex-1 min-w-[6rem] font-mono`} />
+        <select value={draft.direction} onChange={e => setDraft({ ...draft, direction: e.target.value as RuleDraft['direction'] })} className={inputClass}>
+          {Object.entries(DIRECTION_LABELS).map(([value, label]) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          <input type="checkbox" checked={draft.wholeWord} onChange={e => setDraft({ ...draft, wholeWord: e.target.checked })} /> {t('console.wholeWord')}
+        </label>
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          <input type="checkbox" checked={draft.isRegex} onChange={e => setDraft({ ...draft, isRegex: e.target.checked })} /> {t('console.regex')}
+        </label>
+        <button onClick={commitDraft} className="px-4 py-2 rounded-xl text-xs font-bold text-white bg-indigo-600">{t(draft.line ? 'console.update' : 'console.add')}</button>
+        {draft.line && <button onClick={() => setDraft(EMPTY_DRAFT)} className="text-xs text-slate-400">{t('common.cancel')}</button>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="flex flex-wrap items-center gap-2 p-4 border-2 border-dashed border-slate-200 rounded-2xl">
+          <span className="text-xs font-bold text-slate-500 w-full">{t('console.import')}</span>
+          <select value={importFormat} onChange={e => setImportFormat(e.target.value as DictionaryFileFormat | 'auto')} className={inputClass}>
+            <option value="auto">{t('console.importAuto')}</option>
+            {DICTIONARY_FILE_FORMATS.map(f => <option key={f.value} value={f.value}>{t(`dictionaryFormat.${f.value}`)}</option>)}
+          </select>
+          <select value={importMode} onChange={e => setImportMode(e.target.value as 'append' | 'replace')} className={inputClass}>
+            <option value="append">{t('console.importAppend')}</option>
+            <option value="replace">{t('console.importReplace')}</option>
+          </select>
+          <button onClick={() => fileInput.current?.click()} className="px-4 py-2 rounded-xl text-xs font-bold text-white bg-slate-700">{t('console.chooseFile')}</button>
+          <input ref={fileInput} type="file" accept=".csv,.tsv,.txt" onChange={handleImport} className="hidden" />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 p-4 border-2 border-dashed border-slate-200 rounded-2xl">
+          <span className="text-xs font-bold text-slate-500 w-full">{t('console.export', { field: t(FIELD_LABELS[field]) })}</span>
+          <select value={exportFormat} onChange={e => setExportFormat(e.target.value as DictionaryFileFormat)} className={inputClass}>
+            {DICTIONARY_FILE_FORMATS.map(f => <option key={f.value} value={f.value}>{t(`dictionaryFormat.${f.value}`)}</option>)}
+          </select>
+          <button onClick={handleExport} className="px-4 py-2 rounded-xl text-xs font-bold text-white bg-slate-700">{t('console.download')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictionaryConsole;
@@ -0,0 +1,33 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { combineDictionaries, loadDictionaries } from '../utils/dictionaries';
+import { startEmbedServer } from '../utils/embedApi';
+import { loadSiteConfig, localizeSiteText } from '../utils/siteConfig';
+import { useI18n } from '../utils/useI18n';
+
+/**
+ * 嵌入模式（index.html?embed）：不顯示編輯介面，只接收上層頁面的 postMessage 請求，
+ * 畫面上僅留一行狀態供整合時除錯
+ */
+const EmbedApp: React.FC = () => {
+  const [config] = useState(loadSiteConfig);
+  const [dictionaries] = useState(loadDictionaries);
+  const rules = useMemo(() => combineDictionaries(dictionaries).rules, [dictionaries]);
+  const { locale, t } = useI18n(rules);
+  const [lastRequest, setLastRequest] = useState<{ method: string; origin: string } | null>(null);
+
+  useEffect(() => startEmbedServer({ onRequest: (method, origin) => setLastRequest({ method, origin }) }), []);
+
+  const framed = window.parent !== window;
+
+  return (
+    <div className="p-3 text-[11px] text-slate-500 space-y-0.5">
+      <p className="font-bold text-slate-600">{t('embed.title', { siteName: localizeSiteText(config, locale).siteName })}</p>
+      {!framed && <p>{t('embed.notFramed')}</p>}
+      <p>{t('embed.status', { dictionaries: dictionaries.filter(d => d.enabled).length, origins: config.embedOrigins.length })}</p>
+      {config.embedOrigins.length === 0 && <p className="text-amber-600">{t('embed.noOrigins')}</p>}
+      {lastRequest && <p>{t('embed.lastRequest', lastRequest)}</p>}
+    </div>
+  );
+};
+
+export default EmbedApp;
@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { Translate } from '../utils/useI18n';
+
+interface HistoryDrawerProps {
+  open: boolean;
+  entries: HistoryEntry[];
+  onClose: () => void;
+  /** 重新開啟：還原當時的輸入、輸出、方向與格式 */
+  onOpen: (entry: HistoryEntry) => void;
+  /** 以當時的補丁快照取代目前的字典 */
+  onRestorePatches: (entry: HistoryEntry) => void;
+  onDelete: (id: number) => void;
+  onClear: () => void;
+  t: Translate;
+  locale: string;
+}
+
+const preview = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, 80);
+
+/**
+ * 轉換歷史抽屜：可搜尋原文與結果，重新開啟過去的轉換
+ */
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ open, entries, onClose, onOpen, onRestorePatches, onDelete, onClear, t, locale }) => {
+  const [query, setQuery] = useState('');
+
+  const visible = useMemo(() => {
+    const q = query.trim();
+    return q ? entries.filter(e => e.input.includes(q) || e.output.includes(q)) : entries;
+  }, [entries, query]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-slate-900/20" />
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="relative w-full max-w-md h-full glass-panel shadow-2xl flex flex-col"
+        aria-label={t('history.label')}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/40">
+          <h2 className="font-bold text-slate-600">{t('history.title')}</h2>
+          <div className="flex items-center gap-3">
+            {entries.length > 0 && (
+              <button
+                onClick={() => { if (window.confirm(t('history.clearConfirm'))) onClear(); }}
+                className="text-[11px] font-bold text-slate-400 hover:text-rose-500"
+              >
+                {t('history.clear')}
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold">✕</button>
+          </div>
+        </div>
+        <div className="p-4">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('history.search')}
+            className="w-full bg-white/60 border-none rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-rose-200 outline-none"
+          />
+        </div>
+        <ul className="flex-1 overflow-y-auto no-scrollbar px-4 pb-4 space-y-2">
+          {visible.map(entry => (
+            <li key={entry.id} className="bg-white/60 rounded-2xl p-3 text-xs space-y-1.5">
+              <div className="flex justify-between text-slate-400">
+                <span>{new Date(entry.createdAt).toLocaleString(locale)}</span>
+                <span>{t(`variant.${entry.pair.from}`)} → {t(`variant.${entry.pair.to}`)}</span>
+              </div>
+              <p className="text-slate-700 break-all">{preview(entry.input) || t('history.blank')}</p>
+              <p className="text-slate-400 break-all">→ {preview(entry.output)}</p>
+              <div className="flex flex-wrap items-center gap-3 pt-1">
+                <button onClick={() => onOpen(entry)} className="font-bold text-rose-500 hover:underline">{t('history.open')}</button>
+                <button
+                  onClick={() => onRestorePatches(entry)}
+                  title={entry.dictionaries.map(d => d.name).join(t('list.separator'))}
+                  className="font-bold text-purple-500 hover:underline"
+                >
+                  {t('history.restorePatches', { count: entry.dictionaries.length })}
+                </button>
+                <button onClick={() => onDelete(entry.id)} className="ml-auto text-slate-300 hover:text-rose-500">{t('common.delete')}</button>
+              </div>
+            </li>
+          ))}
+          {visible.length === 0 && (
+            <li className="text-center text-sm text-slate-400 py-10">{t(entries.length ? 'history.noMatches' : 'history.none')}</li>
+          )}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { PatchSet, PatchSnapshot } from '../types';
+import { MessageKey } from '../utils/i18n';
+import { mergePatchSets, MergeChoice } from '../utils/patchMerge';
+import { Translate } from '../utils/useI18n';
+
+interface MergePanelProps {
+  base: PatchSet;
+  local: PatchSet;
+  remote: PatchSnapshot;
+  onApply: (merged: PatchSet) => void;
+  onCancel: () => void;
+  t: Translate;
+}
+
+// 欄位名稱與補丁面板的分頁相同
+const FIELD_LABELS: Record<keyof PatchSet, MessageKey> = {
+  patches: 'patches.tab.post',
+  prePatches: 'patches.tab.pre',
+  protectedTerms: 'patches.tab.protected',
+};
+
+const MergePanel: React.FC<MergePanelProps> = ({ base, local, remote, onApply, onCancel, t }) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+  const { patchSet, conflicts } = useMemo(
+    () => mergePatchSets(base, local, remote.patchSet, choices),
+    [base, local, remote, choices]
+  );
+
+  return (
+    <div className="bg-amber-50/70 rounded-xl p-4 space-y-3 border border-amber-100">
+      <div className="flex justify-between items-center">
+        <p className="text-xs font-bold text-amber-700">
+          {t('merge.title', { revision: remote.revision })}
+        </p>
+        <span className="text-[10px] text-slate-400">
+          {conflicts.length ? t('merge.conflicts', { count: conflicts.length }) : t('merge.autoMerged')}
+        </span>
+      </div>
+
+      {conflicts.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto no-scrollbar space-y-2">
+          {conflicts.map(conflict => (
+            <li key={conflict.id} className="bg-white/60 rounded-xl p-2 space-y-1">
+              <div className="text-[10px] text-slate-400 font-bold">
+                {t('merge.conflictField', { field: t(FIELD_LABELS[conflict.field]), key: conflict.key })}
+              </div>
+              {(['local', 'remote'] as const).map(side => {
+                const line = side === 'local' ? conflict.local : conflict.remote;
+                const active = (choices[conflict.id] ?? 'local') === side;
+                return (
+                  <button
+                    key={side}
+                    onClick={() => setChoices(c => ({ ...c, [conflict.id]: side }))}
+                    className={`w-full text-left px-3 py-1.5 rounded-lg text-xs font-mono transition-all ${active ? 'bg-amber-400 text-white' : 'bg-white/70 text-slate-600 hover:bg-white'}`}
+                  >
+                    <span className="font-sans font-bold mr-2">{t(side === 'local' ? 'merge.local' : 'merge.remote')}</span>
+                    {line ?? t('merge.deleted')}
+                  </button>
+                );
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-xs text-slate-400 hover:text-slate-600 font-medium">{t('merge.later')}</button>
+        <button onClick={() => onApply(patchSet)} className="px-4 py-2 bg-amber-400 text-white text-xs font-bold rounded-xl shadow-md hover:brightness-105 active:scale-95 transition-all">
+          {t('merge.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MergePanel;
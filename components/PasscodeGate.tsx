@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { isUnlocked, verifyPasscode } from '../utils/adminPasscode';
+import { Translate } from '../utils/useI18n';
+
+interface PasscodeGateProps {
+  children: React.ReactNode;
+  t: Translate;
+}
+
+/**
+ * 後台密碼閘門：設定了密碼且本分頁尚未解鎖時，先要求輸入密碼才顯示內容
+ */
+const PasscodeGate: React.FC<PasscodeGateProps> = ({ children, t }) => {
+  const [unlocked, setUnlocked] = useState(isUnlocked);
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  if (unlocked) return <>{children}</>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    const ok = await verifyPasscode(passcode);
+    setChecking(false);
+    if (ok) {
+      setUnlocked(true);
+    } else {
+      setError(t('passcode.wrong'));
+      setPasscode('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="max-w-sm w-full bg-white shadow-2xl rounded-[2.5rem] p-10 border border-slate-100 space-y-6">
+        <h1 className="text-2xl font-black text-slate-800 flex items-center gap-3">
+          <span className="bg-indigo-600 p-2 rounded-xl text-white">🔒</span>
+          {t('passcode.locked')}
+        </h1>
+        <input
+          type="password"
+          value={passcode}
+          onChange={e => { setPasscode(e.target.value); setError(''); }}
+          placeholder={t('passcode.placeholder')}
+          autoFocus
+          autoComplete="current-password"
+          className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        {error && <p className="text-xs font-bold text-rose-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passcode || checking}
+          className="w-full py-3 rounded-2xl font-bold text-white bg-slate-900 disabled:bg-slate-300 transition-all"
+        >
+          {t(checking ? 'passcode.checking' : 'passcode.unlock')}
+        </button>
+        <a href="index.html" className="block text-center text-sm text-indigo-600 font-bold hover:underline">{t('admin.back')}</a>
+      </form>
+    </div>
+  );
+};
+
+export default PasscodeGate;
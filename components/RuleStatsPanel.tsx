@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { PatchRule, RuleHit } from '../types';
+import { findDeadRules, ruleStatKey, RuleStats } from '../utils/ruleStats';
+import { formatPatchRule } from '../utils/patchParser';
+import { Translate } from '../utils/useI18n';
+
+interface RuleStatsPanelProps {
+  /** 目前字典在此階段的規則（需帶有來源字典） */
+  rules: PatchRule[];
+  stage: RuleHit['stage'];
+  stats: RuleStats;
+  /** 最近一次轉換中各規則的命中次數（以 ruleStatKey 為鍵） */
+  lastHits: Record<string, number>;
+  onRemoveLines: (lines: number[]) => void;
+  onReset: () => void;
+  t: Translate;
+}
+
+const DEFAULT_THRESHOLD = 20;
+
+/**
+ * 規則命中統計：列出每條規則本次與累計的命中次數，並找出長期未使用的規則
+ */
+const RuleStatsPanel: React.FC<RuleStatsPanelProps> = ({ rules, stage, stats, lastHits, onRemoveLines, onReset, t }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [deadOnly, setDeadOnly] = useState(false);
+
+  const deadRules = useMemo(() => findDeadRules(stats, rules, stage, threshold), [stats, rules, stage, threshold]);
+  const deadLines = useMemo(() => new Set(deadRules.map(d => d.rule.line!)), [deadRules]);
+  const visible = deadOnly ? rules.filter(r => deadLines.has(r.line!)) : rules;
+
+  const lastHitLabel = (rule: PatchRule) => {
+    const stat = stats.rules[ruleStatKey(rule, stage)];
+    if (!stat) return t('ruleStats.notSeen');
+    if (stat.lastHit === null) return t('ruleStats.neverHit');
+    return stat.idle === 0 ? t('ruleStats.latest') : t('ruleStats.idle', { count: stat.idle });
+  };
+
+  return (
+    <details className="text-[11px] text-slate-500 bg-white/30 rounded-xl px-3 py-2">
+      <summary className="cursor-pointer font-bold">
+        {t('ruleStats.title', {
+          conversions: stats.conversions,
+          dead: deadRules.length ? t('ruleStats.dead', { count: deadRules.length, threshold }) : '',
+        })}
+      </summary>
+      <div className="mt-2 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1">
+            {t('ruleStats.thresholdBefore')}
+            <input
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={e => setThreshold(Math.max(1, Number(e.target.value) || 1))}
+              className="w-16 bg-white/60 rounded-lg px-2 py-0.5 border-none focus:ring-2 focus:ring-rose-200"
+            />
+            {t('ruleStats.thresholdAfter')}
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={deadOnly} onChange={e => setDeadOnly(e.target.checked)} className="accent-rose-400" />
+            {t('ruleStats.deadOnly')}
+          </label>
+          {deadRules.length > 0 && (
+            <button
+              onClick={() => {
+                if (window.confirm(t('ruleStats.removeConfirm', { count: deadRules.length }))) onRemoveLines([...deadLines]);
+              }}
+              className="font-bold text-rose-400 hover:text-rose-600"
+            >
+              {t('ruleStats.remove')}
+            </button>
+          )}
+          <button onClick={onReset} className="font-bold text-slate-400 hover:text-slate-600">{t('ruleStats.reset')}</button>
+        </div>
+
+        <div className="max-h-56 overflow-y-auto no-scrollbar">
+          <table className="w-full">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="text-left font-bold py-1 w-10">{t('ruleStats.column.line')}</th>
+                <th className="text-left font-bold py-1">{t('ruleStats.column.rule')}</th>
+                <th className="text-right font-bold py-1 w-12">{t('ruleStats.column.last')}</th>
+                <th className="text-right font-bold py-1 w-14">{t('ruleStats.column.total')}</th>
+                <th className="text-right font-bold py-1 w-24">{t('ruleStats.column.lastHit')}</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {visible.map(rule => {
+                const key = ruleStatKey(rule, stage);
+                return (
+                  <tr key={rule.line} className={deadLines.has(rule.line!) ? 'text-slate-300' : ''}>
+                    <td className="py-0.5">{rule.line}</td>
+                    <td className="py-0.5 truncate max-w-0">{formatPatchRule(rule.old, rule.newVal, rule)}</td>
+                    <td className="py-0.5 text-right">{lastHits[key] ?? 0}</td>
+                    <td className="py-0.5 text-right">{stats.rules[key]?.hits ?? 0}</td>
+                    <td className="py-0.5 text-right font-sans">{lastHitLabel(rule)}</td>
+                  </tr>
+                );
+              })}
+              {visible.length === 0 && (
+                <tr><td colSpan={5} className="py-3 text-center font-sans text-slate-400">{t('ruleStats.empty')}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default RuleStatsPanel;
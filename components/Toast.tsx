@@ -1,40 +1,78 @@
-
 import React, { useEffect } from 'react';
 import { ToastMessage } from '../types';
 
 interface ToastProps {
   toasts: ToastMessage[];
   onRemove: (id: number) => void;
+  /** 介面文字（由呼叫端依語言提供） */
+  labels: { details: string; close: string };
 }
 
-const Toast: React.FC<ToastProps> = ({ toasts, onRemove }) => {
+// 一般提示的顯示時間；帶操作按鈕的提示多留一些時間
+const DURATION = 3000;
+const ACTION_DURATION = 8000;
+
+/**
+ * 提示訊息。一般訊息放在 polite 的 aria-live 區域，錯誤放在 assertive 區域；
+ * 兩個區域都始終存在，螢幕閱讀器才能可靠地朗讀新加入的訊息。
+ */
+const Toast: React.FC<ToastProps> = ({ toasts, onRemove, labels }) => {
+  const regions = [
+    { live: 'polite' as const, items: toasts.filter(t => t.type !== 'error') },
+    { live: 'assertive' as const, items: toasts.filter(t => t.type === 'error') },
+  ];
   return (
-    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[100] flex flex-col gap-2 pointer-events-none">
-      {toasts.map((toast) => (
-        <ToastItem key={toast.id} toast={toast} onRemove={onRemove} />
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[100] flex flex-col items-center gap-2 pointer-events-none w-[min(90vw,28rem)]">
+      {regions.map(region => (
+        <div key={region.live} aria-live={region.live} aria-atomic="false" className="flex flex-col items-center gap-2 w-full">
+          {region.items.map(toast => (
+            <ToastItem key={toast.id} toast={toast} onRemove={onRemove} labels={labels} />
+          ))}
+        </div>
       ))}
     </div>
   );
 };
 
-const ToastItem: React.FC<{ toast: ToastMessage; onRemove: (id: number) => void }> = ({ toast, onRemove }) => {
+const ToastItem: React.FC<{ toast: ToastMessage; onRemove: (id: number) => void; labels: ToastProps['labels'] }> = ({ toast, onRemove, labels }) => {
+  const sticky = toast.sticky ?? toast.type === 'error';
+
   useEffect(() => {
+    if (sticky) return;
     const timer = setTimeout(() => {
       onRemove(toast.id);
-    }, 3000);
+    }, toast.actions?.length ? ACTION_DURATION : DURATION);
     return () => clearTimeout(timer);
-  }, [toast.id, onRemove]);
+  }, [toast.id, toast.actions, sticky, onRemove]);
 
   const bgColor = toast.type === 'success' ? 'bg-emerald-500' : toast.type === 'error' ? 'bg-rose-500' : 'bg-sky-500';
+  const simple = !toast.details && !toast.actions?.length;
 
   return (
-    <div className={`${bgColor} text-white px-6 py-3 rounded-full shadow-lg flex items-center gap-3 animate-bounce-in pointer-events-auto`}>
-      <span className="font-medium text-sm">{toast.message}</span>
-      <button onClick={() => onRemove(toast.id)} className="hover:opacity-70">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="6 18L18 6M6 6l12 12" />
-        </svg>
-      </button>
+    <div className={`${bgColor} text-white px-6 py-3 ${simple ? 'rounded-full' : 'rounded-2xl w-full'} shadow-lg animate-bounce-in pointer-events-auto`}>
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-sm flex-1">{toast.message}</span>
+        {toast.actions?.map(action => (
+          <button
+            key={action.label}
+            onClick={() => { action.run(); onRemove(toast.id); }}
+            className="text-xs font-bold bg-white/20 hover:bg-white/30 rounded-lg px-3 py-1 shrink-0"
+          >
+            {action.label}
+          </button>
+        ))}
+        <button onClick={() => onRemove(toast.id)} aria-label={labels.close} className="hover:opacity-70 shrink-0">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {toast.details && (
+        <details className="mt-1 text-xs opacity-90">
+          <summary className="cursor-pointer">{labels.details}</summary>
+          <pre className="mt-1 whitespace-pre-wrap break-all font-mono">{toast.details}</pre>
+        </details>
+      )}
     </div>
   );
 };
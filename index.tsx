@@ -2,15 +2,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import EmbedApp from './components/EmbedApp';
+import { registerServiceWorker } from './utils/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// index.html?embed 以嵌入模式載入，供其他網站透過 postMessage 呼叫（見 docs/embed-api.md）
+const embedded = new URLSearchParams(window.location.search).has('embed');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {embedded ? <EmbedApp /> : <App />}
   </React.StrictMode>
 );
+
+registerServiceWorker();
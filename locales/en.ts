@@ -0,0 +1,438 @@
+import type { MessageKey } from './zh-TW';
+
+/**
+ * 英文介面文字
+ */
+export const en: Record<MessageKey, string> = {
+  'locale.label': 'Language',
+
+  'header.palette': '⌨️ Commands',
+  'header.paletteTitle': 'Command palette ({shortcut})',
+  'header.history': '🕘 History',
+  'header.activity': '📜 Activity',
+  'header.activityErrors': '{count} new errors',
+  'configChange.title': '⚠️ Site settings have changed since your last visit',
+  'configChange.empty': '(empty)',
+  'configChange.syncWarning': 'Patches will be downloaded from the new source. If neither you nor an administrator made this change, do not upload patches and check the admin settings.',
+  'configChange.colon': ': ',
+  'configChange.dismiss': 'Got it',
+  'configField.siteName': 'Site name',
+  'configField.subtitle': 'Subtitle',
+  'configField.customIcon': 'Brand icon',
+  'configField.clickSound': 'Click sound',
+  'configField.sync': 'Patch sync source',
+  'configField.translations': 'Site name per language',
+  'configField.embedOrigins': 'Allowed embed origins',
+  'configChange.embedWarning': 'The listed sites can convert text with these patches through the embed mode. If you do not recognize them, check the admin settings.',
+
+  'input.title': 'Source text',
+  'input.undo': '↶ Undo',
+  'input.undoTitle': 'Undo input and output',
+  'input.redo': '↷ Redo',
+  'input.redoTitle': 'Redo',
+  'input.clear': 'Clear',
+  'input.placeholder': 'Paste your Chinese text here...',
+  'counts': '{characters} characters · {words} words',
+  'quickFix.prefillTitle': 'Use the text selected in the result ({shortcut})',
+  'quickFix.searchPlaceholder': 'Replace this...',
+  'quickFix.replacePlaceholder': 'with this...',
+  'quickFix.apply': 'Fix & remember',
+  'convert.toSimplified': 'To Simplified',
+  'convert.toTraditional': 'To Traditional',
+  'convert.progress': 'Converting {percent}%',
+  'convert.cancel': '✖ Cancel',
+  'convert.swapTitle': 'Swap source text and result ({shortcut})',
+  'direction.title': 'Direction',
+  'direction.swapTitle': 'Swap source and target',
+  'direction.formatTitle': 'Input format',
+  'direction.formatAuto': 'Format: auto-detect',
+  'direction.format': 'Format: {format}',
+  'direction.live': '⚡ Live',
+  'direction.liveTitle': 'Convert in this direction automatically when the input or patches change',
+  'direction.convert': 'Convert',
+
+  'output.title': 'Result',
+  'output.diff': '🔍 Show changes',
+  'output.copy': '📋 Copy result',
+  'output.placeholder': 'The converted text will appear here...',
+  'output.summary': ' · {spans} changes, {hits} rules matched',
+  'batch.title': 'Batch file conversion',
+
+  'patches.title': 'Smart patches (Cloud Dictionary)',
+  'patches.hashTitle': 'Content hash {hash}',
+  'patches.unsynced': ' · not uploaded',
+  'patches.noSync': 'No sync target',
+  'patches.undoTitle': 'Undo patch edit',
+  'patches.redoTitle': 'Redo patch edit',
+  'patches.saveLocal': '💾 Save locally',
+  'patches.tab.post': 'Patches',
+  'patches.tab.pre': 'Pre-rules',
+  'patches.tab.protected': 'Protected terms',
+  'patches.hint.post': 'Rules (one per line: old=new, applied after OpenCC)',
+  'patches.hint.pre': 'Pre-rules (same syntax as patches, applied before OpenCC)',
+  'patches.hint.protected': 'Protected terms (one per line, never changed by OpenCC or patches)',
+  'patches.placeholder.post': 'Example:\n發佈=發布\n程式=程序',
+  'patches.placeholder.pre': 'Example:\n[t] 后台=後臺',
+  'patches.placeholder.protected': 'Example:\n乾隆\n雲端筆記 Pro',
+  'patches.syntax.title': 'Rule syntax',
+  'patches.syntax.comment': '# comment: the whole line is ignored',
+  'patches.syntax.basic': 'old=new: applied in both directions',
+  'patches.syntax.direction': '[s] old=new: only when converting to Simplified; [t] only when converting to Traditional',
+  'patches.syntax.wholeWord': '[w] old=new: whole word, must not touch characters of the same kind (letters, digits or Han)',
+  'patches.syntax.regex': '[re] (\\d+)元=$1 圓: regular expression, refer to groups with $1 or $<name>',
+  'patches.syntax.combine': '[t,w] old=new: combine flags with commas',
+  'patches.syntax.escape': '\\= is a literal =, \\\\ is a backslash; a leading \\# or \\[ is plain text',
+  'patches.lineError': 'Line {line}: {message}',
+  'patches.shadowed': 'Line {line} "{old}" is overridden by line {byLine} of higher-priority "{dictionary}" (→ {newVal})',
+  'patches.order': 'Applied in order: {order}',
+  'patches.orderNone': '(no dictionary enabled)',
+  'patches.totals': '; {rules} patches, {preRules} pre-rules, {protectedTerms} protected terms',
+  'patches.adminNote': '※ Tip: the cloud URL is now managed in the admin page (admin.html).',
+
+  'dictionary.newPrompt': 'New dictionary name',
+  'dictionary.newDefault': 'Dictionary {index}',
+  'dictionary.renamePrompt': 'Dictionary name',
+  'dictionary.removeConfirm': 'Delete the dictionary "{name}"? Data in the cloud is not deleted.',
+
+  'command.group.convert': 'Convert',
+  'command.group.edit': 'Edit',
+  'command.group.view': 'View',
+  'command.group.patches': 'Patches',
+  'command.group.dictionary': 'Dictionary',
+  'command.convert': 'Convert in current direction',
+  'command.liveOn': 'Turn on live conversion',
+  'command.liveOff': 'Turn off live conversion',
+  'command.swap': 'Swap source text and result',
+  'command.copy': 'Copy result',
+  'command.prefillFix': 'Fill quick fix from selection',
+  'command.undoText': 'Undo input and output',
+  'command.redoText': 'Redo input and output',
+  'command.showDiff': 'Show changes',
+  'command.hideDiff': 'Hide changes',
+  'command.history': 'Open conversion history',
+  'command.activity': 'Open activity log',
+  'command.save': 'Save patches locally',
+  'command.undoPatches': 'Undo patch edit',
+  'command.redoPatches': 'Redo patch edit',
+  'command.addDictionary': 'Add dictionary',
+  'command.selectDictionary': 'Switch to "{name}"',
+
+  'sync.pull': '☁️ Download patches',
+  'sync.push': '🚀 Upload to cloud',
+  'sync.importFile': '📂 Import patch file',
+  'sync.exportFile': '💾 Export patch file',
+  'syncBackend.gas': 'Google Apps Script',
+  'syncBackend.rest': 'JSON REST API',
+  'syncBackend.webdav': 'WebDAV',
+  'syncBackend.file': 'File export / import',
+
+  'toast.upToDate': '"{name}" is already up to date',
+  'toast.pulled': 'Downloaded cloud patches for "{name}" (revision {revision}) ☁️',
+  'toast.localAhead': 'No new cloud revision for "{name}"; you have local changes not yet uploaded',
+  'toast.needsMerge': '"{name}" changed both locally and in the cloud; merge them in the patch panel',
+  'toast.noSyncTarget': 'No sync target configured; set one up in the admin page',
+  'toast.pullFailed': 'Cloud download failed for "{name}"',
+  'toast.pushed': 'Uploaded "{name}" to the cloud (revision {revision}) 🚀',
+  'toast.pushConflict': 'Someone else updated "{name}" in the cloud; merge before uploading',
+  'toast.pushFailed': 'Upload failed for "{name}"',
+  'toast.merged': 'Merged; upload to sync with the cloud',
+  'toast.rulesRemoved': 'Removed {count} rules; remember to save',
+  'toast.emptyInput': 'Enter some text first',
+  'toast.converted': 'Converted ✨',
+  'toast.unknownError': 'An unknown error occurred',
+  'toast.cancelled': 'Conversion cancelled',
+  'toast.liveOn': 'Live conversion on ⚡',
+  'toast.liveOff': 'Live conversion off',
+  'toast.copied': 'Result copied',
+  'toast.savedLocal': 'Saved locally',
+  'toast.quickFixEmpty': 'Enter the text to fix',
+  'toast.ruleAdded': 'Added to "{name}"',
+  'toast.noSelection': 'Select the text to fix in the result first',
+  'toast.multilineSelection': 'Select text within a single line',
+  'toast.historyLoadFailed': 'Could not load conversion history',
+  'toast.historyOpened': 'Opened from history',
+  'toast.restorePatchesConfirm': 'Replace the current dictionaries with the patches from that time? Dictionaries not in the record will be disabled.',
+  'toast.patchesRestored': 'Patches restored; remember to save',
+  'toast.deleteFailed': 'Delete failed',
+  'toast.clearFailed': 'Clear failed',
+  'toast.syncTarget': 'Sync target: {target}',
+  'toast.retry': 'Retry',
+  'toast.undo': 'Undo',
+  'toast.details': 'Details',
+  'toast.close': 'Close',
+  'toast.conversionFailed': 'Conversion failed',
+  'toast.saveFailed': 'Save failed',
+  'toast.sessionRestoreFailed': 'Could not restore the previous session',
+  'toast.sessionSaveFailed': 'Could not save the session',
+  'toast.historySaveFailed': 'Could not write the conversion history',
+  'toast.ruleRemoved': 'Removed the rule just added to "{name}"',
+  'toast.ruleUpdated': 'Updated line {line} of "{name}"; convert again to apply',
+  'toast.ruleMissingAdded': 'The original rule is no longer in "{name}"; added it as a new rule. Convert again to apply',
+  'toast.ruleAddedReconvert': 'Added to "{name}"; convert again to apply',
+  'toast.ruleAddedWithRule': 'Added to "{name}": {rule}',
+
+  'embed.title': '{siteName} · embed mode',
+  'embed.status': '{dictionaries} dictionaries enabled · {origins} allowed origins',
+  'embed.noOrigins': 'No allowed origins are configured, so every request is rejected. Set them in the admin page.',
+  'embed.notFramed': 'This page is meant to be embedded in other sites with an iframe; see docs/embed-api.md.',
+  'embed.lastRequest': 'Last request: {method} ({origin})',
+
+  'variant.cn': 'Simplified (Mainland China)',
+  'variant.tw': 'Traditional (Taiwan)',
+  'variant.twp': 'Traditional (Taiwan phrases)',
+  'variant.hk': 'Traditional (Hong Kong)',
+  'variant.t': 'Traditional (OpenCC standard)',
+  'variant.jp': 'Japanese Shinjitai',
+  'format.plain': 'Plain text',
+  'format.markdown': 'Markdown',
+  'format.html': 'HTML',
+  'format.srt': 'SRT subtitles',
+  'format.vtt': 'WebVTT subtitles',
+  'format.ass': 'ASS subtitles',
+
+  'admin.documentTitle': '{siteName} - Admin',
+  'admin.title': 'Admin',
+  'admin.back': 'Back to site →',
+  'admin.siteName': 'Site name',
+  'admin.subtitle': 'Subtitle',
+  'admin.translations': 'Site name and subtitle in other languages',
+  'admin.translationsHint': 'Leave empty to use the name and subtitle above.',
+  'admin.translatedSiteName': 'Site name ({locale})',
+  'admin.translatedSubtitle': 'Subtitle ({locale})',
+  'admin.syncBackend': 'Patch sync method',
+  'admin.sync.gas.label': 'Cloud patch GAS URL (fixed read URL)',
+  'admin.sync.gas.hint': 'Once set, the site always downloads and syncs patches from this URL.',
+  'admin.sync.rest.label': 'REST API endpoint',
+  'admin.sync.rest.hint': 'GET to read, PUT to upload; respond 409 on a revision conflict.',
+  'admin.sync.webdav.label': 'WebDAV patch file URL',
+  'admin.sync.webdav.hint': 'The file is created on the first upload if it does not exist.',
+  'admin.sync.file.label': '',
+  'admin.sync.file.hint': 'No server; export and import patch files manually in the main site.',
+  'admin.sync.token': 'Bearer token (optional)',
+  'admin.sync.username': 'Username (optional)',
+  'admin.sync.password': 'Password',
+  'admin.icon': 'Brand icon',
+  'admin.sound': 'Button click sound',
+  'admin.testSound': '▶ Play sound',
+  'admin.save': 'Save site settings',
+  'admin.saved': '✅ Site settings saved!',
+  'admin.bundle.title': '📦 Config bundle',
+  'admin.bundle.hint': 'Export the saved site settings and all dictionaries as one file with a checksum that detects corruption, then import it on another computer to copy the same setup.',
+  'admin.bundle.export': 'Export bundle',
+  'admin.bundle.import': 'Import bundle',
+  'admin.bundle.includeCredentials': 'Include sync credentials (token, password)',
+  'admin.bundle.exported': 'Exported settings and {count} dictionaries',
+  'admin.bundle.importConfirm': 'The bundle will overwrite the current site settings and all dictionaries ({count}). Import?',
+  'admin.bundle.imported': 'Imported settings and {count} dictionaries',
+  'admin.bundle.importFailed': 'Import failed: {message}',
+  'admin.embed.title': '🧩 Embedding and postMessage API',
+  'admin.embed.hint': 'Origins allowed to embed the converter in an iframe and call it, one per line (for example https://cms.example.com). Any other origin is rejected.',
+  'admin.embed.url': 'Embed URL: {url}',
+  'admin.embed.invalid': 'These are not valid origins and will be skipped on save: {origins}',
+  'admin.passcode.title': '🔒 Admin passcode',
+  'admin.passcode.enabled': ' (enabled)',
+  'admin.passcode.disabled': ' (not set)',
+  'admin.passcode.hint': 'The passcode is stored in this browser only as a salted hash; once set, it is required to open the admin page.',
+  'admin.passcode.new': 'New passcode',
+  'admin.passcode.password': 'Passcode',
+  'admin.passcode.confirm': 'Confirm',
+  'admin.passcode.set': 'Set passcode',
+  'admin.passcode.change': 'Change passcode',
+  'admin.passcode.remove': 'Remove passcode',
+  'admin.passcode.tooShort': 'The passcode needs at least 4 characters',
+  'admin.passcode.mismatch': 'The passcodes do not match',
+  'admin.passcode.changed': 'Admin passcode changed',
+  'admin.passcode.created': 'Admin passcode set; it will be required next time you open the admin page',
+  'admin.passcode.removeConfirm': 'Remove the admin passcode? Anyone will be able to change the site settings.',
+  'admin.passcode.removed': 'Admin passcode removed',
+  'activity.title': '📜 Activity log',
+  'activity.filter.all': 'All',
+  'activity.filter.errors': 'Errors only',
+  'activity.clear': 'Clear all',
+  'activity.clearConfirm': 'Clear the entire activity log?',
+  'activity.empty': 'No activity yet',
+  'activity.kind.sync': 'Download',
+  'activity.kind.upload': 'Upload',
+  'activity.kind.save': 'Save',
+  'activity.kind.conversion': 'Conversion',
+
+  'list.separator': ', ',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'configChange.unset': 'Not set',
+
+  'parse.unclosedFlags': 'Flags are missing the closing "]" (write \\[ to start a rule with [)',
+  'parse.conflictingDirections': 'The s and t directions cannot be combined',
+  'parse.unknownFlag': 'Unknown rule flag "{flag}"',
+  'parse.missingSeparator': 'Missing the "=" separator',
+  'parse.emptyOld': 'The left side of a rule cannot be empty',
+  'parse.emptyMatch': 'The regular expression must not match an empty string',
+  'parse.invalidRegex': 'Invalid regular expression: {message}',
+
+  'lint.kind.duplicate': 'Duplicate',
+  'lint.kind.conflict': 'Conflict',
+  'lint.kind.shadowed': 'Shadowed',
+  'lint.kind.cycle': 'Cycle',
+  'lint.kind.identity': 'No effect',
+  'lint.kind.unmatchable': 'Never matches',
+  'lint.duplicate': 'Identical to line {line}',
+  'lint.conflict': 'Line {line} matches the same text and replaces it with "{newVal}"; this line never applies',
+  'lint.shadowed': 'Shadowed by line {line} ({old}={newVal}); this line never applies',
+  'lint.cycle': 'Replaces back and forth with other rules: {path}',
+  'lint.identity': 'The old and new text are the same, so the rule has no effect',
+  'lint.unmatchable': 'OpenCC turns "{old}" into "{converted}" first, so this rule never matches',
+
+  'syncError.unauthorized': 'The server refused access; check the authentication settings',
+  'syncError.status': 'The server responded with {status}',
+  'syncError.unrecognized': 'The server sent an unrecognized response; make sure the endpoint supports versioned sync',
+  'syncError.rejected': 'The server rejected the upload',
+  'syncError.rejectedWithReason': 'The server rejected the upload: {reason}',
+  'syncError.noRevision': 'The server did not return a new revision',
+  'syncError.noFile': 'No file was selected',
+  'error.engineLoad': 'Could not load the conversion engine; check your connection and try again ({message})',
+  'error.tooManyProtected': 'Too many protected segments to mask',
+  'error.protectedLost': 'Protected segments were lost or duplicated during conversion; stopped to avoid corrupting the text',
+  'error.unknownEncoding': 'Unrecognized file encoding',
+  'error.noIndexedDb': 'This browser does not support IndexedDB',
+  'error.workerCrashed': 'The conversion worker stopped unexpectedly',
+  'admin.bundle.invalidJson': 'Not a valid JSON file',
+  'admin.bundle.notBundle': 'Not a config bundle from this converter',
+  'admin.bundle.tooNew': 'The bundle comes from a newer version; update the app first',
+  'admin.bundle.checksumMismatch': 'Checksum mismatch; the bundle may be corrupted',
+  'admin.bundle.noDictionaries': 'The bundle contains no dictionaries',
+
+  'annotated.opencc': 'OpenCC conversion',
+  'annotated.openccSource': 'OpenCC conversion: {from} → {to}',
+  'annotated.ruleSource': '{origin}{stage}{line}: {rule}{flags}',
+  'annotated.origin': '"{name}" ',
+  'annotated.line': ' line {line}',
+  'annotated.flags': ' ({flags})',
+  'annotated.flag.toSimplified': 'to Simplified only',
+  'annotated.flag.toTraditional': 'to Traditional only',
+  'annotated.flag.regex': 'regex',
+  'annotated.flag.wholeWord': 'whole word',
+  'annotated.legendRules': 'Patch rules (one color per rule)',
+  'annotated.legendHint': 'Click a highlight to add or edit a rule',
+  'annotated.addAsPatch': ' (will be added as a patch)',
+  'annotated.updateRule': 'Update rule',
+  'annotated.addRule': 'Add rule',
+  'ambiguity.title': '⚠️ Ambiguous characters to confirm ({count})',
+  'ambiguity.remember': 'Remember choices as patches',
+  'ambiguity.source': '({source})',
+
+  'batch.status.pending': 'Waiting',
+  'batch.status.converting': 'Converting…',
+  'batch.status.done': 'Done',
+  'batch.status.error': 'Failed',
+  'batch.skipped': 'Skipped {count} unsupported files (only {extensions})',
+  'batch.noFiles': 'Add some files first',
+  'batch.finished': 'Batch conversion finished ✨',
+  'batch.finishedWithFailures': 'Batch conversion finished; {count} files failed',
+  'batch.nothingDone': 'No converted files yet',
+  'batch.drop': 'Drop files here or click to choose',
+  'batch.dropHint': 'Supports {extensions} and detects UTF-8, UTF-16, Big5 and GBK automatically; subtitles and markup only have their text converted',
+  'batch.renameFiles': 'Convert file names too',
+  'batch.clear': 'Clear list',
+  'batch.convertAll': 'Convert all',
+  'batch.downloadZip': '📦 Download ZIP',
+  'batch.note': '※ Uses the direction selected above and the current patches; output files are always UTF-8.',
+
+  'palette.title': 'Command palette',
+  'palette.placeholder': 'Type a command, e.g. "sync" or "dictionary"…',
+  'palette.empty': 'No matching commands',
+  'dictionary.enabledTitle': 'Used when converting',
+  'dictionary.disabledTitle': 'Skipped when converting',
+  'dictionary.pendingMerge': 'A cloud version is waiting to be merged',
+  'dictionary.add': '+ New dictionary',
+  'dictionary.priority': 'Priority',
+  'dictionary.raise': '▲ Raise',
+  'dictionary.lower': '▼ Lower',
+  'dictionary.rename': '✏️ Rename',
+  'dictionary.remove': '🗑 Delete',
+  'history.label': 'Conversion history',
+  'history.title': '🕘 Conversion history',
+  'history.clear': 'Clear all',
+  'history.clearConfirm': 'Clear the entire conversion history?',
+  'history.search': 'Search input or output…',
+  'history.blank': '(blank)',
+  'history.open': 'Reopen',
+  'history.restorePatches': 'Restore those patches ({count} dictionaries)',
+  'history.noMatches': 'No matching entries',
+  'history.none': 'No conversions yet',
+
+  'merge.title': '⚠️ Both the local copy and the cloud (revision {revision}) have changes',
+  'merge.conflicts': '{count} rules need a choice',
+  'merge.autoMerged': 'Other changes were merged automatically',
+  'merge.conflictField': '{field}: {key}',
+  'merge.local': 'Local',
+  'merge.remote': 'Cloud',
+  'merge.deleted': '(deleted)',
+  'merge.later': 'Later',
+  'merge.apply': 'Apply merge',
+  'ruleStats.title': '📊 Rule hits ({conversions} conversions in total{dead})',
+  'ruleStats.dead': '; {count} rules unused in the last {threshold}',
+  'ruleStats.thresholdBefore': 'Treat rules as unused after',
+  'ruleStats.thresholdAfter': 'applicable conversions without a match',
+  'ruleStats.deadOnly': 'Only unused rules',
+  'ruleStats.removeConfirm': 'Remove {count} unused rules?',
+  'ruleStats.remove': '🧹 Remove unused rules',
+  'ruleStats.reset': 'Reset statistics',
+  'ruleStats.column.line': 'Line',
+  'ruleStats.column.rule': 'Rule',
+  'ruleStats.column.last': 'Last',
+  'ruleStats.column.total': 'Total',
+  'ruleStats.column.lastHit': 'Last hit',
+  'ruleStats.notSeen': 'Not in a conversion yet',
+  'ruleStats.neverHit': 'Never matched',
+  'ruleStats.latest': 'Latest',
+  'ruleStats.idle': '{count} applicable conversions ago',
+  'ruleStats.empty': 'No rules',
+
+  'passcode.locked': 'The admin page is locked',
+  'passcode.placeholder': 'Enter the admin password',
+  'passcode.wrong': 'Incorrect password',
+  'passcode.checking': 'Checking…',
+  'passcode.unlock': 'Unlock',
+  'console.title': 'Dictionaries',
+  'console.save': 'Save dictionaries',
+  'console.saved': 'Saved',
+  'console.disabled': ' (disabled)',
+  'console.search': 'Search old or new text…',
+  'console.issues': '⚠️ {count} rules have issues',
+  'console.noIssues': '✅ No issues found',
+  'console.syntaxErrors': 'Syntax errors {count}',
+  'console.engineUnavailable': 'Cannot check "{kind}": the conversion engine is not loaded',
+  'console.column.line': 'Line',
+  'console.column.old': 'Old',
+  'console.column.new': 'New',
+  'console.column.direction': 'Direction',
+  'console.column.check': 'Checks',
+  'console.deletes': '(delete)',
+  'console.noMatches': 'No matching rules',
+  'console.editLine': 'Edit line {line}',
+  'console.newRule': 'New rule',
+  'console.direction.both': 'Both',
+  'console.direction.toSimplified': 'To Simplified',
+  'console.direction.toTraditional': 'To Traditional',
+  'console.wholeWord': 'Whole word',
+  'console.regex': 'Regex',
+  'console.update': 'Update',
+  'console.add': 'Add',
+  'console.needOld': 'Enter the old text',
+  'console.savedNote': 'Dictionaries saved; reload the main page to use them',
+  'console.savedWithRemoved': 'Dictionaries saved; "{names}" were deleted on the main page, so their changes were not saved',
+  'console.import': 'Import a dictionary file',
+  'console.importAuto': 'Detect format',
+  'console.importAppend': 'Append to the existing rules',
+  'console.importReplace': 'Replace the existing rules',
+  'console.chooseFile': 'Choose file',
+  'console.imported': 'Imported {count} lines ({format}){skipped}',
+  'console.importSkipped': '; skipped {count} lines that could not be parsed',
+  'console.export': 'Export {field}',
+  'console.download': 'Download',
+  'console.exportSkipped': '{format} cannot express flags or special characters; skipped {count} rules',
+  'dictionaryFormat.csv': 'CSV',
+  'dictionaryFormat.tsv': 'TSV',
+  'dictionaryFormat.opencc': 'OpenCC dictionary',
+  'dictionaryFormat.patch': 'Patch text',
+};
@@ -0,0 +1,25 @@
+import type { MessageKey } from './zh-TW';
+
+/**
+ * 簡體中文的手動修正：其餘文字由臺灣繁體目錄自動轉換而來，
+ * 這裡只放轉換結果不符合大陸用語習慣的條目。
+ */
+export const zhCNOverrides: Partial<Record<MessageKey, string>> = {
+  'header.palette': '⌨️ 命令',
+  'header.paletteTitle': '命令面板（{shortcut}）',
+  'input.placeholder': '请在此粘贴您的中文内容...',
+  'output.copy': '📋 复制结果',
+  'output.title': '转换结果',
+  'patches.saveLocal': '💾 保存到本地',
+  'command.save': '保存补丁到本地',
+  'toast.savedLocal': '已保存到本地',
+  'toast.copied': '结果已复制',
+  'toast.saveFailed': '保存失败',
+  'patches.syntax.regex': '[re] (\\d+)元=$1 圆：正则表达式规则，可用 $1、$<name> 引用',
+  // 範例規則需保持原字形才有意義
+  'patches.placeholder.post': '示例：\n發佈=發布\n程式=程序',
+  'patches.placeholder.pre': '示例：\n[t] 后台=後臺',
+  'patches.placeholder.protected': '示例：\n乾隆\n雲端筆記 Pro',
+  'admin.save': '保存全站设置',
+  'admin.saved': '✅ 已成功保存全站设置！',
+};
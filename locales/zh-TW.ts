@@ -0,0 +1,460 @@
+/**
+ * 介面文字的來源目錄（臺灣繁體）。其他語言以相同的鍵對應；
+ * 簡體中文由此目錄經轉換器自動產生（見 utils/i18n.ts）。
+ * {name} 為執行時代入的參數。
+ */
+export const zhTW = {
+  'locale.label': '介面語言',
+
+  // 頁首與設定變更提醒
+  'header.palette': '⌨️ 指令',
+  'header.paletteTitle': '指令面板（{shortcut}）',
+  'header.history': '🕘 歷史紀錄',
+  'header.activity': '📜 活動紀錄',
+  'header.activityErrors': '{count} 個新的錯誤',
+  'configChange.title': '⚠️ 網站設定在你上次造訪後已被修改',
+  'configChange.empty': '（空白）',
+  'configChange.syncWarning': '補丁會從新的來源下載，若不是你或管理員修改的，請勿上傳補丁並檢查後台設定。',
+  'configChange.colon': '：',
+  'configChange.dismiss': '我知道了',
+  'configField.siteName': '網站名稱',
+  'configField.subtitle': '網站副標題',
+  'configField.customIcon': '品牌圖示',
+  'configField.clickSound': '點擊音效',
+  'configField.sync': '補丁同步來源',
+  'configField.translations': '各語言的網站名稱',
+  'configField.embedOrigins': '嵌入允許來源',
+  'configChange.embedWarning': '列出的網站可透過嵌入模式使用這裡的補丁轉換文字，若不認得這些來源，請檢查後台設定。',
+
+  // 輸入、快速修正與轉換
+  'input.title': '輸入原文',
+  'input.undo': '↶ 復原',
+  'input.undoTitle': '復原輸入與輸出',
+  'input.redo': '↷ 重做',
+  'input.redoTitle': '重做',
+  'input.clear': '清空內容',
+  'input.placeholder': '請在此貼上您的中文內容...',
+  'counts': '{characters} 字元 · {words} 字詞',
+  'quickFix.prefillTitle': '帶入成果中選取的文字（{shortcut}）',
+  'quickFix.searchPlaceholder': '把這個錯字...',
+  'quickFix.replacePlaceholder': '換成對的...',
+  'quickFix.apply': '修正並記憶',
+  'convert.toSimplified': '變簡體',
+  'convert.toTraditional': '變繁體',
+  'convert.progress': '轉換中 {percent}%',
+  'convert.cancel': '✖ 取消',
+  'convert.swapTitle': '對調原文與成果（{shortcut}）',
+  'direction.title': '轉換方向',
+  'direction.swapTitle': '對調來源與目標',
+  'direction.formatTitle': '輸入格式',
+  'direction.formatAuto': '格式：自動偵測',
+  'direction.format': '格式：{format}',
+  'direction.live': '⚡ 即時轉換',
+  'direction.liveTitle': '輸入或補丁變動後自動依此方向轉換',
+  'direction.convert': '依此方向轉換',
+
+  // 成果
+  'output.title': '成果報告',
+  'output.diff': '🔍 標示差異',
+  'output.copy': '📋 複製成果',
+  'output.placeholder': '轉換後的內容將顯示於此...',
+  'output.summary': ' · {spans} 處變更，命中 {hits} 條規則',
+  'batch.title': '批次檔案轉換 (Batch)',
+
+  // 補丁系統
+  'patches.title': '智慧補丁系統 (Cloud Dictionary)',
+  'patches.hashTitle': '內容雜湊 {hash}',
+  'patches.unsynced': ' · 未上傳',
+  'patches.noSync': '未設定同步目標',
+  'patches.undoTitle': '復原補丁編輯',
+  'patches.redoTitle': '重做補丁編輯',
+  'patches.saveLocal': '💾 儲存至本地',
+  'patches.tab.post': '後置補丁',
+  'patches.tab.pre': '前置規則',
+  'patches.tab.protected': '保護詞',
+  'patches.hint.post': '規則清單（每行一條：舊字=新字，於 OpenCC 之後套用）',
+  'patches.hint.pre': '前置規則（語法同補丁，於 OpenCC 之前套用）',
+  'patches.hint.protected': '保護詞（每行一個，OpenCC 與補丁都不會更動）',
+  'patches.placeholder.post': '範例：\n發佈=發布\n程式=程序',
+  'patches.placeholder.pre': '範例：\n[t] 后台=後臺',
+  'patches.placeholder.protected': '範例：\n乾隆\n雲端筆記 Pro',
+  'patches.syntax.title': '規則語法說明',
+  'patches.syntax.comment': '# 註解：整行忽略',
+  'patches.syntax.basic': '舊字=新字：兩個方向都套用',
+  'patches.syntax.direction': '[s] 舊字=新字：只在轉為簡體時套用；[t] 只在轉為繁體時套用',
+  'patches.syntax.wholeWord': '[w] 舊字=新字：整詞規則，前後不可緊鄰同類字元（英數字或漢字）',
+  'patches.syntax.regex': '[re] (\\d+)元=$1 圓：正規表示式規則，可用 $1、$<name> 引用',
+  'patches.syntax.combine': '[t,w] 舊字=新字：標記可用逗號組合',
+  'patches.syntax.escape': '\\= 表示字面的 =，\\\\ 表示反斜線，行首 \\# 或 \\[ 視為一般文字',
+  'patches.lineError': '第 {line} 行：{message}',
+  'patches.shadowed': '第 {line} 行「{old}」被優先度較高的「{dictionary}」第 {byLine} 行（→ {newVal}）覆蓋',
+  'patches.order': '轉換時依序套用：{order}',
+  'patches.orderNone': '（未啟用任何字典）',
+  'patches.totals': '，共 {rules} 條補丁、{preRules} 條前置規則、{protectedTerms} 個保護詞',
+  'patches.adminNote': '※ 提示：雲端網址現在統一由後台 (admin.html) 進行管理設定。',
+
+  // 字典管理
+  'dictionary.newPrompt': '新字典名稱',
+  'dictionary.newDefault': '字典 {index}',
+  'dictionary.renamePrompt': '字典名稱',
+  'dictionary.removeConfirm': '確定刪除字典「{name}」？此操作不會刪除雲端上的資料。',
+
+  // 指令面板
+  'command.group.convert': '轉換',
+  'command.group.edit': '編輯',
+  'command.group.view': '檢視',
+  'command.group.patches': '補丁',
+  'command.group.dictionary': '字典',
+  'command.convert': '依目前方向轉換',
+  'command.liveOn': '開啟即時轉換',
+  'command.liveOff': '關閉即時轉換',
+  'command.swap': '對調原文與成果',
+  'command.copy': '複製成果',
+  'command.prefillFix': '以選取文字填入快速修正',
+  'command.undoText': '復原輸入與輸出',
+  'command.redoText': '重做輸入與輸出',
+  'command.showDiff': '標示差異',
+  'command.hideDiff': '隱藏差異標示',
+  'command.history': '開啟轉換歷史',
+  'command.activity': '開啟活動紀錄',
+  'command.save': '儲存補丁至本地',
+  'command.undoPatches': '復原補丁編輯',
+  'command.redoPatches': '重做補丁編輯',
+  'command.addDictionary': '新增字典',
+  'command.selectDictionary': '切換到「{name}」',
+
+  // 同步
+  'sync.pull': '☁️ 手動下載補丁',
+  'sync.push': '🚀 上傳至雲端',
+  'sync.importFile': '📂 匯入補丁檔',
+  'sync.exportFile': '💾 匯出補丁檔',
+  'syncBackend.gas': 'Google Apps Script',
+  'syncBackend.rest': 'JSON REST API',
+  'syncBackend.webdav': 'WebDAV',
+  'syncBackend.file': '檔案匯出／匯入',
+
+  // 提示訊息
+  'toast.upToDate': '「{name}」已是雲端最新版本',
+  'toast.pulled': '「{name}」雲端補丁下載成功（第 {revision} 版）☁️',
+  'toast.localAhead': '「{name}」雲端沒有新版本，本地尚有未上傳的變更',
+  'toast.needsMerge': '「{name}」本地與雲端都有變更，請在補丁面板中合併',
+  'toast.noSyncTarget': '未設定同步目標，請前往後台設定',
+  'toast.pullFailed': '「{name}」雲端下載失敗',
+  'toast.pushed': '「{name}」已上傳至雲端（第 {revision} 版）🚀',
+  'toast.pushConflict': '「{name}」雲端已有其他人更新，請先合併再上傳',
+  'toast.pushFailed': '「{name}」上傳失敗',
+  'toast.merged': '合併完成，請上傳以同步雲端',
+  'toast.rulesRemoved': '已移除 {count} 條規則，記得儲存',
+  'toast.emptyInput': '請先輸入內容',
+  'toast.converted': '轉換完成 ✨',
+  'toast.unknownError': '發生未知錯誤',
+  'toast.cancelled': '已取消轉換',
+  'toast.liveOn': '已開啟即時轉換 ⚡',
+  'toast.liveOff': '已關閉即時轉換',
+  'toast.copied': '成果已複製',
+  'toast.savedLocal': '已儲存至本地',
+  'toast.quickFixEmpty': '請輸入要修正的字',
+  'toast.ruleAdded': '已加入「{name}」',
+  'toast.noSelection': '請先在成果中選取要修正的文字',
+  'toast.multilineSelection': '請只選取同一行的文字',
+  'toast.historyLoadFailed': '無法讀取轉換歷史',
+  'toast.historyOpened': '已開啟歷史紀錄',
+  'toast.restorePatchesConfirm': '以當時的補丁取代目前的字典內容？未包含在紀錄中的字典會被停用。',
+  'toast.patchesRestored': '已還原當時的補丁，記得儲存',
+  'toast.deleteFailed': '刪除失敗',
+  'toast.clearFailed': '清除失敗',
+  'toast.syncTarget': '同步目標：{target}',
+  'toast.retry': '重試',
+  'toast.undo': '復原',
+  'toast.details': '詳細資訊',
+  'toast.close': '關閉',
+  'toast.conversionFailed': '轉換失敗',
+  'toast.saveFailed': '儲存失敗',
+  'toast.sessionRestoreFailed': '無法還原上次的工作階段',
+  'toast.sessionSaveFailed': '無法保存工作階段',
+  'toast.historySaveFailed': '無法寫入轉換歷史',
+  'toast.ruleRemoved': '已從「{name}」移除剛加入的規則',
+  'toast.ruleUpdated': '已更新「{name}」第 {line} 行規則，重新轉換後生效',
+  'toast.ruleMissingAdded': '「{name}」中已找不到原規則，已改為新增，重新轉換後生效',
+  'toast.ruleAddedReconvert': '已加入「{name}」，重新轉換後生效',
+  'toast.ruleAddedWithRule': '已加入「{name}」：{rule}',
+
+  // 嵌入模式
+  'embed.title': '{siteName} · 嵌入模式',
+  'embed.status': '已啟用 {dictionaries} 本字典 · 允許 {origins} 個來源',
+  'embed.noOrigins': '尚未設定允許的來源，所有請求都會被拒絕，請在後台設定。',
+  'embed.notFramed': '此頁面供其他網站以 iframe 嵌入使用，呼叫方式見 docs/embed-api.md。',
+  'embed.lastRequest': '最近的請求：{method}（{origin}）',
+
+  // 轉換變體與格式
+  'variant.cn': '簡體（中國大陸）',
+  'variant.tw': '繁體（臺灣）',
+  'variant.twp': '繁體（臺灣詞彙）',
+  'variant.hk': '繁體（香港）',
+  'variant.t': '繁體（OpenCC 標準）',
+  'variant.jp': '日本新字體',
+  'format.plain': '純文字',
+  'format.markdown': 'Markdown',
+  'format.html': 'HTML',
+  'format.srt': 'SRT 字幕',
+  'format.vtt': 'WebVTT 字幕',
+  'format.ass': 'ASS 字幕',
+
+  // 後台
+  'admin.documentTitle': '{siteName} - 後台管理',
+  'admin.title': '後台管理平台',
+  'admin.back': '返回主網站 →',
+  'admin.siteName': '網站名稱',
+  'admin.subtitle': '網站副標題',
+  'admin.translations': '其他語言的網站名稱與副標題',
+  'admin.translationsHint': '留空時沿用上方的名稱與副標題。',
+  'admin.translatedSiteName': '{locale}網站名稱',
+  'admin.translatedSubtitle': '{locale}副標題',
+  'admin.syncBackend': '補丁同步方式',
+  'admin.sync.gas.label': '雲端補丁 GAS URL (固定讀取網址)',
+  'admin.sync.gas.hint': '設定後，主程式將固定從此網址自動下載並同步補丁。',
+  'admin.sync.rest.label': 'REST API 端點',
+  'admin.sync.rest.hint': 'GET 讀取、PUT 上傳；版本衝突時回應 409。',
+  'admin.sync.webdav.label': 'WebDAV 補丁檔網址',
+  'admin.sync.webdav.hint': '檔案不存在時會於第一次上傳時建立。',
+  'admin.sync.file.label': '',
+  'admin.sync.file.hint': '不連線任何伺服器，於主程式中手動匯出與匯入補丁檔。',
+  'admin.sync.token': 'Bearer token（選填）',
+  'admin.sync.username': '帳號（選填）',
+  'admin.sync.password': '密碼',
+  'admin.icon': '自訂品牌 ICON',
+  'admin.sound': '按鈕點擊音效',
+  'admin.testSound': '▶ 測試音效',
+  'admin.save': '儲存全站設定',
+  'admin.saved': '✅ 已成功儲存全站設定！',
+  'admin.bundle.title': '📦 設定包',
+  'admin.bundle.hint': '將已儲存的網站設定與所有字典匯出為單一檔案（附校驗碼以偵測檔案損毀），可在另一台電腦匯入以複製相同環境。',
+  'admin.bundle.export': '匯出設定包',
+  'admin.bundle.import': '匯入設定包',
+  'admin.bundle.includeCredentials': '包含同步憑證（token、密碼）',
+  'admin.bundle.exported': '已匯出設定與 {count} 本字典',
+  'admin.bundle.importConfirm': '將以設定包覆寫目前的網站設定與全部字典（{count} 本），確定匯入？',
+  'admin.bundle.imported': '已匯入設定與 {count} 本字典',
+  'admin.bundle.importFailed': '匯入失敗：{message}',
+  'admin.embed.title': '🧩 嵌入與 postMessage API',
+  'admin.embed.hint': '允許以 iframe 嵌入轉換器並呼叫轉換的網頁來源，每行一個（例如 https://cms.example.com）；未列出的來源一律拒絕。',
+  'admin.embed.url': '嵌入網址：{url}',
+  'admin.embed.invalid': '以下不是有效的來源，儲存時將略過：{origins}',
+  'admin.passcode.title': '🔒 後台密碼',
+  'admin.passcode.enabled': '（已啟用）',
+  'admin.passcode.disabled': '（未設定）',
+  'admin.passcode.hint': '密碼只以加鹽雜湊保存在此瀏覽器；設定後開啟後台需先輸入密碼。',
+  'admin.passcode.new': '新密碼',
+  'admin.passcode.password': '密碼',
+  'admin.passcode.confirm': '再次輸入',
+  'admin.passcode.set': '設定密碼',
+  'admin.passcode.change': '變更密碼',
+  'admin.passcode.remove': '移除密碼',
+  'admin.passcode.tooShort': '密碼至少需要 4 個字元',
+  'admin.passcode.mismatch': '兩次輸入的密碼不一致',
+  'admin.passcode.changed': '已變更後台密碼',
+  'admin.passcode.created': '已設定後台密碼，下次開啟後台時需要輸入',
+  'admin.passcode.removeConfirm': '確定移除後台密碼？任何人都將可以修改網站設定。',
+  'admin.passcode.removed': '已移除後台密碼',
+  'activity.title': '📜 活動紀錄',
+  'activity.filter.all': '全部',
+  'activity.filter.errors': '只看錯誤',
+  'activity.clear': '全部清除',
+  'activity.clearConfirm': '確定清除全部活動紀錄？',
+  'activity.empty': '尚無紀錄',
+  'activity.kind.sync': '雲端下載',
+  'activity.kind.upload': '上傳',
+  'activity.kind.save': '儲存',
+  'activity.kind.conversion': '轉換',
+
+  // 共用
+  'list.separator': '、',
+  'common.cancel': '取消',
+  'common.delete': '刪除',
+  'configChange.unset': '未設定',
+
+  // 補丁語法錯誤
+  'parse.unclosedFlags': '標記未以「]」結束（若要以 [ 開頭請寫成 \\[）',
+  'parse.conflictingDirections': '不可同時指定 s 與 t 方向',
+  'parse.unknownFlag': '未知的規則標記「{flag}」',
+  'parse.missingSeparator': '缺少「=」分隔符號',
+  'parse.emptyOld': '規則左側不可為空',
+  'parse.emptyMatch': '正規表示式不可比對到空字串',
+  'parse.invalidRegex': '正規表示式錯誤：{message}',
+
+  // 規則檢查
+  'lint.kind.duplicate': '重複',
+  'lint.kind.conflict': '衝突',
+  'lint.kind.shadowed': '被蓋過',
+  'lint.kind.cycle': '循環',
+  'lint.kind.identity': '無作用',
+  'lint.kind.unmatchable': '不會命中',
+  'lint.duplicate': '與第 {line} 行完全相同',
+  'lint.conflict': '與第 {line} 行比對相同但替換為「{newVal}」，此行不會生效',
+  'lint.shadowed': '被第 {line} 行（{old}={newVal}）蓋過，此行不會生效',
+  'lint.cycle': '與其他規則互相替換：{path}',
+  'lint.identity': '舊字與新字相同，規則沒有作用',
+  'lint.unmatchable': 'OpenCC 會先將「{old}」轉為「{converted}」，此規則永遠不會命中',
+
+  // 同步、轉換與設定包的錯誤
+  'syncError.unauthorized': '雲端拒絕存取，請檢查驗證設定',
+  'syncError.status': '雲端回應 {status}',
+  'syncError.unrecognized': '雲端未回傳可辨識的結果，請確認端點支援版本同步',
+  'syncError.rejected': '雲端拒絕了上傳',
+  'syncError.rejectedWithReason': '雲端拒絕了上傳：{reason}',
+  'syncError.noRevision': '雲端未回傳新的版本號',
+  'syncError.noFile': '未選擇檔案',
+  'error.engineLoad': '轉換引擎載入失敗，請檢查網路連線後重試（{message}）',
+  'error.tooManyProtected': '受保護的片段過多，無法建立遮罩',
+  'error.protectedLost': '受保護的片段在轉換過程中遺失或重複，已中止以免內容損毀',
+  'error.unknownEncoding': '無法辨識檔案編碼',
+  'error.noIndexedDb': '此瀏覽器不支援 IndexedDB',
+  'error.workerCrashed': '轉換執行緒發生錯誤',
+  'admin.bundle.invalidJson': '不是有效的 JSON 檔案',
+  'admin.bundle.notBundle': '不是夢幻文字雲端轉換器的設定包',
+  'admin.bundle.tooNew': '設定包版本較新，請先更新程式',
+  'admin.bundle.checksumMismatch': '校驗碼不符，設定包可能已損毀',
+  'admin.bundle.noDictionaries': '設定包中沒有字典',
+
+  // 標示差異與一簡多繁
+  'annotated.opencc': 'OpenCC 轉換',
+  'annotated.openccSource': 'OpenCC 轉換：{from} → {to}',
+  'annotated.ruleSource': '{origin}{stage}{line}：{rule}{flags}',
+  'annotated.origin': '「{name}」',
+  'annotated.line': ' 第 {line} 行',
+  'annotated.flags': '（{flags}）',
+  'annotated.flag.toSimplified': '只轉簡體',
+  'annotated.flag.toTraditional': '只轉繁體',
+  'annotated.flag.regex': '正規表示式',
+  'annotated.flag.wholeWord': '整詞',
+  'annotated.legendRules': '補丁規則（依規則著色）',
+  'annotated.legendHint': '點擊標示處可新增或修改規則',
+  'annotated.addAsPatch': '（將新增為後置補丁）',
+  'annotated.updateRule': '更新規則',
+  'annotated.addRule': '新增規則',
+  'ambiguity.title': '⚠️ 一簡多繁待確認（{count}）',
+  'ambiguity.remember': '選擇時一併記憶為補丁',
+  'ambiguity.source': '（{source}）',
+
+  // 批次轉換
+  'batch.status.pending': '等待中',
+  'batch.status.converting': '轉換中…',
+  'batch.status.done': '完成',
+  'batch.status.error': '失敗',
+  'batch.skipped': '已略過 {count} 個不支援的檔案（僅限 {extensions}）',
+  'batch.noFiles': '請先加入檔案',
+  'batch.finished': '批次轉換完成 ✨',
+  'batch.finishedWithFailures': '批次轉換完成，{count} 個檔案失敗',
+  'batch.nothingDone': '尚無已完成的檔案',
+  'batch.drop': '拖放檔案至此，或點擊選擇',
+  'batch.dropHint': '支援 {extensions}，自動偵測 UTF-8、UTF-16、Big5、GBK 編碼；字幕與標記格式只轉換內文',
+  'batch.renameFiles': '一併轉換檔名',
+  'batch.clear': '清空清單',
+  'batch.convertAll': '全部轉換',
+  'batch.downloadZip': '📦 下載 ZIP',
+  'batch.note': '※ 使用上方選定的轉換方向與目前的補丁；輸出檔一律為 UTF-8。',
+
+  // 指令面板、字典清單與轉換歷史
+  'palette.title': '指令面板',
+  'palette.placeholder': '輸入指令，例如「同步」「字典」…',
+  'palette.empty': '找不到符合的指令',
+  'dictionary.enabledTitle': '轉換時套用此字典',
+  'dictionary.disabledTitle': '轉換時略過此字典',
+  'dictionary.pendingMerge': '有待合併的雲端版本',
+  'dictionary.add': '＋ 新增字典',
+  'dictionary.priority': '優先順序',
+  'dictionary.raise': '▲ 提高',
+  'dictionary.lower': '▼ 降低',
+  'dictionary.rename': '✏️ 重新命名',
+  'dictionary.remove': '🗑 刪除',
+  'history.label': '轉換歷史',
+  'history.title': '🕘 轉換歷史',
+  'history.clear': '全部清除',
+  'history.clearConfirm': '確定清除全部轉換歷史？',
+  'history.search': '搜尋原文或結果…',
+  'history.blank': '（空白）',
+  'history.open': '重新開啟',
+  'history.restorePatches': '還原當時的補丁（{count} 本字典）',
+  'history.noMatches': '沒有符合的紀錄',
+  'history.none': '尚無轉換紀錄',
+
+  // 合併與規則統計
+  'merge.title': '⚠️ 本地與雲端（第 {revision} 版）都有變更',
+  'merge.conflicts': '{count} 條規則需要選擇',
+  'merge.autoMerged': '其餘變更已自動合併',
+  'merge.conflictField': '{field}：{key}',
+  'merge.local': '本地',
+  'merge.remote': '雲端',
+  'merge.deleted': '（已刪除）',
+  'merge.later': '稍後處理',
+  'merge.apply': '套用合併結果',
+  'ruleStats.title': '📊 規則命中統計（累計 {conversions} 次轉換{dead}）',
+  'ruleStats.dead': '，{count} 條規則 {threshold} 次內未使用',
+  'ruleStats.thresholdBefore': '連續',
+  'ruleStats.thresholdAfter': '次適用的轉換未命中視為未使用',
+  'ruleStats.deadOnly': '只看未使用的規則',
+  'ruleStats.removeConfirm': '確定移除 {count} 條未使用的規則？',
+  'ruleStats.remove': '🧹 移除未使用的規則',
+  'ruleStats.reset': '重設統計',
+  'ruleStats.column.line': '行',
+  'ruleStats.column.rule': '規則',
+  'ruleStats.column.last': '本次',
+  'ruleStats.column.total': '累計',
+  'ruleStats.column.lastHit': '最後命中',
+  'ruleStats.notSeen': '尚未參與轉換',
+  'ruleStats.neverHit': '從未命中',
+  'ruleStats.latest': '最近一次',
+  'ruleStats.idle': '{count} 次適用的轉換前',
+  'ruleStats.empty': '沒有規則',
+
+  // 後台密碼與字典管理
+  'passcode.locked': '後台已上鎖',
+  'passcode.placeholder': '請輸入後台密碼',
+  'passcode.wrong': '密碼不正確',
+  'passcode.checking': '驗證中…',
+  'passcode.unlock': '解鎖',
+  'console.title': '字典管理',
+  'console.save': '儲存字典',
+  'console.saved': '已儲存',
+  'console.disabled': '（停用）',
+  'console.search': '搜尋舊字或新字…',
+  'console.issues': '⚠️ {count} 條規則有問題',
+  'console.noIssues': '✅ 沒有發現問題',
+  'console.syntaxErrors': '語法錯誤 {count}',
+  'console.engineUnavailable': '無法檢查「{kind}」：轉換引擎未載入',
+  'console.column.line': '行',
+  'console.column.old': '舊字',
+  'console.column.new': '新字',
+  'console.column.direction': '方向',
+  'console.column.check': '檢查',
+  'console.deletes': '（刪除）',
+  'console.noMatches': '沒有符合的規則',
+  'console.editLine': '編輯第 {line} 行',
+  'console.newRule': '新增規則',
+  'console.direction.both': '雙向',
+  'console.direction.toSimplified': '轉簡',
+  'console.direction.toTraditional': '轉繁',
+  'console.wholeWord': '整詞',
+  'console.regex': '正規表示式',
+  'console.update': '更新',
+  'console.add': '新增',
+  'console.needOld': '請輸入舊字',
+  'console.savedNote': '已儲存字典，主程式重新整理後生效',
+  'console.savedWithRemoved': '已儲存字典；「{names}」已在主程式中刪除，其變更未儲存',
+  'console.import': '匯入字典檔',
+  'console.importAuto': '自動判斷格式',
+  'console.importAppend': '附加到現有規則',
+  'console.importReplace': '取代現有規則',
+  'console.chooseFile': '選擇檔案',
+  'console.imported': '已匯入 {count} 行（{format}）{skipped}',
+  'console.importSkipped': '，略過 {count} 行無法解析的內容',
+  'console.export': '匯出{field}',
+  'console.download': '下載',
+  'console.exportSkipped': '{format} 不支援標記或特殊字元，已略過 {count} 條規則',
+  'dictionaryFormat.csv': 'CSV',
+  'dictionaryFormat.tsv': 'TSV',
+  'dictionaryFormat.opencc': 'OpenCC 字典',
+  'dictionaryFormat.patch': '補丁文字',
+};
+
+export type MessageKey = keyof typeof zhTW;
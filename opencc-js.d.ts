@@ -0,0 +1,8 @@
+/**
+ * opencc-js 未附型別宣告，這裡只宣告本專案用到的部分
+ */
+declare module 'opencc-js' {
+  export type Locale = 'cn' | 'tw' | 'twp' | 'hk' | 'jp' | 't';
+
+  export function Converter(options: { from: Locale; to: Locale }): (text: string) => string;
+}
@@ -0,0 +1,91 @@
+/**
+ * Service Worker：預先快取建置輸出的所有檔案（含 OpenCC 引擎與字典），
+ * 讓主頁與後台在離線時都能開啟並完成轉換。
+ * 檔案清單與版本由建置時產生的 sw-manifest.js 提供；清單變動時瀏覽器會自動更新此 Worker。
+ */
+importScripts('./sw-manifest.js');
+
+const { version, files } = self.__PRECACHE_MANIFEST;
+const PRECACHE = `dream-cloud-precache-${version}`;
+const RUNTIME = 'dream-cloud-runtime';
+
+// 頁面仍由 CDN 載入的樣式與字型；只快取這些網域，雲端同步的請求一律直接走網路
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CDN_ASSETS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Noto+Sans+TC:wght@300;400;500;700&display=swap',
+];
+
+const STATIC_FILES = ['manifest.webmanifest', 'admin.webmanifest', 'icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(PRECACHE);
+      await cache.addAll([...files, ...STATIC_FILES]);
+      // CDN 資源無法以 CORS 取得，存下不透明回應；取得失敗不影響安裝
+      const runtime = await caches.open(RUNTIME);
+      await Promise.all(
+        CDN_ASSETS.map(url =>
+          fetch(url, { mode: 'no-cors' })
+            .then(response => runtime.put(url, response))
+            .catch(() => {})
+        )
+      );
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter(key => key !== PRECACHE && key !== RUNTIME).map(key => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// 頁面導覽：優先取得最新版本，離線時改用快取中的對應頁面
+const handleNavigation = async request => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(PRECACHE);
+    const path = new URL(request.url).pathname;
+    const page = path.endsWith('/admin.html') || path.endsWith('/admin') ? 'admin.html' : 'index.html';
+    return (await cache.match(request, { ignoreSearch: true })) || (await cache.match(page));
+  }
+};
+
+// CDN 資源：先回傳快取，同時在背景更新
+const handleCdn = async (request, event) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const update = fetch(request)
+    .then(response => {
+      cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  if (cached) {
+    event.waitUntil(update);
+    return cached;
+  }
+  return update;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleCdn(request, event));
+  }
+});
@@ -0,0 +1,86 @@
+// 夢幻文字雲端轉換器的 Google Apps Script 同步端點（版本同步協定，說明見 docs/sync.md）
+// 部署：在 Apps Script 建立專案並貼上本檔，「部署 → 新增部署作業 → 網頁應用程式」，
+// 執行身分選「我」，存取權選「任何人」，再把網址填入後台的同步設定。
+//
+// 每個字典的補丁存成雲端硬碟資料夾中的一個 JSON 檔：
+//   { revision, patches, prePatches, protectedTerms }
+// 上傳時比對 baseRevision，雲端已有更新版本時回傳衝突與雲端內容，不會覆蓋。
+
+var FOLDER_NAME = 'dream-cloud-patches';
+var DEFAULT_DICTIONARY = 'default';
+
+function doGet(e) {
+  return json_(readState_(dictionaryOf_(e)));
+}
+
+function doPost(e) {
+  var payload;
+  try {
+    payload = JSON.parse(e.postData.contents);
+  } catch (err) {
+    return json_({ ok: false, error: 'invalid json' });
+  }
+  if (payload.action !== 'push') return json_({ ok: false, error: 'unknown action' });
+
+  var lock = LockService.getScriptLock();
+  lock.waitLock(10000);
+  try {
+    var dictionary = dictionaryOf_(e);
+    var state = readState_(dictionary);
+    if (payload.baseRevision !== state.revision) {
+      return json_({ ok: false, conflict: true, remote: state });
+    }
+    var next = {
+      revision: state.revision + 1,
+      patches: text_(payload.patches),
+      prePatches: text_(payload.prePatches),
+      protectedTerms: text_(payload.protectedTerms),
+    };
+    writeState_(dictionary, next);
+    return json_({ ok: true, revision: next.revision });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function dictionaryOf_(e) {
+  var id = e && e.parameter && e.parameter.dictionary;
+  return id ? String(id).replace(/[^\w-]/g, '_') : DEFAULT_DICTIONARY;
+}
+
+function text_(value) {
+  return typeof value === 'string' ? value : '';
+}
+
+function folder_() {
+  var folders = DriveApp.getFoldersByName(FOLDER_NAME);
+  return folders.hasNext() ? folders.next() : DriveApp.createFolder(FOLDER_NAME);
+}
+
+function file_(dictionary) {
+  var files = folder_().getFilesByName(dictionary + '.json');
+  return files.hasNext() ? files.next() : null;
+}
+
+function readState_(dictionary) {
+  var file = file_(dictionary);
+  var state = { revision: 0, patches: '', prePatches: '', protectedTerms: '' };
+  if (!file) return state;
+  var data = JSON.parse(file.getBlob().getDataAsString('UTF-8'));
+  state.revision = typeof data.revision === 'number' ? data.revision : 0;
+  state.patches = text_(data.patches);
+  state.prePatches = text_(data.prePatches);
+  state.protectedTerms = text_(data.protectedTerms);
+  return state;
+}
+
+function writeState_(dictionary, state) {
+  var content = JSON.stringify(state);
+  var file = file_(dictionary);
+  if (file) file.setContent(content);
+  else folder_().createFile(dictionary + '.json', content, 'application/json');
+}
+
+function json_(data) {
+  return ContentService.createTextOutput(JSON.stringify(data)).setMimeType(ContentService.MimeType.JSON);
+}
@@ -0,0 +1,127 @@
+// 本地測試用的同步伺服器：以相同協定模擬各個同步後端（資料只存在記憶體中）
+// 用法：npm run mock-sync，然後在後台設定
+//   GAS     http://localhost:8787/
+//   REST    http://localhost:8787/rest   （Bearer token 預設為 dev-token，可用 MOCK_TOKEN 變更）
+//   WebDAV  http://localhost:8787/dav/patches.json（設定 MOCK_DAV_USER / MOCK_DAV_PASS 後需 Basic 驗證）
+// GAS 與 REST 依 ?dictionary= 參數分別保存各字典的版本
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.MOCK_TOKEN ?? 'dev-token';
+const DAV_USER = process.env.MOCK_DAV_USER;
+const DAV_PASS = process.env.MOCK_DAV_PASS ?? '';
+
+const EMPTY = { revision: 0, patches: '', prePatches: '', protectedTerms: '' };
+const gasStates = new Map();
+const restStates = new Map();
+const davFiles = new Map();
+let etagCounter = 0;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...CORS_HEADERS, ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let data = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const parseJson = text => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const text = value => (typeof value === 'string' ? value : '');
+
+const nextState = (state, payload) => ({
+  revision: state.revision + 1,
+  patches: text(payload.patches),
+  prePatches: text(payload.prePatches),
+  protectedTerms: text(payload.protectedTerms),
+});
+
+const handleGas = async (req, res, dictionary) => {
+  const gasState = gasStates.get(dictionary) ?? EMPTY;
+  if (req.method === 'GET') return send(res, 200, gasState);
+  if (req.method !== 'POST') return send(res, 405, { ok: false, error: 'method not allowed' });
+
+  const payload = parseJson(await readBody(req));
+  if (!payload) return send(res, 400, { ok: false, error: 'invalid json' });
+  if (payload.action !== 'push') return send(res, 400, { ok: false, error: 'unknown action' });
+  if (payload.baseRevision !== gasState.revision) {
+    console.log(`[gas] conflict: base ${payload.baseRevision}, current ${gasState.revision}`);
+    return send(res, 200, { ok: false, conflict: true, remote: gasState });
+  }
+  const next = nextState(gasState, payload);
+  gasStates.set(dictionary, next);
+  console.log(`[gas] ${dictionary} accepted revision ${next.revision}`);
+  send(res, 200, { ok: true, revision: next.revision });
+};
+
+const handleRest = async (req, res, dictionary) => {
+  const restState = restStates.get(dictionary) ?? EMPTY;
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'unauthorized' });
+  if (req.method === 'GET') return send(res, 200, restState);
+  if (req.method !== 'PUT') return send(res, 405, { error: 'method not allowed' });
+
+  const payload = parseJson(await readBody(req));
+  if (!payload) return send(res, 400, { error: 'invalid json' });
+  if (payload.baseRevision !== restState.revision) {
+    console.log(`[rest] conflict: base ${payload.baseRevision}, current ${restState.revision}`);
+    return send(res, 409, restState);
+  }
+  const next = nextState(restState, payload);
+  restStates.set(dictionary, next);
+  console.log(`[rest] ${dictionary} accepted revision ${next.revision}`);
+  send(res, 200, { revision: next.revision });
+};
+
+const handleDav = async (req, res, path) => {
+  if (DAV_USER) {
+    const expected = `Basic ${Buffer.from(`${DAV_USER}:${DAV_PASS}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) return send(res, 401, undefined, { 'WWW-Authenticate': 'Basic realm="mock"' });
+  }
+  const file = davFiles.get(path);
+  if (req.method === 'GET') {
+    if (!file) return send(res, 404);
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', ETag: file.etag, ...CORS_HEADERS });
+    return res.end(file.body);
+  }
+  if (req.method !== 'PUT') return send(res, 405);
+
+  const ifMatch = req.headers['if-match'];
+  const ifNoneMatch = req.headers['if-none-match'];
+  if ((ifMatch && ifMatch !== file?.etag) || (ifNoneMatch === '*' && file)) {
+    console.log(`[dav] precondition failed for ${path}`);
+    return send(res, 412);
+  }
+  const etag = `"${++etagCounter}"`;
+  davFiles.set(path, { body: await readBody(req), etag });
+  console.log(`[dav] wrote ${path} ${etag}`);
+  send(res, file ? 204 : 201, undefined, { ETag: etag });
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const { pathname: path, searchParams } = new URL(req.url, 'http://localhost');
+  const dictionary = searchParams.get('dictionary') ?? 'default';
+  if (path === '/rest') return handleRest(req, res, dictionary);
+  if (path.startsWith('/dav/')) return handleDav(req, res, path);
+  return handleGas(req, res, dictionary);
+});
+
+server.listen(PORT, () => console.log(`mock sync server on http://localhost:${PORT}`));
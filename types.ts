@@ -1,13 +1,146 @@
 
+import type { Message } from './utils/messages';
+
 export interface PatchRule {
   old: string;
   newVal: string;
+  /** 只在指定方向套用；未設定時兩個方向都套用 */
+  direction?: ConversionType;
+  /** old 為正規表示式，newVal 可引用擷取群組 */
+  isRegex?: boolean;
+  /** 整詞比對：前後相鄰字元不可與端點同類 */
+  wholeWord?: boolean;
+  /** 規則在補丁清單中的行號（從 1 起算） */
+  line?: number;
+  /** 規則所屬的字典（由多個字典合併時才會設定） */
+  dictionary?: { id: string; name: string };
+}
+
+export interface PatchParseError extends Message {
+  line: number;
+  /** 來源語言的錯誤說明（介面以 key 翻譯） */
+  message: string;
+}
+
+/**
+ * 輸入文字的格式；非純文字時只轉換給人閱讀的文字，結構原樣保留
+ */
+export type TextFormat = 'plain' | 'markdown' | 'html' | 'srt' | 'vtt' | 'ass';
+
+/**
+ * 完整轉換流程的設定：保護詞 → 前置規則 → OpenCC → 後置補丁 → 還原保護詞
+ */
+export interface ConversionOptions {
+  rules?: PatchRule[];
+  preRules?: PatchRule[];
+  protectedTerms?: string[];
+  /** 'auto' 會依內容自動判斷格式；未指定時視為純文字 */
+  format?: TextFormat | 'auto';
+}
+
+/**
+ * 變更來源：OpenCC 轉換，或前置／後置階段的某條補丁規則
+ */
+export type ChangeSource =
+  | { kind: 'opencc' }
+  | { kind: 'rule'; stage: 'pre' | 'post'; rule: PatchRule };
+
+/**
+ * 輸出文字中 [start, end) 的一段變更；from 為該階段被替換前的文字
+ */
+export interface ChangeSpan {
+  start: number;
+  end: number;
+  from: string;
+  source: ChangeSource;
+}
+
+/**
+ * 單次轉換中某條規則的命中次數
+ */
+export interface RuleHit {
+  rule: PatchRule;
+  stage: 'pre' | 'post';
+  count: number;
+}
+
+export interface ConversionResult {
+  text: string;
+  spans: ChangeSpan[];
+  /** 有命中的規則與次數 */
+  hits: RuleHit[];
+  /** 輸出中由保護詞與格式結構還原的範圍（未經轉換與補丁，依位置排序） */
+  masked?: Array<[number, number]>;
+}
+
+/**
+ * 一簡對多繁的待確認位置：輸出 [start, end) 由簡體字 source 轉成 current
+ */
+export interface Ambiguity {
+  start: number;
+  end: number;
+  source: string;
+  current: string;
+  options: string[];
+}
+
+/**
+ * 一組可同步的補丁設定（後置補丁、前置規則與保護詞，皆為原始文字）
+ */
+export interface PatchSet {
+  patches: string;
+  prePatches: string;
+  protectedTerms: string;
+}
+
+/**
+ * 命名字典：各自擁有一組補丁設定，可個別啟用、排序與同步。
+ * 字典清單的順序即優先順序，排在前面的字典優先套用。
+ */
+export interface PatchDictionary extends PatchSet {
+  id: string;
+  name: string;
+  enabled: boolean;
+}
+
+/**
+ * 雲端上某個版本的補丁設定；revision 由伺服器遞增，hash 為內容雜湊
+ */
+export interface PatchSnapshot {
+  revision: number;
+  hash: string;
+  patchSet: PatchSet;
+}
+
+export interface ToastAction {
+  label: string;
+  run: () => void;
 }
 
 export interface ToastMessage {
   id: number;
   type: 'success' | 'error' | 'info';
   message: string;
+  /** 可展開的詳細內容（例如錯誤原因與同步來源） */
+  details?: string;
+  /** 操作按鈕；按下後提示隨即關閉 */
+  actions?: ToastAction[];
+  /** 不自動消失；錯誤預設為 true */
+  sticky?: boolean;
+}
+
+/**
+ * 活動紀錄：同步、上傳、儲存與轉換失敗等事件，跨工作階段保存
+ */
+export type ActivityKind = 'sync' | 'upload' | 'save' | 'conversion';
+
+export interface ActivityEntry {
+  id: number;
+  at: number;
+  kind: ActivityKind;
+  level: ToastMessage['type'];
+  message: string;
+  details?: string;
 }
 
 export enum ConversionType {
@@ -15,10 +148,76 @@ export enum ConversionType {
   TO_TRADITIONAL = 'TO_TRADITIONAL'
 }
 
+/**
+ * OpenCC 支援的地區與詞彙變體
+ * cn: 簡體（中國大陸）、tw: 繁體（臺灣）、twp: 繁體（臺灣，含詞彙轉換）、
+ * hk: 繁體（香港）、t: 繁體（OpenCC 標準）、jp: 日本新字體
+ */
+export type ChineseVariant = 'cn' | 'tw' | 'twp' | 'hk' | 't' | 'jp';
+
+export interface ConversionPair {
+  from: ChineseVariant;
+  to: ChineseVariant;
+}
+
+/**
+ * 雲端同步後端：Google Apps Script、JSON REST API、WebDAV 或手動匯出/匯入檔案
+ */
+export type SyncBackendKind = 'gas' | 'rest' | 'webdav' | 'file';
+
+export interface SyncSettings {
+  backend: SyncBackendKind;
+  /** GAS / REST 端點網址，或 WebDAV 上補丁檔的網址 */
+  url: string;
+  /** REST API 的 Bearer token */
+  token?: string;
+  /** WebDAV 的 Basic 驗證帳號密碼 */
+  username?: string;
+  password?: string;
+}
+
+/**
+ * 介面語言；zh-TW 為來源語言
+ */
+export type Locale = 'zh-TW' | 'zh-CN' | 'en';
+
+export interface SiteText {
+  siteName?: string;
+  subtitle?: string;
+}
+
 export interface SiteConfig {
   siteName: string;
   subtitle: string;
+  /** 其他語言的網站名稱與副標題；未填時沿用 siteName 與 subtitle */
+  translations: Partial<Record<Locale, SiteText>>;
   customIcon: string | null;
   clickSound: string | null;
-  gasUrl: string | null;
+  /** 未設定雲端同步時為 null */
+  sync: SyncSettings | null;
+  /** 允許以 iframe 嵌入並透過 postMessage 呼叫轉換的網頁來源（例如 https://cms.example.com） */
+  embedOrigins: string[];
+}
+
+/**
+ * 目前的工作內容，重新整理後自動還原
+ */
+export interface WorkingSession {
+  inputText: string;
+  outputText: string;
+  pair: ConversionPair;
+  format: TextFormat | 'auto';
+}
+
+/**
+ * 一筆轉換歷史；dictionaries 為轉換當時啟用中字典的快照
+ */
+export interface HistoryEntry {
+  id: number;
+  createdAt: number;
+  pair: ConversionPair;
+  format: TextFormat | 'auto';
+  input: string;
+  output: string;
+  dictionaries: PatchDictionary[];
 }
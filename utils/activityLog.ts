@@ -0,0 +1,35 @@
+import { ActivityEntry } from '../types';
+
+/**
+ * 活動紀錄保存於 localStorage，只保留最近的 MAX_ENTRIES 筆（新的在前）
+ */
+
+const STORAGE_KEY = 'dream_cloud_activity_log';
+const MAX_ENTRIES = 200;
+
+export const loadActivityLog = (): ActivityEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(data)) return data.filter(e => e && typeof e.message === 'string' && typeof e.at === 'number');
+  } catch {
+    // 損壞的紀錄直接重新開始
+  }
+  return [];
+};
+
+export const saveActivityLog = (log: ActivityEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (err) {
+    // 儲存空間已滿時不影響主要功能
+    console.warn('無法保存活動紀錄', err);
+  }
+};
+
+/**
+ * 新增一筆紀錄並回傳新的清單
+ */
+export const appendActivity = (log: ActivityEntry[], entry: Omit<ActivityEntry, 'id' | 'at'>): ActivityEntry[] => {
+  const at = Date.now();
+  return [{ ...entry, id: at + Math.random(), at }, ...log].slice(0, MAX_ENTRIES);
+};
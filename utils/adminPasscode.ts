@@ -0,0 +1,71 @@
+/**
+ * 後台密碼：只以 PBKDF2（SHA-256、隨機鹽）雜湊後的結果存放，從不保存明文。
+ * 驗證成功後在本分頁的 sessionStorage 記下雜湊，重新整理不必再輸入；密碼變更後舊的解鎖即失效。
+ */
+
+interface StoredPasscode {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+const STORAGE_KEY = 'dream_cloud_admin_passcode';
+const SESSION_KEY = 'dream_cloud_admin_unlocked';
+const ITERATIONS = 210000;
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(h => parseInt(h, 16)));
+
+const derive = async (passcode: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+const loadStored = (): StoredPasscode | null => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (data && typeof data.salt === 'string' && typeof data.hash === 'string' && typeof data.iterations === 'number') return data;
+  } catch {
+    // 損壞的紀錄視為未設定密碼
+  }
+  return null;
+};
+
+export const hasPasscode = (): boolean => loadStored() !== null;
+
+/**
+ * 本分頁是否已解鎖（未設定密碼時視為已解鎖）
+ */
+export const isUnlocked = (): boolean => {
+  const stored = loadStored();
+  return !stored || sessionStorage.getItem(SESSION_KEY) === stored.hash;
+};
+
+/**
+ * 比對密碼；正確時同時解鎖本分頁
+ */
+export const verifyPasscode = async (passcode: string): Promise<boolean> => {
+  const stored = loadStored();
+  if (!stored) return true;
+  const hash = await derive(passcode, fromHex(stored.salt), stored.iterations);
+  if (hash !== stored.hash) return false;
+  sessionStorage.setItem(SESSION_KEY, hash);
+  return true;
+};
+
+/**
+ * 設定或變更密碼，並讓目前分頁維持解鎖
+ */
+export const setPasscode = async (passcode: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(passcode, salt, ITERATIONS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ salt: toHex(salt), hash, iterations: ITERATIONS } satisfies StoredPasscode));
+  sessionStorage.setItem(SESSION_KEY, hash);
+};
+
+export const clearPasscode = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  sessionStorage.removeItem(SESSION_KEY);
+};
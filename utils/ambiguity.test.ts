@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionResult } from '../types';
+import { findAmbiguities } from './ambiguity';
+import { parsePatchText } from './patchParser';
+
+const [rule] = parsePatchText('头发=頭髮').rules;
+
+describe('findAmbiguities', () => {
+  it('依轉換前的字標示 OpenCC 轉換過的字', () => {
+    const result: ConversionResult = {
+      text: '以後',
+      spans: [{ start: 1, end: 2, from: '后', source: { kind: 'opencc' } }],
+      hits: [],
+    };
+    expect(findAmbiguities(result)).toEqual([
+      { start: 1, end: 2, source: '后', current: '後', options: ['後', '后'] },
+    ]);
+  });
+
+  it('OpenCC 保留原樣的字也標示', () => {
+    const result: ConversionResult = { text: '皇后與松樹', spans: [{ start: 4, end: 5, from: '树', source: { kind: 'opencc' } }], hits: [] };
+    expect(findAmbiguities(result).map(a => [a.start, a.current])).toEqual([[1, '后'], [3, '松']]);
+  });
+
+  it('略過補丁規則的片段與保護範圍', () => {
+    const result: ConversionResult = {
+      text: '頭髮只有',
+      spans: [{ start: 0, end: 2, from: '头发', source: { kind: 'rule', stage: 'post', rule } }],
+      hits: [],
+      masked: [[2, 3]],
+    };
+    expect(findAmbiguities(result).map(a => a.current)).toEqual([]);
+  });
+});
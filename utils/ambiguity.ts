@@ -0,0 +1,57 @@
+import { Ambiguity, ConversionResult, ConversionType } from '../types';
+import { AMBIGUOUS_TRADITIONAL } from './ambiguousChars';
+import { formatPatchRule } from './patchParser';
+
+const isHan = (ch: string | undefined): boolean => !!ch && /\p{Script=Han}/u.test(ch);
+
+/**
+ * 找出簡轉繁結果中來源字有多種繁體寫法的位置。
+ * OpenCC 轉換過的字依其轉換前的字判斷，OpenCC 保留原樣的字（例如「皇后」的「后」）也可能是錯誤的預設寫法，一併標示；
+ * 已由補丁規則決定的片段，以及保護詞與格式結構（程式碼、網址、標記等）都不標示。
+ */
+export const findAmbiguities = ({ text, spans, masked = [] }: ConversionResult): Ambiguity[] => {
+  const result: Ambiguity[] = [];
+  let si = 0;
+  let mi = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    while (mi < masked.length && masked[mi][1] <= i) mi++;
+    if (mi < masked.length && masked[mi][0] <= i) continue;
+    while (si < spans.length && spans[si].end <= i) si++;
+
+    let source = text[i];
+    const span = si < spans.length && spans[si].start <= i ? spans[si] : null;
+    if (span) {
+      // 補丁規則的片段與長度改變、無法逐字對應的轉換都不標示
+      if (span.source.kind !== 'opencc' || span.from.length !== span.end - span.start) continue;
+      source = span.from[i - span.start];
+    }
+    const options = AMBIGUOUS_TRADITIONAL[source];
+    if (!options) continue;
+    const current = text[i];
+    result.push({
+      start: i,
+      end: i + 1,
+      source,
+      current,
+      options: options.includes(current) ? options : [current, ...options],
+    });
+  }
+  return result;
+};
+
+/**
+ * 由選定的寫法組出帶上下文的補丁規則（只在轉為繁體時套用）。
+ * 以前一個漢字為上下文，沒有時改用後一個漢字，兩者皆無則直接替換該字。
+ */
+export const buildContextRule = (text: string, ambiguity: Ambiguity, choice: string): string => {
+  const { start, end, current } = ambiguity;
+  const before = text[start - 1];
+  const after = text[end];
+  const [old, newVal] = isHan(before)
+    ? [before + current, before + choice]
+    : isHan(after)
+      ? [current + after, choice + after]
+      : [current, choice];
+  return formatPatchRule(old, newVal, { direction: ConversionType.TO_TRADITIONAL });
+};
@@ -0,0 +1,86 @@
+/**
+ * 常見的「一簡對多繁」字表：簡體字 → 可能的繁體寫法（第一個為 OpenCC 的預設選擇）。
+ * OpenCC.js 內建字典只保留單一候選，因此另行整理常被轉錯的字；
+ * 刻意略去「了、才、出」這類另一寫法極少見、標示後只會造成干擾的字。
+ */
+export const AMBIGUOUS_TRADITIONAL: Record<string, string[]> = {
+  '发': ['發', '髮'],
+  '干': ['幹', '乾', '干'],
+  '后': ['後', '后'],
+  '面': ['面', '麵'],
+  '里': ['裡', '裏', '里'],
+  '台': ['臺', '台', '颱', '檯'],
+  '系': ['系', '係', '繫'],
+  '松': ['松', '鬆'],
+  '只': ['只', '隻'],
+  '复': ['復', '複', '覆'],
+  '历': ['歷', '曆'],
+  '钟': ['鍾', '鐘'],
+  '范': ['範', '范'],
+  '冲': ['衝', '沖'],
+  '制': ['制', '製'],
+  '准': ['準', '准'],
+  '余': ['餘', '余'],
+  '谷': ['谷', '穀'],
+  '征': ['徵', '征'],
+  '丑': ['醜', '丑'],
+  '于': ['於', '于'],
+  '斗': ['鬥', '斗'],
+  '云': ['雲', '云'],
+  '舍': ['舍', '捨'],
+  '卷': ['卷', '捲'],
+  '尽': ['盡', '儘'],
+  '汇': ['匯', '彙'],
+  '获': ['獲', '穫'],
+  '几': ['幾', '几'],
+  '蒙': ['蒙', '矇', '濛', '懞'],
+  '签': ['籤', '簽'],
+  '折': ['折', '摺'],
+  '郁': ['鬱', '郁'],
+  '游': ['遊', '游'],
+  '板': ['板', '闆'],
+  '表': ['表', '錶'],
+  '布': ['布', '佈'],
+  '当': ['當', '噹'],
+  '党': ['黨', '党'],
+  '吊': ['吊', '弔'],
+  '朴': ['樸', '朴'],
+  '仆': ['僕', '仆'],
+  '困': ['困', '睏'],
+  '腊': ['臘', '腊'],
+  '伙': ['夥', '伙'],
+  '划': ['劃', '划'],
+  '坛': ['壇', '罈'],
+  '叹': ['嘆', '歎'],
+  '咸': ['鹹', '咸'],
+  '凶': ['兇', '凶'],
+  '须': ['須', '鬚'],
+  '岩': ['巖', '岩'],
+  '叶': ['葉', '叶'],
+  '愿': ['願', '愿'],
+  '占': ['佔', '占'],
+  '庄': ['莊', '庄'],
+  '别': ['別', '彆'],
+  '参': ['參', '蔘'],
+  '尝': ['嘗', '嚐'],
+  '辟': ['闢', '辟'],
+  '价': ['價', '价'],
+  '姜': ['姜', '薑'],
+  '据': ['據', '据'],
+  '帘': ['簾', '帘'],
+  '恶': ['惡', '噁'],
+  '御': ['御', '禦'],
+  '脏': ['髒', '臟'],
+  '症': ['症', '癥'],
+  '术': ['術', '朮'],
+  '沈': ['沈', '瀋'],
+  '涂': ['塗', '涂'],
+  '团': ['團', '糰'],
+  '托': ['託', '托'],
+  '喂': ['喂', '餵'],
+  '饥': ['飢', '饑'],
+  '荡': ['蕩', '盪'],
+  '扎': ['扎', '紮'],
+  '尸': ['屍', '尸'],
+  '苏': ['蘇', '甦'],
+};
@@ -0,0 +1,138 @@
+import { ChangeSource, ChangeSpan } from '../types';
+
+/**
+ * 單一文字編輯：將目前文字的 [start, end) 換成 text。
+ * source 為此編輯的來源；weak 表示若該範圍已有先前的變更標記，沿用舊標記而不覆蓋。
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+  source?: ChangeSource;
+  weak?: boolean;
+}
+
+export interface AnnotatedText {
+  text: string;
+  spans: ChangeSpan[];
+}
+
+/**
+ * 套用一組依位置排序、互不重疊的編輯，並同步更新既有的變更標記位置
+ */
+export const applyEdits = ({ text, spans }: AnnotatedText, edits: TextEdit[]): AnnotatedText => {
+  if (edits.length === 0) return { text, spans };
+
+  let out = '';
+  const outSpans: ChangeSpan[] = [];
+  const origins: ChangeSpan[] = [];
+  let cursor = 0;
+  let si = 0;
+
+  // 將舊標記的一段放到輸出位置，與同一標記相鄰的片段合併
+  const pushPiece = (origin: ChangeSpan, start: number, end: number) => {
+    const last = outSpans.length - 1;
+    if (last >= 0 && origins[last] === origin && outSpans[last].end === start) {
+      outSpans[last] = { ...outSpans[last], end };
+      return;
+    }
+    outSpans.push({ ...origin, start, end });
+    origins.push(origin);
+  };
+
+  // 區段 [a, b) 內的舊標記；長度為零的標記以位置判斷，文字結尾的標記歸入最後一段
+  const overlapping = (a: number, b: number): ChangeSpan[] => {
+    while (si < spans.length && spans[si].end < a) si++;
+    const result: ChangeSpan[] = [];
+    for (let j = si; j < spans.length && spans[j].start <= b; j++) {
+      const s = spans[j];
+      const inside = s.start === s.end
+        ? s.start >= a && (s.start < b || (s.start === b && b === text.length))
+        : s.start < b && s.end > a;
+      if (inside) result.push(s);
+    }
+    return result;
+  };
+
+  // 未變動的區段：舊標記只需平移
+  const carry = (a: number, b: number) => {
+    const shift = out.length - a;
+    for (const s of overlapping(a, b)) {
+      pushPiece(s, Math.max(s.start, a) + shift, Math.min(s.end, b) + shift);
+    }
+    out += text.slice(a, b);
+  };
+
+  for (const edit of edits) {
+    carry(cursor, edit.start);
+    const covered = edit.start < edit.end ? overlapping(edit.start, edit.end) : [];
+    const outStart = out.length;
+    const outEnd = outStart + edit.text.length;
+    const from = text.slice(edit.start, edit.end);
+    const changed = from !== edit.text;
+
+    if (edit.source && changed && !(edit.weak && covered.length > 0)) {
+      outSpans.push({ start: outStart, end: outEnd, from, source: edit.source });
+      origins.push(outSpans[outSpans.length - 1]);
+    } else if (covered.length > 0) {
+      pushPiece(covered[0], outStart, outEnd);
+    }
+
+    out += edit.text;
+    cursor = edit.end;
+  }
+  carry(cursor, text.length);
+
+  return { text: out, spans: outSpans };
+};
+
+/**
+ * 比對 OpenCC 轉換前後的文字，產生逐段的編輯。
+ * OpenCC 不會跨行轉換，因此逐行比對：等長的行逐字找出差異區段，
+ * 不等長的行則去除共同前後綴後視為一段變更。
+ */
+export const diffConversion = (before: string, after: string, source: ChangeSource): TextEdit[] => {
+  const edits: TextEdit[] = [];
+
+  const diffRange = (a: string, b: string, offset: number) => {
+    if (a === b) return;
+    if (a.length === b.length) {
+      let i = 0;
+      while (i < a.length) {
+        if (a[i] === b[i]) { i++; continue; }
+        const start = i;
+        while (i < a.length && a[i] !== b[i]) i++;
+        edits.push({ start: offset + start, end: offset + i, text: b.slice(start, i), source, weak: true });
+      }
+      return;
+    }
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix && suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+    edits.push({
+      start: offset + prefix,
+      end: offset + a.length - suffix,
+      text: b.slice(prefix, b.length - suffix),
+      source,
+      weak: true,
+    });
+  };
+
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  if (beforeLines.length !== afterLines.length) {
+    diffRange(before, after, 0);
+    return edits;
+  }
+
+  let offset = 0;
+  beforeLines.forEach((line, i) => {
+    diffRange(line, afterLines[i], offset);
+    offset += line.length + 1;
+  });
+  return edits;
+};
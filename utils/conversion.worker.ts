@@ -0,0 +1,55 @@
+import { ConversionOptions, ConversionPair, ConversionResult, TextFormat } from '../types';
+import { convertWithChanges } from './converter';
+import { LocalizedError, MessageParams } from './messages';
+import { MessageKey } from '../locales/zh-TW';
+
+/**
+ * 轉換用 Web Worker：在背景執行緒執行完整轉換流程（含 OpenCC 引擎載入），
+ * 避免長篇文字凍結畫面。補丁只在變更時才由主執行緒送來，比對器因此可沿用快取。
+ */
+
+export type WorkerPatches = Required<Pick<ConversionOptions, 'rules' | 'preRules' | 'protectedTerms'>>;
+
+export type WorkerRequest =
+  | { type: 'patches'; patches: WorkerPatches }
+  | { type: 'convert'; id: number; text: string; pair: ConversionPair; format: TextFormat | 'auto' }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; result: ConversionResult }
+  | { type: 'error'; id: number; message: string; key?: MessageKey; params?: MessageParams; aborted: boolean };
+
+let patches: WorkerPatches = { rules: [], preRules: [], protectedTerms: [] };
+const running = new Map<number, AbortController>();
+
+const reply = (message: WorkerResponse) => self.postMessage(message);
+
+const convert = async ({ id, text, pair, format }: Extract<WorkerRequest, { type: 'convert' }>) => {
+  const controller = new AbortController();
+  running.set(id, controller);
+  // 以送出時的補丁為準，之後才送達的補丁不影響這次轉換
+  const options = { ...patches, format };
+  try {
+    const result = await convertWithChanges(text, pair, options, {
+      signal: controller.signal,
+      onProgress: progress => reply({ type: 'progress', id, progress }),
+    });
+    reply({ type: 'done', id, result });
+  } catch (err) {
+    const aborted = controller.signal.aborted;
+    const message = err instanceof Error ? err.message : String(err);
+    // 帶有訊息鍵的錯誤一併送回鍵與參數，主執行緒才能以目前語言顯示
+    const localized = err instanceof LocalizedError ? { key: err.key, params: err.params } : {};
+    reply({ type: 'error', id, message, ...localized, aborted });
+  } finally {
+    running.delete(id);
+  }
+};
+
+self.addEventListener('message', (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  if (message.type === 'patches') patches = message.patches;
+  else if (message.type === 'convert') convert(message);
+  else running.get(message.id)?.abort();
+});
@@ -0,0 +1,94 @@
+import { ConversionOptions, ConversionPair, ConversionResult } from '../types';
+import { ConversionControl, convertWithChanges } from './converter';
+import { LocalizedError } from './messages';
+import type { WorkerPatches, WorkerRequest, WorkerResponse } from './conversion.worker';
+
+/**
+ * 主執行緒端的轉換介面：把工作交給共用的 Web Worker，並轉接進度與取消。
+ * 不支援 Worker 的環境直接在主執行緒執行同一套流程。
+ */
+
+interface PendingConversion {
+  resolve: (result: ConversionResult) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let sentPatches: WorkerPatches | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingConversion>();
+
+const settle = (id: number) => {
+  const entry = pending.get(id);
+  pending.delete(id);
+  return entry;
+};
+
+const handleMessage = (e: MessageEvent<WorkerResponse>) => {
+  const message = e.data;
+  if (message.type === 'progress') {
+    pending.get(message.id)?.onProgress?.(message.progress);
+  } else if (message.type === 'done') {
+    settle(message.id)?.resolve(message.result);
+  } else if (!message.aborted) {
+    settle(message.id)?.reject(message.key ? new LocalizedError(message.key, message.params) : new Error(message.message));
+  }
+};
+
+// Worker 本身載入失敗時，讓所有等待中的轉換失敗，下次再重新建立
+const handleCrash = (e: ErrorEvent) => {
+  const error = e.message ? new Error(e.message) : new LocalizedError('error.workerCrashed');
+  for (const id of [...pending.keys()]) settle(id)?.reject(error);
+  worker?.terminate();
+  worker = null;
+  sentPatches = null;
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleCrash);
+  }
+  return worker;
+};
+
+const post = (message: WorkerRequest) => getWorker().postMessage(message);
+
+// 補丁陣列沒變就不重送，Worker 端的比對器快取才能持續生效
+const syncPatches = ({ rules = [], preRules = [], protectedTerms = [] }: ConversionOptions) => {
+  if (
+    sentPatches &&
+    sentPatches.rules === rules &&
+    sentPatches.preRules === preRules &&
+    sentPatches.protectedTerms === protectedTerms
+  ) return;
+  sentPatches = { rules, preRules, protectedTerms };
+  post({ type: 'patches', patches: sentPatches });
+};
+
+/**
+ * 在背景執行緒完成整個轉換流程（與 convertWithChanges 相同），取消時以 signal 的原因拒絕
+ */
+export const convertInWorker = (
+  text: string,
+  pair: ConversionPair,
+  options: ConversionOptions = {},
+  { onProgress, signal }: ConversionControl = {}
+): Promise<ConversionResult> => {
+  if (typeof Worker === 'undefined') return convertWithChanges(text, pair, options, { onProgress, signal });
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject, onProgress });
+    signal?.addEventListener('abort', () => {
+      if (!settle(id)) return;
+      worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(signal.reason);
+    }, { once: true });
+    syncPatches(options);
+    post({ type: 'convert', id, text, pair, format: options.format ?? 'plain' });
+  });
+};
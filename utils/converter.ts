@@ -1,70 +1,302 @@
 
-import { ConversionType, PatchRule } from '../types';
+import { ChangeSource, ChineseVariant, ConversionOptions, ConversionPair, ConversionResult, ConversionType, PatchDictionary, PatchRule, RuleHit } from '../types';
+import { AnnotatedText, applyEdits, diffConversion, TextEdit } from './changeSpans';
+import { buildPatchMatcher, PatchMatch, PatchMatcher } from './patchMatcher';
+import { parsePatchText } from './patchParser';
+import { combineDictionaries } from './dictionaries';
+import { maskProtectedTerms, maskRanges } from './protectedTerms';
+import { detectFormat, findStructureRanges } from './formats';
+import { LocalizedError } from './messages';
+
+type OpenCCModule = typeof import('opencc-js');
+
+let openccModule: Promise<OpenCCModule> | null = null;
 
 /**
- * 宣告全域 OpenCC (來自 CDN 的 UMD 版本)
+ * 載入 OpenCC 引擎（含字典，打包為獨立區塊，第一次轉換時才下載）。
+ * 載入失敗時拋出明確的錯誤而不是原樣回傳，下次呼叫會重新嘗試。
  */
-declare global {
-  interface Window {
-    OpenCC: any;
-  }
+export const loadOpenCC = (): Promise<OpenCCModule> => {
+  openccModule ??= import('opencc-js').catch(err => {
+    openccModule = null;
+    throw new LocalizedError('error.engineLoad', { message: err instanceof Error ? err.message : String(err) });
+  });
+  return openccModule;
+};
+
+/**
+ * 轉換控制：回報進度（0～1）並可透過 AbortSignal 中途取消
+ */
+export interface ConversionControl {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
 }
 
-// 獲取全域變數
-const getOpenCC = () => (window as any).OpenCC || (globalThis as any).OpenCC;
+// 每個分段的大約字數；分段處落在換行、空白或標點，讓詞組不被切開
+const CHUNK_SIZE = 20000;
+
+// OpenCC 的詞組不含空白與標點，在這些字元之後切開不會影響轉換結果
+const BOUNDARY = /[\s，。！？；：、,.!?;:「」『』（）()《》〈〉【】…—]/;
 
 /**
- * 轉義正則表達式中的特殊字符
+ * 解析補丁字串為規則陣列（語法見 patchParser.ts；格式錯誤的行會被略過）。
+ * 傳入字典清單時依優先順序合併所有啟用中字典的後置補丁。
  */
-export const escapeRegExp = (string: string): string => {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+export const parsePatches = (patches: string | PatchDictionary[]): PatchRule[] =>
+  typeof patches === 'string' ? parsePatchText(patches).rules : combineDictionaries(patches).rules;
+
+// 同一份規則陣列只依方向各建立一次比對器
+const matcherCache = new WeakMap<PatchRule[], Map<string, PatchMatcher>>();
+
+/**
+ * 取得（或建立並快取）指定規則與方向的比對器
+ */
+export const getPatchMatcher = (patchRules: PatchRule[], direction?: ConversionType): PatchMatcher => {
+  let byDirection = matcherCache.get(patchRules);
+  if (!byDirection) {
+    byDirection = new Map();
+    matcherCache.set(patchRules, byDirection);
+  }
+  const key = direction ?? '';
+  let matcher = byDirection.get(key);
+  if (!matcher) {
+    matcher = buildPatchMatcher(patchRules, direction);
+    byDirection.set(key, matcher);
+  }
+  return matcher;
 };
 
 /**
- * 解析補丁字串為規則陣列，並按長度排序（長詞優先）
+ * 將命中結果累加到各規則的計數
  */
-export const parsePatches = (patchStr: string): PatchRule[] => {
-  return patchStr
-    .split('\n')
-    .filter(line => line.includes('='))
-    .map(line => {
-      const [old, newVal] = line.split('=');
-      return { old: old?.trim() || '', newVal: newVal?.trim() || '' };
-    })
-    .filter(rule => rule.old !== '')
-    .sort((a, b) => b.old.length - a.old.length);
+const countHits = (matches: PatchMatch[], hits?: Map<PatchRule, number>) => {
+  if (!hits) return;
+  for (const m of matches) hits.set(m.rule, (hits.get(m.rule) ?? 0) + 1);
 };
 
 /**
- * 應用自定義補丁到文本
+ * 應用自定義補丁到文本（單次掃描、最長優先，替換結果不會再被比對）。
+ * 傳入 direction 時才會套用限定方向的規則；傳入 hits 時會累加每條規則的命中次數。
  */
-export const applyCustomPatches = (text: string, patchRules: PatchRule[]): string => {
-  let result = text;
-  patchRules.forEach(rule => {
-    const escapedOld = escapeRegExp(rule.old);
-    const regex = new RegExp(escapedOld, 'g');
-    result = result.replace(regex, rule.newVal);
-  });
-  return result;
+export const applyCustomPatches = (
+  text: string,
+  patchRules: PatchRule[],
+  direction?: ConversionType,
+  hits?: Map<PatchRule, number>
+): string => {
+  const matcher = getPatchMatcher(patchRules, direction);
+  if (!hits) return matcher.replace(text);
+  const matches = matcher.scan(text);
+  countHits(matches, hits);
+  let result = '';
+  let cursor = 0;
+  for (const m of matches) {
+    result += text.slice(cursor, m.start) + m.replacement;
+    cursor = m.end;
+  }
+  return result + text.slice(cursor);
 };
 
 /**
- * 執行 OpenCC 繁簡轉換
+ * 可供選擇的轉換變體與顯示名稱
  */
-export const convertText = async (text: string, type: ConversionType): Promise<string> => {
+export const CHINESE_VARIANTS: { value: ChineseVariant; label: string }[] = [
+  { value: 'cn', label: '簡體（中國大陸）' },
+  { value: 'tw', label: '繁體（臺灣）' },
+  { value: 'twp', label: '繁體（臺灣詞彙）' },
+  { value: 'hk', label: '繁體（香港）' },
+  { value: 't', label: '繁體（OpenCC 標準）' },
+  { value: 'jp', label: '日本新字體' },
+];
+
+export const isChineseVariant = (value: unknown): value is ChineseVariant =>
+  CHINESE_VARIANTS.some(v => v.value === value);
+
+// 繁體的各地區變體（不含簡體與日本新字體）
+const TRADITIONAL_VARIANTS: ChineseVariant[] = ['tw', 'twp', 'hk', 't'];
+
+export const isTraditionalVariant = (value: unknown): value is ChineseVariant =>
+  TRADITIONAL_VARIANTS.includes(value as ChineseVariant);
+
+/**
+ * 將舊有的轉換方向換算為來源／目標變體
+ */
+export const toConversionPair = (type: ConversionType | ConversionPair): ConversionPair => {
+  if (typeof type !== 'string') return type;
+  return type === ConversionType.TO_SIMPLIFIED
+    ? { from: 'tw', to: 'cn' }
+    : { from: 'cn', to: 'tw' };
+};
+
+/**
+ * 依目標變體判斷轉換方向（簡體與日本新字體視為簡化方向）
+ */
+export const getConversionDirection = (type: ConversionType | ConversionPair): ConversionType => {
+  if (typeof type === 'string') return type;
+  return type.to === 'cn' || type.to === 'jp' ? ConversionType.TO_SIMPLIFIED : ConversionType.TO_TRADITIONAL;
+};
+
+/**
+ * 執行 OpenCC 轉換，可傳入舊有方向或任意來源／目標變體
+ */
+export const convertText = async (text: string, type: ConversionType | ConversionPair): Promise<string> => {
   if (!text) return '';
-  
-  const OpenCC = getOpenCC();
-  if (!OpenCC) {
-    console.warn('OpenCC library not found, skipping conversion.');
-    return text;
-  }
 
   // 使用 OpenCC.js 核心轉換邏輯
-  const converter = OpenCC.Converter({ 
-    from: type === ConversionType.TO_SIMPLIFIED ? 'tw' : 'cn', 
-    to: type === ConversionType.TO_SIMPLIFIED ? 'cn' : 'tw' 
-  });
-  
-  return converter(text);
+  const { from, to } = toConversionPair(type);
+  if (from === to) return text;
+  const OpenCC = await loadOpenCC();
+  return getOpenCCConverter(OpenCC, from, to)(text);
+};
+
+// 建立 OpenCC 轉換器需要載入整份字典，每個方向只建立一次
+const openccConverters = new Map<string, (text: string) => string>();
+
+const getOpenCCConverter = (OpenCC: OpenCCModule, from: ChineseVariant, to: ChineseVariant) => {
+  const key = `${from}|${to}`;
+  let converter = openccConverters.get(key);
+  if (!converter) {
+    converter = OpenCC.Converter({ from, to });
+    openccConverters.set(key, converter);
+  }
+  return converter;
+};
+
+/**
+ * 找出 [from, to) 中最後一個分段點（換行優先，其次空白或標點），回傳切開的位置
+ */
+const lastBoundary = (text: string, from: number, to: number): number => {
+  const newline = text.lastIndexOf('\n', to - 1);
+  if (newline >= from) return newline + 1;
+  for (let i = to - 1; i >= from; i--) if (BOUNDARY.test(text[i])) return i + 1;
+  return -1;
+};
+
+/**
+ * 將文字切成約 CHUNK_SIZE 字的分段，只在換行、空白或標點之後切開，詞組不會跨越分段。
+ * 整段都沒有分段點時延長到下一個分段點為止。
+ */
+const splitChunks = (text: string): string[] => {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      end = lastBoundary(text, start, end);
+      if (end < 0) {
+        const next = text.slice(start + CHUNK_SIZE).search(BOUNDARY);
+        end = next < 0 ? text.length : start + CHUNK_SIZE + next + 1;
+      }
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks;
+};
+
+/**
+ * 分段執行 OpenCC 轉換：每段之間讓出執行緒，以便回報進度並接收取消訊號
+ */
+export const convertInChunks = async (
+  text: string,
+  type: ConversionType | ConversionPair,
+  { onProgress, signal }: ConversionControl = {}
+): Promise<string> => {
+  const chunks = splitChunks(text);
+  let result = '';
+  let done = 0;
+  for (const chunk of chunks) {
+    signal?.throwIfAborted();
+    result += await convertText(chunk, type);
+    done += chunk.length;
+    onProgress?.(text.length ? done / text.length : 1);
+    if (done < text.length) await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  signal?.throwIfAborted();
+  return result;
+};
+
+/**
+ * 將補丁命中結果轉為帶來源的文字編輯
+ */
+const patchEdits = (
+  text: string,
+  rules: PatchRule[],
+  direction: ConversionType,
+  stage: 'pre' | 'post',
+  hits: Map<PatchRule, number>,
+  isMasked: (ch: string) => boolean
+): TextEdit[] => {
+  const matches = getPatchMatcher(rules, direction).scan(text, isMasked);
+  countHits(matches, hits);
+  return matches.map(m => ({
+    start: m.start,
+    end: m.end,
+    text: m.replacement,
+    source: { kind: 'rule', stage, rule: m.rule },
+  }));
+};
+
+const OPENCC_SOURCE: ChangeSource = { kind: 'opencc' };
+
+/**
+ * 套用依位置排序、互不重疊的編輯後，既有範圍（不與編輯重疊）與編輯結果在新文字中的位置
+ */
+const rangesAfterEdits = (ranges: Array<[number, number]>, edits: TextEdit[]): Array<[number, number]> => {
+  const result: Array<[number, number]> = [];
+  let shift = 0;
+  let ri = 0;
+  for (const edit of edits) {
+    for (; ri < ranges.length && ranges[ri][1] <= edit.start; ri++) result.push([ranges[ri][0] + shift, ranges[ri][1] + shift]);
+    result.push([edit.start + shift, edit.start + shift + edit.text.length]);
+    shift += edit.text.length - (edit.end - edit.start);
+  }
+  for (; ri < ranges.length; ri++) result.push([ranges[ri][0] + shift, ranges[ri][1] + shift]);
+  return result;
 };
+
+/**
+ * 完整轉換流程並回報每段變更的來源：先遮罩格式結構與保護詞並套用前置規則，再交給 OpenCC，
+ * 最後套用後置補丁並依序還原。受保護的片段不受 OpenCC 與任何補丁影響。
+ * OpenCC 階段分段執行，可透過 control 回報進度與取消。
+ */
+export const convertWithChanges = async (
+  text: string,
+  type: ConversionType | ConversionPair,
+  { rules = [], preRules = [], protectedTerms = [], format = 'plain' }: ConversionOptions = {},
+  control: ConversionControl = {}
+): Promise<ConversionResult> => {
+  if (!text) return { text: '', spans: [], hits: [] };
+  const direction = getConversionDirection(type);
+  const resolvedFormat = format === 'auto' ? detectFormat(text) : format;
+  const structure = maskRanges(text, findStructureRanges(text, resolvedFormat));
+  const mask = maskProtectedTerms(structure.text, protectedTerms);
+  const isMasked = (ch: string) => mask.isPlaceholder(ch) || structure.isPlaceholder(ch);
+
+  const preHits = new Map<PatchRule, number>();
+  const postHits = new Map<PatchRule, number>();
+  let current: AnnotatedText = { text: mask.text, spans: [] };
+  current = applyEdits(current, patchEdits(current.text, preRules, direction, 'pre', preHits, isMasked));
+  const converted = await convertInChunks(current.text, type, control);
+  current = applyEdits(current, diffConversion(current.text, converted, OPENCC_SOURCE));
+  current = applyEdits(current, patchEdits(current.text, rules, direction, 'post', postHits, isMasked));
+  const termEdits = mask.restoreEdits(current.text);
+  current = applyEdits(current, termEdits);
+  const structureEdits = structure.restoreEdits(current.text);
+  current = applyEdits(current, structureEdits);
+  const masked = rangesAfterEdits(rangesAfterEdits([], termEdits), structureEdits);
+  const hits: RuleHit[] = [
+    ...[...preHits].map(([rule, count]) => ({ rule, stage: 'pre' as const, count })),
+    ...[...postHits].map(([rule, count]) => ({ rule, stage: 'post' as const, count })),
+  ];
+  return { ...current, hits, masked };
+};
+
+/**
+ * 完整轉換流程，只回傳結果文字
+ */
+export const convertWithPatches = async (
+  text: string,
+  type: ConversionType | ConversionPair,
+  options: ConversionOptions = {}
+): Promise<string> => (await convertWithChanges(text, type, options)).text;
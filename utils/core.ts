@@ -0,0 +1,32 @@
+/**
+ * 不依賴 DOM 的轉換核心：瀏覽器、Web Worker 與 Node（建置腳本、CI、命令列工具）共用。
+ * 這裡匯出的函式都不會碰到 window、document 或 localStorage。
+ */
+
+export {
+  applyCustomPatches,
+  CHINESE_VARIANTS,
+  convertText,
+  convertWithChanges,
+  convertWithPatches,
+  getConversionDirection,
+  isChineseVariant,
+  loadOpenCC,
+  parsePatches,
+  toConversionPair,
+} from './converter';
+export type { ConversionControl } from './converter';
+export { formatPatchRule, parsePatchText } from './patchParser';
+export { parseProtectedTerms } from './protectedTerms';
+export { detectFormat, formatFromFileName, TEXT_FILE_EXTENSIONS, TEXT_FORMATS } from './formats';
+export { combineDictionaries, createDictionary } from './dictionaries';
+export { ConversionType } from '../types';
+export type {
+  ChineseVariant,
+  ConversionOptions,
+  ConversionPair,
+  ConversionResult,
+  PatchDictionary,
+  PatchRule,
+  TextFormat,
+} from '../types';
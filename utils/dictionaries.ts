@@ -0,0 +1,129 @@
+import { PatchDictionary, PatchRule, PatchSet } from '../types';
+import { parsePatchText } from './patchParser';
+import { parseProtectedTerms } from './protectedTerms';
+
+/**
+ * 多字典的儲存與合併。字典依清單順序決定優先度：
+ * 合併後的規則陣列中排在前面的規則在等長命中時優先（見 patchMatcher.ts）。
+ */
+
+export interface ShadowedRule {
+  stage: 'pre' | 'post';
+  rule: PatchRule;
+  /** 優先度較高、實際生效的同名規則 */
+  by: PatchRule;
+}
+
+export interface CombinedDictionaries {
+  rules: PatchRule[];
+  preRules: PatchRule[];
+  protectedTerms: string[];
+  /** 被其他字典中相同規則蓋過的規則 */
+  shadowed: ShadowedRule[];
+}
+
+const STORAGE_KEY = 'dream_cloud_dictionaries';
+
+// 沿用舊版單一補丁時使用的字典 id，雲端同步目標也維持不變
+export const DEFAULT_DICTIONARY_ID = 'default';
+
+export const createDictionary = (name: string, patchSet?: PatchSet): PatchDictionary => ({
+  id: `d${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  enabled: true,
+  patches: patchSet?.patches ?? '',
+  prePatches: patchSet?.prePatches ?? '',
+  protectedTerms: patchSet?.protectedTerms ?? '',
+});
+
+export const toPatchSet = ({ patches, prePatches, protectedTerms }: PatchDictionary): PatchSet => ({
+  patches,
+  prePatches,
+  protectedTerms,
+});
+
+export const isDictionary = (value: unknown): value is PatchDictionary => {
+  const d = value as PatchDictionary;
+  return !!d && typeof d.id === 'string' && typeof d.name === 'string' &&
+    typeof d.patches === 'string' && typeof d.prePatches === 'string' && typeof d.protectedTerms === 'string';
+};
+
+/**
+ * 讀取字典清單；尚未建立時將舊版的單一補丁轉為「通用」字典
+ */
+export const loadDictionaries = (): PatchDictionary[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(saved)) {
+      const list = saved.filter(isDictionary).map(d => ({ ...d, enabled: d.enabled !== false }));
+      if (list.length > 0) return list;
+    }
+  } catch {
+    // 損壞的紀錄改由舊版鍵值重建
+  }
+  return [{
+    id: DEFAULT_DICTIONARY_ID,
+    name: '通用',
+    enabled: true,
+    patches: localStorage.getItem('dream_cloud_patches') || '',
+    prePatches: localStorage.getItem('dream_cloud_pre_patches') || '',
+    protectedTerms: localStorage.getItem('dream_cloud_protected_terms') || '',
+  }];
+};
+
+export const saveDictionaries = (dictionaries: PatchDictionary[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionaries));
+};
+
+/**
+ * 將字典往前（delta < 0）或往後移動以調整優先度
+ */
+export const moveDictionary = (dictionaries: PatchDictionary[], id: string, delta: number): PatchDictionary[] => {
+  const from = dictionaries.findIndex(d => d.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= dictionaries.length) return dictionaries;
+  const next = [...dictionaries];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * 為規則標記來源字典
+ */
+export const tagRules = (rules: PatchRule[], dictionary: Pick<PatchDictionary, 'id' | 'name'>): PatchRule[] =>
+  rules.map(rule => ({ ...rule, dictionary: { id: dictionary.id, name: dictionary.name } }));
+
+const ruleKey = (rule: PatchRule) =>
+  `${rule.isRegex ? 're' : ''}|${rule.wholeWord ? 'w' : ''}|${rule.direction ?? ''}|${rule.old}`;
+
+/**
+ * 找出被其他字典中相同比對條件的規則蓋過的規則
+ */
+const findShadowed = (rules: PatchRule[], stage: ShadowedRule['stage']): ShadowedRule[] => {
+  const first = new Map<string, PatchRule>();
+  const shadowed: ShadowedRule[] = [];
+  for (const rule of rules) {
+    const key = ruleKey(rule);
+    const winner = first.get(key);
+    if (!winner) first.set(key, rule);
+    else if (winner.dictionary?.id !== rule.dictionary?.id && winner.newVal !== rule.newVal) shadowed.push({ stage, rule, by: winner });
+  }
+  return shadowed;
+};
+
+/**
+ * 依優先順序合併所有啟用中的字典；每條規則都標記其來源字典
+ */
+export const combineDictionaries = (dictionaries: PatchDictionary[]): CombinedDictionaries => {
+  const active = dictionaries.filter(d => d.enabled);
+  const rules = active.flatMap(d => tagRules(parsePatchText(d.patches).rules, d));
+  const preRules = active.flatMap(d => tagRules(parsePatchText(d.prePatches).rules, d));
+  const protectedTerms = [...new Set(active.flatMap(d => parseProtectedTerms(d.protectedTerms)))];
+  return {
+    rules,
+    preRules,
+    protectedTerms,
+    shadowed: [...findShadowed(preRules, 'pre'), ...findShadowed(rules, 'post')],
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { detectDictionaryFormat, exportDictionary, importDictionary } from './dictionaryIO';
+
+describe('importDictionary', () => {
+  it('CSV 支援引號內的逗號、"" 轉義與標題列，並轉為補丁語法', () => {
+    const csv = 'old,new,flags\r\n"甲,乙",丙\n"說""好""",說好,"t,w"\n軟體=,軟件\n';
+    expect(importDictionary(csv, 'csv')).toEqual({
+      lines: ['甲,乙=丙', '[t,w] 說"好"=說好', '軟體\\==軟件'],
+      skipped: [],
+    });
+  });
+
+  it('CSV 含換行的欄位無法以補丁語法表示，以紀錄起始行號略過', () => {
+    expect(importDictionary('"多\n行",x\n甲,乙\n,空白', 'csv')).toEqual({ lines: ['甲=乙'], skipped: [1, 4] });
+  });
+
+  it('CSV 標記無法解析時略過該行', () => {
+    expect(importDictionary('甲,乙,x\n丙,丁,re', 'csv')).toEqual({ lines: ['[re] 丙=丁'], skipped: [1] });
+  });
+
+  it('OpenCC 字典取第一個候選並略過註解', () => {
+    expect(importDictionary('# 註解\n干\t幹 乾\n后\t後', 'opencc')).toEqual({ lines: ['干=幹', '后=後'], skipped: [] });
+  });
+
+  it('補丁格式保留註解並略過無法解析的行', () => {
+    expect(importDictionary('﻿# 註解\n甲=乙\n沒有分隔', 'patch')).toEqual({ lines: ['# 註解', '甲=乙'], skipped: [3] });
+  });
+});
+
+describe('exportDictionary', () => {
+  const patches = '甲,乙=丙\n[t,w] 說"好"=說好\n[re] (\\d+)=$1';
+
+  it('CSV 匯出後可原樣匯入', () => {
+    const { text, skipped } = exportDictionary(patches, 'csv');
+    expect(skipped).toBe(0);
+    expect(text).toBe('old,new,flags\n"甲,乙",丙,\n"說""好""",說好,"t,w"\n(\\d+),$1,re');
+    expect(importDictionary(text, 'csv').lines).toEqual(patches.split('\n'));
+  });
+
+  it('OpenCC 字典不支援標記，略過有標記的規則', () => {
+    expect(exportDictionary(patches, 'opencc')).toEqual({ text: '甲,乙\t丙', skipped: 2 });
+  });
+});
+
+describe('detectDictionaryFormat', () => {
+  it('依副檔名與內容推測格式', () => {
+    expect(detectDictionaryFormat('a.CSV', '')).toBe('csv');
+    expect(detectDictionaryFormat('a.txt', '干\t幹 乾\n后\t後')).toBe('opencc');
+    expect(detectDictionaryFormat('a.txt', 'old\tnew\tflags\n甲\t乙\tt')).toBe('tsv');
+    expect(detectDictionaryFormat('a.txt', '甲=乙')).toBe('patch');
+  });
+});
@@ -0,0 +1,158 @@
+import { PatchRule } from '../types';
+import { formatPatchRule, parsePatchText } from './patchParser';
+
+/**
+ * 字典檔的匯入與匯出：
+ *   CSV / TSV  old,new,flags（flags 為補丁標記，如「t,w」或「re」；第一列可為標題）
+ *   OpenCC     每行「詞<Tab>候選1 候選2 …」，匯入時取第一個候選
+ *   補丁       本專案的補丁語法（見 patchParser.ts）
+ */
+
+export type DictionaryFileFormat = 'csv' | 'tsv' | 'opencc' | 'patch';
+
+/** 可匯入匯出的格式；名稱見各語言目錄的 dictionaryFormat.* */
+export const DICTIONARY_FILE_FORMATS: { value: DictionaryFileFormat; extension: string }[] = [
+  { value: 'csv', extension: '.csv' },
+  { value: 'tsv', extension: '.tsv' },
+  { value: 'opencc', extension: '.txt' },
+  { value: 'patch', extension: '.txt' },
+];
+
+export interface DictionaryImport {
+  /** 轉為補丁語法的規則行 */
+  lines: string[];
+  /** 無法解析而略過的行（從 1 起算） */
+  skipped: number[];
+}
+
+/**
+ * 依副檔名與內容推測格式
+ */
+export const detectDictionaryFormat = (fileName: string, text: string): DictionaryFileFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.tsv')) return 'tsv';
+  const sample = text.split('\n').filter(l => l.trim() && !l.startsWith('#')).slice(0, 20);
+  if (sample.length && sample.every(l => l.includes('\t'))) {
+    // OpenCC 字典只有兩欄且第二欄以空白分隔多個候選
+    return sample.some(l => l.split('\t').length > 2) ? 'tsv' : 'opencc';
+  }
+  return 'patch';
+};
+
+/**
+ * 解析 CSV（支援雙引號包住的欄位、"" 轉義，以及引號內的換行）；
+ * 回傳每筆紀錄的欄位與起始行號（從 1 起算）
+ */
+const parseCsv = (text: string): Array<{ fields: string[]; line: number }> => {
+  const records: Array<{ fields: string[]; line: number }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ fields, line: start });
+    fields = [];
+    field = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRecord();
+      start = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field || fields.length) endRecord();
+  return records;
+};
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const isHeader = (fields: string[]) => /^(old|舊字|原文|key)$/i.test(fields[0]?.trim() ?? '');
+
+/**
+ * 將欄位組成規則行；標記沿用補丁語法，解析失敗或含換行（補丁語法無法表示）時回傳 null
+ */
+const toRuleLine = (old: string, newVal: string, flags = ''): string | null => {
+  if (!old || /\n/.test(old + newVal)) return null;
+  const tags = flags.trim() ? `[${flags.trim().replace(/^\[|\]$/g, '')}] ` : '';
+  const probe = parsePatchText(`${tags}x=y`);
+  if (probe.errors.length) return null;
+  const rule = probe.rules[0];
+  const line = formatPatchRule(old, newVal, rule);
+  return parsePatchText(line).rules.length ? line : null;
+};
+
+export const importDictionary = (text: string, format: DictionaryFileFormat): DictionaryImport => {
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (format === 'patch') {
+    const { errors } = parsePatchText(source);
+    const skipped = new Set(errors.map(e => e.line));
+    return { lines: source.split('\n').filter((_, i) => !skipped.has(i + 1)), skipped: [...skipped] };
+  }
+
+  const lines: string[] = [];
+  const skipped: number[] = [];
+  // CSV 的欄位可包含換行，需整份解析；其他格式逐行處理
+  const records = format === 'csv'
+    ? parseCsv(source).filter(r => r.fields.some(f => f.trim()))
+    : source.split('\n').flatMap((raw, index) => {
+      if (!raw.trim() || raw.startsWith('#')) return [];
+      const fields = format === 'tsv'
+        ? raw.split('\t')
+        : [raw.split('\t')[0], (raw.split('\t')[1] ?? '').trim().split(/\s+/)[0]];
+      return [{ fields, line: index + 1 }];
+    });
+  records.forEach(({ fields, line: lineNumber }) => {
+    if (lineNumber === 1 && format !== 'opencc' && isHeader(fields)) return;
+    const line = toRuleLine(fields[0].trim(), (fields[1] ?? '').trim(), fields[2]);
+    if (line) lines.push(line);
+    else skipped.push(lineNumber);
+  });
+  return { lines, skipped };
+};
+
+const flagsOf = (rule: PatchRule) => {
+  const line = formatPatchRule('x', 'y', rule);
+  return line.startsWith('[') ? line.slice(1, line.indexOf(']')) : '';
+};
+
+export interface DictionaryExport {
+  text: string;
+  /** 目標格式無法表示而略過的規則數（OpenCC 字典不支援標記） */
+  skipped: number;
+}
+
+export const exportDictionary = (patchText: string, format: DictionaryFileFormat): DictionaryExport => {
+  if (format === 'patch') return { text: patchText, skipped: 0 };
+  const { rules } = parsePatchText(patchText);
+  if (format === 'opencc') {
+    const plain = rules.filter(r => !r.isRegex && !r.direction && !r.wholeWord && !/[\t\s]/.test(r.old + r.newVal));
+    return { text: plain.map(r => `${r.old}\t${r.newVal}`).join('\n'), skipped: rules.length - plain.length };
+  }
+  if (format === 'tsv') {
+    const clean = rules.filter(r => !/[\t\n]/.test(r.old + r.newVal));
+    return {
+      text: ['old\tnew\tflags', ...clean.map(r => `${r.old}\t${r.newVal}\t${flagsOf(r)}`)].join('\n'),
+      skipped: rules.length - clean.length,
+    };
+  }
+  return {
+    text: ['old,new,flags', ...rules.map(r => [r.old, r.newVal, flagsOf(r)].map(csvField).join(','))].join('\n'),
+    skipped: 0,
+  };
+};
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDictionary, saveDictionaries } from './dictionaries';
+import { EMBED_PROTOCOL, EmbedResponse, startEmbedServer } from './embedApi';
+import { DEFAULT_SITE_CONFIG, saveSiteConfig } from './siteConfig';
+
+// 嵌入頁面在 Worker 中執行同一套轉換流程；測試環境沒有 Worker，直接呼叫轉換函式
+vi.mock('./conversionClient', async () => {
+  const { convertWithChanges } = await import('./converter');
+  return { convertInWorker: convertWithChanges };
+});
+
+const ALLOWED = 'https://allowed.example';
+
+let stop: () => void;
+let handleMessage: (e: MessageEvent) => Promise<void>;
+
+beforeEach(() => {
+  localStorage.clear();
+  saveSiteConfig({ ...DEFAULT_SITE_CONFIG, embedOrigins: [ALLOWED] });
+  saveDictionaries([
+    { ...createDictionary('用語', { patches: '軟件=軟體', prePatches: '', protectedTerms: '' }), id: 'terms' },
+    { ...createDictionary('停用', { patches: '軟體=程式', prePatches: '', protectedTerms: '' }), id: 'off', enabled: false },
+  ]);
+  const listen = vi.spyOn(window, 'addEventListener');
+  stop = startEmbedServer();
+  handleMessage = listen.mock.calls.find(([type]) => type === 'message')![1] as unknown as typeof handleMessage;
+  listen.mockRestore();
+});
+
+afterEach(() => stop());
+
+/**
+ * 模擬上層頁面送出請求，回傳嵌入頁面的回應
+ */
+const request = async (body: Record<string, unknown>, origin = ALLOWED): Promise<EmbedResponse> => {
+  const postMessage = vi.fn();
+  await handleMessage({ data: { protocol: EMBED_PROTOCOL, id: 1, ...body }, origin, source: { postMessage } } as unknown as MessageEvent);
+  expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({ protocol: EMBED_PROTOCOL, id: 1 }), origin);
+  return postMessage.mock.calls[0][0];
+};
+
+const errorCode = async (body: Record<string, unknown>, origin?: string) => {
+  const response = await request(body, origin);
+  return response.ok ? null : response.error.code;
+};
+
+describe('嵌入 API 的請求檢查', () => {
+  it('拒絕不在允許清單中的來源', async () => {
+    expect(await errorCode({ method: 'listDictionaries' }, 'https://other.example')).toBe('origin-not-allowed');
+  });
+
+  it('忽略不符合協定的訊息', async () => {
+    const postMessage = vi.fn();
+    await handleMessage({ data: { id: 1, method: 'listDictionaries' }, origin: ALLOWED, source: { postMessage } } as unknown as MessageEvent);
+    await handleMessage({ data: { protocol: EMBED_PROTOCOL, method: 'listDictionaries' }, origin: ALLOWED, source: { postMessage } } as unknown as MessageEvent);
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('不支援的方法', async () => {
+    expect(await errorCode({ method: 'deleteEverything' })).toBe('unknown-method');
+  });
+
+  it('轉換參數不正確時回報 bad-request', async () => {
+    expect(await errorCode({ method: 'convert' })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: 1 } })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: '', format: 'docx' } })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: '', direction: 'x' } })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: '', direction: { from: 'cn', to: 'kr' } } })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: '', dictionaries: 'terms' } })).toBe('bad-request');
+    expect(await errorCode({ method: 'convert', params: { text: '', dictionaries: ['terms', '不存在'] } })).toBe('bad-request');
+  });
+});
+
+describe('嵌入 API 的方法', () => {
+  it('以啟用中的字典轉換並回報命中的規則', async () => {
+    const response = await request({ method: 'convert', params: { text: '软件' } });
+    expect(response).toMatchObject({
+      ok: true,
+      result: { text: '軟體', pair: { from: 'cn', to: 'tw' }, hits: [{ stage: 'post', count: 1, old: '軟件', dictionary: { id: 'terms' } }] },
+    });
+  });
+
+  it('指定的字典視為啟用並依本地順序套用', async () => {
+    const response = await request({ method: 'convert', params: { text: '軟體', direction: { from: 'tw', to: 'twp' }, dictionaries: ['停用'] } });
+    expect(response).toMatchObject({ ok: true, result: { text: '程式', pair: { from: 'tw', to: 'twp' } } });
+  });
+
+  it('列出字典與規則數', async () => {
+    const response = await request({ method: 'listDictionaries' });
+    expect(response).toMatchObject({
+      ok: true,
+      result: [
+        { id: 'terms', name: '用語', enabled: true, rules: 1, preRules: 0, protectedTerms: 0 },
+        { id: 'off', name: '停用', enabled: false, rules: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { ConversionPair, PatchDictionary, PatchRule, RuleHit, TextFormat } from '../types';
+import { combineDictionaries, loadDictionaries } from './dictionaries';
+import { convertInWorker } from './conversionClient';
+import { isChineseVariant } from './converter';
+import { TEXT_FORMATS } from './formats';
+import { loadRuleStats, RuleStats } from './ruleStats';
+import { loadSiteConfig } from './siteConfig';
+
+/**
+ * 嵌入模式的 postMessage API：其他網站以 iframe 載入 index.html?embed 後，
+ * 以請求／回應訊息呼叫轉換。只接受後台「嵌入允許來源」中列出的來源，
+ * 轉換沿用主程式的同一套流程與本地儲存的字典。協定說明見 docs/embed-api.md。
+ */
+
+export const EMBED_PROTOCOL = 'dream-cloud-embed';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+/**
+ * s、t 沿用「變簡體／變繁體」（臺灣繁體），或直接指定來源與目標變體
+ */
+export type EmbedDirection = 's' | 't' | ConversionPair;
+
+export interface EmbedConvertParams {
+  text: string;
+  /** 預設 t */
+  direction?: EmbedDirection;
+  /** 預設 auto */
+  format?: TextFormat | 'auto';
+  /** 依序套用的字典 id 或名稱；未指定時使用所有啟用中的字典 */
+  dictionaries?: string[];
+}
+
+export type EmbedRequest = { protocol: typeof EMBED_PROTOCOL; id: string | number } & (
+  | { method: 'convert'; params: EmbedConvertParams }
+  | { method: 'listDictionaries' }
+  | { method: 'getRuleStats' }
+);
+
+export type EmbedMethod = EmbedRequest['method'];
+
+export interface EmbedRuleHit {
+  stage: RuleHit['stage'];
+  count: number;
+  old: string;
+  newVal: string;
+  line?: number;
+  dictionary?: { id: string; name: string };
+}
+
+export interface EmbedConvertResult {
+  text: string;
+  pair: ConversionPair;
+  /** 變更處數 */
+  changes: number;
+  hits: EmbedRuleHit[];
+}
+
+export interface EmbedDictionaryInfo {
+  id: string;
+  name: string;
+  enabled: boolean;
+  rules: number;
+  preRules: number;
+  protectedTerms: number;
+}
+
+export type EmbedErrorCode = 'origin-not-allowed' | 'bad-request' | 'unknown-method' | 'conversion-failed';
+
+export type EmbedResponse = { protocol: typeof EMBED_PROTOCOL; id: string | number } & (
+  | { ok: true; result: EmbedConvertResult | EmbedDictionaryInfo[] | RuleStats }
+  | { ok: false; error: { code: EmbedErrorCode; message: string } }
+);
+
+/**
+ * 嵌入頁面載入完成時送給上層頁面的通知
+ */
+export interface EmbedReadyEvent {
+  protocol: typeof EMBED_PROTOCOL;
+  type: 'ready';
+  version: number;
+  methods: EmbedMethod[];
+}
+
+const METHODS: EmbedMethod[] = ['convert', 'listDictionaries', 'getRuleStats'];
+
+class EmbedError extends Error {
+  constructor(public code: EmbedErrorCode, message: string) {
+    super(message);
+  }
+}
+
+const toPair = (direction: EmbedDirection = 't'): ConversionPair => {
+  if (direction === 's') return { from: 'tw', to: 'cn' };
+  if (direction === 't') return { from: 'cn', to: 'tw' };
+  if (isChineseVariant(direction?.from) && isChineseVariant(direction?.to)) return { from: direction.from, to: direction.to };
+  throw new EmbedError('bad-request', 'direction 必須是 s、t 或 { from, to }');
+};
+
+const pickDictionaries = (all: PatchDictionary[], wanted?: string[]): PatchDictionary[] => {
+  if (wanted === undefined) return all;
+  if (!Array.isArray(wanted)) throw new EmbedError('bad-request', 'dictionaries 必須是字典 id 或名稱的陣列');
+  const missing = wanted.filter(key => !all.some(d => d.id === key || d.name === key));
+  if (missing.length) throw new EmbedError('bad-request', `找不到字典：${missing.join('、')}`);
+  // 依本地的優先順序套用，並視為啟用
+  return all.filter(d => wanted.includes(d.id) || wanted.includes(d.name)).map(d => ({ ...d, enabled: true }));
+};
+
+const describeHit = ({ rule, stage, count }: { rule: PatchRule; stage: RuleHit['stage']; count: number }): EmbedRuleHit => ({
+  stage,
+  count,
+  old: rule.old,
+  newVal: rule.newVal,
+  ...(rule.line ? { line: rule.line } : {}),
+  ...(rule.dictionary ? { dictionary: rule.dictionary } : {}),
+});
+
+const convert = async (params: EmbedConvertParams | undefined): Promise<EmbedConvertResult> => {
+  if (typeof params?.text !== 'string') throw new EmbedError('bad-request', 'params.text 必須是字串');
+  const format = params.format ?? 'auto';
+  if (format !== 'auto' && !TEXT_FORMATS.some(f => f.value === format)) {
+    throw new EmbedError('bad-request', `無法辨識的格式「${format}」`);
+  }
+  const pair = toPair(params.direction);
+  const combined = combineDictionaries(pickDictionaries(loadDictionaries(), params.dictionaries));
+  try {
+    const result = await convertInWorker(params.text, pair, {
+      rules: combined.rules,
+      preRules: combined.preRules,
+      protectedTerms: combined.protectedTerms,
+      format,
+    });
+    return { text: result.text, pair, changes: result.spans.length, hits: result.hits.map(describeHit) };
+  } catch (err) {
+    throw new EmbedError('conversion-failed', err instanceof Error ? err.message : String(err));
+  }
+};
+
+const listDictionaries = (): EmbedDictionaryInfo[] =>
+  loadDictionaries().map(d => {
+    const combined = combineDictionaries([{ ...d, enabled: true }]);
+    return {
+      id: d.id,
+      name: d.name,
+      enabled: d.enabled,
+      rules: combined.rules.length,
+      preRules: combined.preRules.length,
+      protectedTerms: combined.protectedTerms.length,
+    };
+  });
+
+const isRequest = (data: unknown): data is EmbedRequest =>
+  typeof data === 'object' && data !== null &&
+  (data as EmbedRequest).protocol === EMBED_PROTOCOL &&
+  (typeof (data as EmbedRequest).id === 'string' || typeof (data as EmbedRequest).id === 'number');
+
+const handle = async (request: EmbedRequest) => {
+  switch (request.method) {
+    case 'convert':
+      return convert(request.params);
+    case 'listDictionaries':
+      return listDictionaries();
+    case 'getRuleStats':
+      return loadRuleStats();
+    default:
+      throw new EmbedError('unknown-method', `不支援的方法「${(request as { method: unknown }).method}」`);
+  }
+};
+
+export interface EmbedServerOptions {
+  /** 每次收到（通過來源檢查的）請求時呼叫，用於顯示狀態 */
+  onRequest?: (method: string, origin: string) => void;
+}
+
+/**
+ * 開始接收嵌入請求並通知上層頁面已就緒；回傳停止函式。
+ * 允許來源每次都重新讀取，後台修改後不必重新載入嵌入頁面。
+ */
+export const startEmbedServer = ({ onRequest }: EmbedServerOptions = {}): (() => void) => {
+  const handleMessage = async (e: MessageEvent) => {
+    if (!isRequest(e.data) || !e.source) return;
+    const request = e.data;
+    const reply = (body: { ok: true; result: unknown } | { ok: false; error: { code: EmbedErrorCode; message: string } }) =>
+      (e.source as Window).postMessage({ protocol: EMBED_PROTOCOL, id: request.id, ...body }, e.origin);
+
+    if (!loadSiteConfig().embedOrigins.includes(e.origin)) {
+      reply({ ok: false, error: { code: 'origin-not-allowed', message: `來源 ${e.origin} 不在允許清單中` } });
+      return;
+    }
+    onRequest?.(String(request.method), e.origin);
+    try {
+      reply({ ok: true, result: await handle(request) });
+    } catch (err) {
+      const error = err instanceof EmbedError ? err : new EmbedError('bad-request', err instanceof Error ? err.message : String(err));
+      reply({ ok: false, error: { code: error.code, message: error.message } });
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+  if (window.parent !== window) {
+    const ready: EmbedReadyEvent = { protocol: EMBED_PROTOCOL, type: 'ready', version: EMBED_PROTOCOL_VERSION, methods: METHODS };
+    // 指定目標來源，只有允許的上層頁面收得到
+    for (const origin of loadSiteConfig().embedOrigins) window.parent.postMessage(ready, origin);
+  }
+  return () => window.removeEventListener('message', handleMessage);
+};
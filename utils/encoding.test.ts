@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { decodeTextFile, encodeTextFile } from './encoding';
+import { LocalizedError } from './messages';
+
+const bufferOf = (bytes: number[] | Uint8Array) => new Uint8Array(bytes).buffer;
+
+describe('decodeTextFile', () => {
+  it('依 BOM 判斷 UTF-8 與 UTF-16', () => {
+    expect(decodeTextFile(bufferOf([0xef, 0xbb, 0xbf, 0xe4, 0xb8, 0xad]))).toEqual({ text: '中', encoding: 'utf-8', bom: true });
+    expect(decodeTextFile(bufferOf([0xff, 0xfe, 0x2d, 0x4e]))).toEqual({ text: '中', encoding: 'utf-16le', bom: true });
+    expect(decodeTextFile(bufferOf([0xfe, 0xff, 0x4e, 0x2d]))).toEqual({ text: '中', encoding: 'utf-16be', bom: true });
+  });
+
+  it('無 BOM 的 UTF-16 由 0x00 的分布判斷', () => {
+    const text = 'Hello 世界 text';
+    expect(decodeTextFile(bufferOf(encodeTextFile(text, 'utf-16le')!))).toEqual({ text, encoding: 'utf-16le', bom: false });
+    expect(decodeTextFile(bufferOf(encodeTextFile(text, 'utf-16be')!))).toEqual({ text, encoding: 'utf-16be', bom: false });
+  });
+
+  it('無 BOM 的 UTF-8', () => {
+    expect(decodeTextFile(bufferOf(new TextEncoder().encode('這是中文')))).toEqual({ text: '這是中文', encoding: 'utf-8', bom: false });
+  });
+
+  it('以常用字數量區分 Big5 與 GBK', () => {
+    // 「這是我們的」的 Big5 與「这是我们的」的 GBK 編碼
+    expect(decodeTextFile(bufferOf([0xb3, 0x6f, 0xac, 0x4f, 0xa7, 0xda, 0xad, 0xcc, 0xaa, 0xba])))
+      .toEqual({ text: '這是我們的', encoding: 'big5', bom: false });
+    expect(decodeTextFile(bufferOf([0xd5, 0xe2, 0xca, 0xc7, 0xce, 0xd2, 0xc3, 0xc7, 0xb5, 0xc4])))
+      .toEqual({ text: '这是我们的', encoding: 'gbk', bom: false });
+  });
+
+  it('無法辨識時丟出可翻譯的錯誤', () => {
+    expect(() => decodeTextFile(bufferOf([0x61, 0x81]))).toThrow(LocalizedError);
+  });
+});
+
+describe('encodeTextFile', () => {
+  it('依原本的編碼與 BOM 編碼', () => {
+    expect([...encodeTextFile('中', 'utf-8', true)!]).toEqual([0xef, 0xbb, 0xbf, 0xe4, 0xb8, 0xad]);
+    expect([...encodeTextFile('中', 'utf-16le', true)!]).toEqual([0xff, 0xfe, 0x2d, 0x4e]);
+    expect([...encodeTextFile('中', 'utf-16be')!]).toEqual([0x4e, 0x2d]);
+  });
+
+  it('Big5 與 GBK 沒有編碼器', () => {
+    expect(encodeTextFile('中', 'big5')).toBeNull();
+    expect(encodeTextFile('中', 'gbk')).toBeNull();
+  });
+});
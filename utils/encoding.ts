@@ -0,0 +1,105 @@
+import { LocalizedError } from './messages';
+
+/**
+ * 文字檔編碼偵測：支援 UTF-8、UTF-16（LE/BE）、Big5 與 GBK
+ */
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'big5' | 'gbk';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+  /** 原檔是否以 BOM 開頭 */
+  bom: boolean;
+}
+
+// 繁簡常用字，用於判斷 Big5 與 GBK 哪一種解碼較合理（錯誤的解碼多半產生罕用字）
+const COMMON_CHARS = new Set(
+  '的一是不了人我在有他這这個个們们中來来上大為为和國国地到以說说時时要就出會会可也你對对生能而子那得於于著着下自之年過过發发後后作裡里用道行所然家種种事成方多經经麼么去法學学如都同現现當当沒没動动面起看定天分還还進进好小部其些主樣样理心她本前開开但因只從从想實实，。、「」：？！'
+);
+
+const decodeStrict = (bytes: Uint8Array, encoding: TextEncodingName): string | null => {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const commonScore = (text: string): number => {
+  let score = 0;
+  for (const ch of text) if (COMMON_CHARS.has(ch)) score++;
+  return score;
+};
+
+/**
+ * 無 BOM 的 UTF-16：大量 ASCII 與 CJK 文字會讓奇數或偶數位置出現大量 0x00
+ */
+const guessUtf16 = (bytes: Uint8Array): TextEncodingName | null => {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  if (sample.length < 4 || sample.length % 2 !== 0) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+};
+
+/**
+ * 偵測編碼並解碼：先看 BOM，再嘗試嚴格的 UTF-8，
+ * 最後比較 Big5 與 GBK 解碼結果中常用字的數量
+ */
+export const decodeTextFile = (buffer: ArrayBuffer): DecodedText => {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8', bom: true };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le', bom: true };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be', bom: true };
+  }
+
+  const utf16 = guessUtf16(bytes);
+  if (utf16) return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16, bom: false };
+
+  const utf8 = decodeStrict(bytes, 'utf-8');
+  if (utf8 !== null) return { text: utf8, encoding: 'utf-8', bom: false };
+
+  const big5 = decodeStrict(bytes, 'big5');
+  const gbk = decodeStrict(bytes, 'gbk');
+  if (big5 !== null && (gbk === null || commonScore(big5) >= commonScore(gbk))) {
+    return { text: big5, encoding: 'big5', bom: false };
+  }
+  if (gbk !== null) return { text: gbk, encoding: 'gbk', bom: false };
+
+  throw new LocalizedError('error.unknownEncoding');
+};
+
+/**
+ * 以原本的編碼（與 BOM）編碼文字；瀏覽器與 Node 都沒有內建 Big5、GBK 編碼器，這兩種回傳 null
+ */
+export const encodeTextFile = (text: string, encoding: TextEncodingName, bom = false): Uint8Array | null => {
+  if (encoding === 'big5' || encoding === 'gbk') return null;
+  if (encoding === 'utf-8') {
+    const body = new TextEncoder().encode(text);
+    if (!bom) return body;
+    const bytes = new Uint8Array(body.length + 3);
+    bytes.set([0xef, 0xbb, 0xbf]);
+    bytes.set(body, 3);
+    return bytes;
+  }
+  const offset = bom ? 2 : 0;
+  const bytes = new Uint8Array(offset + text.length * 2);
+  const littleEndian = encoding === 'utf-16le';
+  const view = new DataView(bytes.buffer);
+  if (bom) view.setUint16(0, 0xfeff, littleEndian);
+  for (let i = 0; i < text.length; i++) view.setUint16(offset + i * 2, text.charCodeAt(i), littleEndian);
+  return bytes;
+};
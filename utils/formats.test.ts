@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat, findStructureRanges, formatFromFileName, TEXT_FILE_EXTENSIONS } from './formats';
+import { TextFormat } from '../types';
+
+// 取出被保留的片段，方便逐一比對
+const protectedParts = (text: string, format: TextFormat) =>
+  findStructureRanges(text, format).map(([start, end]) => text.slice(start, end));
+
+describe('formatFromFileName', () => {
+  it('依副檔名推測格式，不分大小寫', () => {
+    expect(formatFromFileName('第一集.SRT')).toBe('srt');
+    expect(formatFromFileName('notes.markdown')).toBe('markdown');
+    expect(formatFromFileName('a.ssa')).toBe('ass');
+    expect(formatFromFileName('README')).toBe('plain');
+    expect(formatFromFileName('data.csv')).toBe('plain');
+  });
+
+  it('可轉換的副檔名涵蓋所有能推測格式的副檔名', () => {
+    expect(TEXT_FILE_EXTENSIONS).toContain('.txt');
+    expect(TEXT_FILE_EXTENSIONS.filter(ext => formatFromFileName(`a${ext}`) === 'plain')).toEqual(['.txt']);
+    expect(TEXT_FILE_EXTENSIONS).toEqual(expect.arrayContaining(['.htm', '.markdown', '.ssa']));
+  });
+});
+
+describe('detectFormat', () => {
+  it('由內容判斷格式', () => {
+    expect(detectFormat('﻿WEBVTT\n\n00:01.000 --> 00:02.000\n字幕')).toBe('vtt');
+    expect(detectFormat('[Script Info]\nTitle: 測試')).toBe('ass');
+    expect(detectFormat('1\n00:00:01,000 --> 00:00:02,000\n字幕')).toBe('srt');
+    expect(detectFormat('<p>段落</p>')).toBe('html');
+    expect(detectFormat('# 標題\n內文')).toBe('markdown');
+    expect(detectFormat('見[說明](https://example.com)')).toBe('markdown');
+    expect(detectFormat('一般的文字')).toBe('plain');
+  });
+});
+
+describe('findStructureRanges', () => {
+  it('純文字只保留網址與電子郵件', () => {
+    expect(protectedParts('請見 https://example.com/軟體。或寫信到 a.b@example.com', 'plain'))
+      .toEqual(['https://example.com/軟體', 'a.b@example.com']);
+  });
+
+  it('Markdown 保留程式碼區塊、行內程式碼與連結目標', () => {
+    const text = '```js\nconst 軟體 = 1;\n```\n使用 `軟體` 與[連結](https://example.com)';
+    expect(protectedParts(text, 'markdown')).toEqual([
+      '```js\nconst 軟體 = 1;\n```',
+      '`軟體`',
+      '(https://example.com)',
+    ]);
+  });
+
+  it('Markdown 未結束的程式碼區塊保留到文末', () => {
+    expect(protectedParts('內文\n~~~\n程式', 'markdown')).toEqual(['~~~\n程式']);
+  });
+
+  it('HTML 保留標籤、實體與 script 內容，但不保留標籤之間的文字', () => {
+    const text = '<p class="a">軟體&nbsp;</p><script>var 軟體;</script>';
+    expect(protectedParts(text, 'html')).toEqual(['<p class="a">', '&nbsp;</p><script>var 軟體;</script>']);
+  });
+
+  it('SRT 保留序號與時間軸，內文只保留樣式標籤', () => {
+    const text = '1\n00:00:01,000 --> 00:00:02,000\n<i>軟體</i>';
+    expect(protectedParts(text, 'srt')).toEqual(['1', '00:00:01,000 --> 00:00:02,000', '<i>', '</i>']);
+  });
+
+  it('WebVTT 保留檔頭、NOTE 區塊與時間軸', () => {
+    const text = 'WEBVTT\n\nNOTE 說明\n\n00:01.000 --> 00:02.000\n軟體';
+    expect(protectedParts(text, 'vtt')).toEqual(['WEBVTT', 'NOTE 說明', '00:01.000 --> 00:02.000']);
+  });
+
+  it('ASS 只開放 Dialogue 的內文，並保留覆寫區塊與換行標記', () => {
+    const text = '[Events]\nDialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\i1}軟體\\N硬體';
+    expect(protectedParts(text, 'ass')).toEqual([
+      '[Events]',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\i1}',
+      '\\N',
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { TextFormat } from '../types';
+
+/**
+ * 格式轉接：找出不應轉換的結構片段（程式碼、標籤、網址、字幕時間軸等），
+ * 轉換流程會遮罩這些片段，使其不受 OpenCC 與補丁影響並原樣還原。
+ */
+
+type Range = [number, number];
+
+export const TEXT_FORMATS: { value: TextFormat; label: string }[] = [
+  { value: 'plain', label: '純文字' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'srt', label: 'SRT 字幕' },
+  { value: 'vtt', label: 'WebVTT 字幕' },
+  { value: 'ass', label: 'ASS 字幕' },
+];
+
+const EXTENSION_FORMATS: Record<string, TextFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.srt': 'srt',
+  '.vtt': 'vtt',
+  '.ass': 'ass',
+  '.ssa': 'ass',
+};
+
+/**
+ * 可轉換的文字檔副檔名（批次轉換與命令列工具共用）
+ */
+export const TEXT_FILE_EXTENSIONS = ['.txt', ...Object.keys(EXTENSION_FORMATS)];
+
+const URL_PATTERN = /\b(?:https?|ftp):\/\/[^\s<>"'`，。、；！？）」』】]+|\bwww\.[^\s<>"'`，。、；！？）」』】]+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const SRT_TIMING = /^\s*\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->\s*\d{1,2}:\d{2}:\d{2}[,.]\d{3}[^\n]*$/;
+const VTT_TIMING = /^\s*(?:\d{2,}:)?\d{2}:\d{2}\.\d{3}\s+-->\s+[^\n]*$/;
+
+/**
+ * 依副檔名推測格式
+ */
+export const formatFromFileName = (name: string): TextFormat => {
+  const dot = name.lastIndexOf('.');
+  return (dot >= 0 && EXTENSION_FORMATS[name.slice(dot).toLowerCase()]) || 'plain';
+};
+
+/**
+ * 由內容自動判斷格式
+ */
+export const detectFormat = (text: string): TextFormat => {
+  const head = text.slice(0, 4000);
+  if (/^\uFEFF?WEBVTT/.test(head)) return 'vtt';
+  if (/^\[Script Info\]/m.test(head) || /^\[Events\]/m.test(text)) return 'ass';
+  if (/^\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/m.test(head)) return 'srt';
+  if (/<(?:!doctype|html|head|body|div|p|span|br|a|h[1-6]|ul|li|table)\b[^>]*>/i.test(head)) return 'html';
+  if (/^ {0,3}(?:```|~~~|#{1,6} )/m.test(head) || /\[[^\]\n]+\]\([^)\s]+\)/.test(head)) return 'markdown';
+  return 'plain';
+};
+
+/**
+ * 在 [from, to) 範圍內收集正規表示式的所有命中
+ */
+const collect = (text: string, pattern: RegExp, from = 0, to = text.length): Range[] => {
+  const ranges: Range[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  const slice = text.slice(from, to);
+  let m: RegExpExecArray | null;
+  while ((m = regex.exec(slice))) {
+    if (m[0].length === 0) { regex.lastIndex++; continue; }
+    ranges.push([from + m.index, from + m.index + m[0].length]);
+  }
+  return ranges;
+};
+
+/**
+ * 逐行處理（回傳每行的起訖位置，不含換行字元）
+ */
+const lines = (text: string): Array<{ start: number; end: number; line: string }> => {
+  const result: Array<{ start: number; end: number; line: string }> = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    result.push({ start, end: start + line.length, line });
+    start += line.length + 1;
+  }
+  return result;
+};
+
+/**
+ * 排序並合併重疊或相鄰的範圍
+ */
+const normalize = (ranges: Range[]): Range[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+  const merged: Range[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+/**
+ * 取得區塊之間的空隙，讓行內規則不會跨進已保護的區塊
+ */
+const gaps = (text: string, blocks: Range[]): Range[] => {
+  const result: Range[] = [];
+  let cursor = 0;
+  for (const [start, end] of normalize(blocks)) {
+    if (start > cursor) result.push([cursor, start]);
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < text.length) result.push([cursor, text.length]);
+  return result;
+};
+
+const markdownRanges = (text: string): Range[] => {
+  const blocks: Range[] = [];
+  const frontMatter = text.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?=\r?\n|$)/);
+  if (frontMatter) blocks.push([0, frontMatter[0].length]);
+
+  let fence: { marker: string; start: number } | null = null;
+  for (const { start, end, line } of lines(text)) {
+    const m = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (!fence) {
+      if (m) fence = { marker: m[1], start };
+    } else if (m && m[1][0] === fence.marker[0] && m[1].length >= fence.marker.length && /^\s*$/.test(line.slice(m[0].length))) {
+      blocks.push([fence.start, end]);
+      fence = null;
+    }
+  }
+  if (fence) blocks.push([fence.start, text.length]);
+
+  const inline: Range[] = [];
+  for (const [from, to] of gaps(text, blocks)) {
+    inline.push(
+      ...collect(text, /(`+)[^`]*?\1/, from, to),
+      ...collect(text, /\]\([^)\n]*\)/, from, to).map(([s, e]) => [s + 1, e] as Range),
+      ...collect(text, /\]\[[^\]\n]*\]/, from, to).map(([s, e]) => [s + 1, e] as Range),
+      ...collect(text, /^ {0,3}\[[^\]\n]+\]:[ \t]*\S.*$/m, from, to),
+      ...collect(text, /<\/?[A-Za-z!][^>\n]*>/, from, to),
+      ...collect(text, URL_PATTERN, from, to),
+    );
+  }
+  return [...blocks, ...inline];
+};
+
+const htmlRanges = (text: string): Range[] => {
+  const blocks = [
+    ...collect(text, /<!--[\s\S]*?-->/),
+    ...collect(text, /<(script|style|code|pre)\b[\s\S]*?<\/\1\s*>/i),
+  ];
+  const inline: Range[] = [];
+  for (const [from, to] of gaps(text, blocks)) {
+    inline.push(
+      ...collect(text, /<\/?[A-Za-z!?][^>]*>/, from, to),
+      ...collect(text, /&(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/i, from, to),
+      ...collect(text, URL_PATTERN, from, to),
+    );
+  }
+  return [...blocks, ...inline];
+};
+
+/**
+ * 字幕內文中的樣式標籤與 ASS 覆寫區塊
+ */
+const subtitleInline = (text: string, from: number, to: number): Range[] => [
+  ...collect(text, /<\/?[A-Za-z][^>\n]*>/, from, to),
+  ...collect(text, /\{[^}\n]*\}/, from, to),
+  ...collect(text, /&(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/i, from, to),
+  ...collect(text, URL_PATTERN, from, to),
+];
+
+const srtRanges = (text: string): Range[] => {
+  const ranges: Range[] = [];
+  const all = lines(text);
+  all.forEach(({ start, end, line }, i) => {
+    if (SRT_TIMING.test(line)) ranges.push([start, end]);
+    else if (/^\s*\d+\s*$/.test(line) && SRT_TIMING.test(all[i + 1]?.line ?? '')) ranges.push([start, end]);
+    else ranges.push(...subtitleInline(text, start, end));
+  });
+  return ranges;
+};
+
+const vttRanges = (text: string): Range[] => {
+  const ranges: Range[] = [];
+  const all = lines(text);
+  let inMetaBlock = false;
+  all.forEach(({ start, end, line }, i) => {
+    if (i === 0 && /^\uFEFF?WEBVTT/.test(line)) { ranges.push([start, end]); inMetaBlock = true; return; }
+    if (/^\s*$/.test(line)) { inMetaBlock = false; return; }
+    if (/^(NOTE|STYLE|REGION)\b/.test(line)) inMetaBlock = true;
+    if (inMetaBlock || VTT_TIMING.test(line)) ranges.push([start, end]);
+    else if (VTT_TIMING.test(all[i + 1]?.line ?? '')) ranges.push([start, end]);
+    else ranges.push(...subtitleInline(text, start, end));
+  });
+  return ranges;
+};
+
+const assRanges = (text: string): Range[] => {
+  const ranges: Range[] = [];
+  for (const { start, end, line } of lines(text)) {
+    if (!/^Dialogue:/.test(line)) {
+      if (line.length > 0) ranges.push([start, end]);
+      continue;
+    }
+    // Dialogue 的第 10 個欄位（第 9 個逗號之後）才是字幕內文
+    let commas = 0;
+    let textStart = line.length;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === ',' && ++commas === 9) { textStart = i + 1; break; }
+    }
+    ranges.push([start, start + textStart]);
+    ranges.push(...collect(text, /\{[^}\n]*\}|\\[Nnh]/, start + textStart, end));
+  }
+  return ranges;
+};
+
+/**
+ * 取得指定格式下需要原樣保留的範圍（已排序並合併）
+ */
+export const findStructureRanges = (text: string, format: TextFormat): Range[] => {
+  switch (format) {
+    case 'markdown': return normalize(markdownRanges(text));
+    case 'html': return normalize(htmlRanges(text));
+    case 'srt': return normalize(srtRanges(text));
+    case 'vtt': return normalize(vttRanges(text));
+    case 'ass': return normalize(assRanges(text));
+    default: return normalize(collect(text, URL_PATTERN));
+  }
+};
@@ -0,0 +1,78 @@
+import { HistoryEntry, WorkingSession } from '../types';
+import { LocalizedError } from './messages';
+
+/**
+ * 轉換歷史與工作階段的 IndexedDB 儲存（內容可能是整本小說，不適合放 localStorage）
+ */
+
+const DB_NAME = 'dream-cloud';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+// 超過上限時刪除最舊的紀錄
+const MAX_HISTORY = 200;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') return reject(new LocalizedError('error.noIndexedDb'));
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+};
+
+const store = async (name: string, mode: IDBTransactionMode) =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+/**
+ * 新增一筆歷史並回傳其 id
+ */
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, 'id'>): Promise<number> => {
+  const history = await store(HISTORY_STORE, 'readwrite');
+  const id = (await promisify(history.add(entry))) as number;
+  const keys = (await promisify(history.getAllKeys())) as number[];
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_HISTORY))) history.delete(key);
+  return id;
+};
+
+/**
+ * 取得所有歷史，最新的在前
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await promisify((await store(HISTORY_STORE, 'readonly')).getAll()) as HistoryEntry[];
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = async (id: number) => {
+  await promisify((await store(HISTORY_STORE, 'readwrite')).delete(id));
+};
+
+export const clearHistory = async () => {
+  await promisify((await store(HISTORY_STORE, 'readwrite')).clear());
+};
+
+export const loadSession = async (): Promise<WorkingSession | null> =>
+  ((await promisify((await store(SESSION_STORE, 'readonly')).get(SESSION_KEY))) as WorkingSession | undefined) ?? null;
+
+export const saveSession = async (session: WorkingSession) => {
+  await promisify((await store(SESSION_STORE, 'readwrite')).put(session, SESSION_KEY));
+};
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { en } from '../locales/en';
+import { zhCNOverrides } from '../locales/zh-CN';
+import { MessageKey, zhTW } from '../locales/zh-TW';
+import { cachedSimplifiedCatalog, deriveSimplifiedCatalog, formatMessage, loadSimplifiedCatalog } from './i18n';
+import { errorText, LocalizedError, sourceMessage } from './messages';
+import { parsePatchText } from './patchParser';
+
+const placeholders = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort();
+
+describe('formatMessage', () => {
+  it('代入參數，沒有提供的參數原樣保留', () => {
+    expect(formatMessage('第 {line} 行：{message}', { line: 3 })).toBe('第 3 行：{message}');
+    expect(formatMessage('{a}{a}', { a: 0 })).toBe('00');
+    expect(formatMessage('{a}')).toBe('{a}');
+  });
+});
+
+describe('LocalizedError', () => {
+  it('訊息為來源語言，介面再以目前語言翻譯', () => {
+    const error = new LocalizedError('syncError.status', { status: 503 });
+    expect(error.message).toBe(sourceMessage('syncError.status', { status: 503 }));
+    expect(errorText((key, params) => formatMessage(en[key], params), error)).toBe(formatMessage(en['syncError.status'], { status: 503 }));
+    expect(errorText(() => 'x', new Error('原文'))).toBe('原文');
+  });
+});
+
+describe('文字目錄', () => {
+  it('各語言的參數與來源目錄一致', () => {
+    for (const key of Object.keys(zhTW) as MessageKey[]) {
+      expect([key, placeholders(en[key])]).toEqual([key, placeholders(zhTW[key])]);
+      const override = zhCNOverrides[key];
+      if (override !== undefined) expect([key, placeholders(override)]).toEqual([key, placeholders(zhTW[key])]);
+    }
+  });
+});
+
+describe('簡體目錄', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('由來源目錄轉換，保留參數名稱並套用手動修正與補丁規則', async () => {
+    const rules = parsePatchText('[s] 字典=词库').rules;
+    const catalog = await deriveSimplifiedCatalog(rules);
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(zhTW).sort());
+    expect(catalog['toast.saveFailed']).toBe(zhCNOverrides['toast.saveFailed']);
+    expect(catalog['syncError.status']).toContain('{status}');
+    expect(catalog['history.label']).toBe('转换历史');
+    expect(catalog['dictionary.renamePrompt']).toBe('词库名称');
+  }, 30000);
+
+  it('快取有效時直接使用，過期時仍可先取得舊的快取', async () => {
+    expect(cachedSimplifiedCatalog()).toBeNull();
+    const catalog = await loadSimplifiedCatalog([]);
+    const stored = JSON.parse(localStorage.getItem('dream_cloud_locale_zh_cn')!);
+    stored.catalog['history.label'] = '快取';
+    localStorage.setItem('dream_cloud_locale_zh_cn', JSON.stringify(stored));
+    expect((await loadSimplifiedCatalog([]))['history.label']).toBe('快取');
+    expect((await loadSimplifiedCatalog(parsePatchText('甲=乙').rules))['history.label']).toBe(catalog['history.label']);
+    expect(cachedSimplifiedCatalog()?.['history.label']).toBe(catalog['history.label']);
+  }, 30000);
+});
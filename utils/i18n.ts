@@ -0,0 +1,101 @@
+import { Locale, PatchRule } from '../types';
+import { MessageKey, zhTW } from '../locales/zh-TW';
+import { en } from '../locales/en';
+import { zhCNOverrides } from '../locales/zh-CN';
+import { convertWithPatches } from './converter';
+import { formatMessage, MessageParams } from './messages';
+
+/**
+ * 介面語言：文字目錄、語言偏好的保存，以及由臺灣繁體目錄自動產生的簡體目錄。
+ * 簡體目錄以 OpenCC 與啟用中的補丁規則轉換，再套用手動修正；結果快取在本地，
+ * 來源文字或規則改變時才重新產生。
+ */
+
+export type { MessageKey, MessageParams };
+export { formatMessage };
+export type Catalog = Record<MessageKey, string>;
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'zh-TW', label: '繁體中文' },
+  { value: 'zh-CN', label: '简体中文' },
+  { value: 'en', label: 'English' },
+];
+
+export const SOURCE_CATALOG: Catalog = zhTW;
+
+export const STATIC_CATALOGS: Partial<Record<Locale, Catalog>> = { 'zh-TW': zhTW, en };
+
+const STORAGE_KEY = 'dream_cloud_locale';
+const DERIVED_KEY = 'dream_cloud_locale_zh_cn';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.value === value);
+
+/**
+ * 讀取語言偏好；沒有紀錄時依瀏覽器語言猜測
+ */
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  for (const lang of navigator.languages ?? [navigator.language]) {
+    if (/^zh-(CN|SG|Hans)/i.test(lang)) return 'zh-CN';
+    if (/^zh/i.test(lang)) return 'zh-TW';
+    if (/^en/i.test(lang)) return 'en';
+  }
+  return 'zh-TW';
+};
+
+export const saveLocale = (locale: Locale) => localStorage.setItem(STORAGE_KEY, locale);
+
+// 來源文字與規則的摘要，用來判斷快取是否過期
+const catalogKey = (rules: PatchRule[]) => {
+  const text = JSON.stringify([
+    SOURCE_CATALOG,
+    rules.map(r => [r.old, r.newVal, r.direction, r.isRegex, r.wholeWord]),
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * 以轉換器產生簡體目錄；手動修正優先於自動轉換的結果
+ */
+export const deriveSimplifiedCatalog = async (rules: PatchRule[]): Promise<Catalog> => {
+  const keys = Object.keys(SOURCE_CATALOG) as MessageKey[];
+  const converted = await Promise.all(
+    keys.map(key => convertWithPatches(SOURCE_CATALOG[key], { from: 'twp', to: 'cn' }, { rules, format: 'plain' }))
+  );
+  return { ...(Object.fromEntries(keys.map((key, i) => [key, converted[i]])) as Catalog), ...zhCNOverrides };
+};
+
+/**
+ * 讀取快取的簡體目錄（不論是否過期），讓切換語言時不必等待轉換
+ */
+export const cachedSimplifiedCatalog = (): Catalog | null => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(DERIVED_KEY) || 'null');
+    // 新增的鍵在快取中還不存在，以來源文字補上
+    return cached?.catalog ? { ...SOURCE_CATALOG, ...cached.catalog, ...zhCNOverrides } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 取得最新的簡體目錄；快取仍有效時直接使用
+ */
+export const loadSimplifiedCatalog = async (rules: PatchRule[]): Promise<Catalog> => {
+  const key = catalogKey(rules);
+  try {
+    const cached = JSON.parse(localStorage.getItem(DERIVED_KEY) || 'null');
+    if (cached?.key === key) return { ...cached.catalog, ...zhCNOverrides };
+  } catch {
+    // 損壞的快取重新產生
+  }
+  const catalog = await deriveSimplifiedCatalog(rules);
+  localStorage.setItem(DERIVED_KEY, JSON.stringify({ key, catalog }));
+  return catalog;
+};
@@ -0,0 +1,45 @@
+import { MessageKey, zhTW } from '../locales/zh-TW';
+
+/**
+ * 可翻譯的訊息：工具模組以訊息鍵回報錯誤，介面再以目前語言的目錄翻譯。
+ * 錯誤的 message 保留來源語言（臺灣繁體）的文字，供 CLI 與主控台紀錄使用。
+ * 此模組只依賴來源目錄，Worker 與 CLI 引用時不會連帶載入轉換器。
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * 尚未翻譯的訊息（例如規則檢查的結果），由介面以 t(key, params) 顯示
+ */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/**
+ * 代入 {name} 參數；沒有提供的參數原樣保留
+ */
+export const formatMessage = (template: string, params?: MessageParams): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+/**
+ * 來源語言的訊息文字
+ */
+export const sourceMessage = (key: MessageKey, params?: MessageParams): string => formatMessage(zhTW[key], params);
+
+export class LocalizedError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(sourceMessage(key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+/**
+ * 以目前語言說明錯誤；沒有訊息鍵的錯誤（例如瀏覽器或伺服器回傳的錯誤）顯示原文
+ */
+export const errorText = (t: Translate, error: unknown): string => {
+  if (error instanceof LocalizedError) return t(error.key, error.params);
+  return error instanceof Error ? error.message : String(error);
+};
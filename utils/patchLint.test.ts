@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionPair } from '../types';
+import { findUnmatchableRules, lintPatchRules } from './patchLint';
+import { parsePatchText } from './patchParser';
+
+const lint = (patches: string) =>
+  lintPatchRules(parsePatchText(patches).rules).map(({ kind, line, key, params, related }) => ({ kind, line, key, params, related }));
+
+describe('lintPatchRules', () => {
+  it('找出重複、衝突與被蓋過的規則', () => {
+    expect(lint('甲=一\n甲=一\n甲=二\n[t] 甲=三\n[re] 甲=四')).toEqual([
+      { kind: 'duplicate', line: 2, key: 'lint.duplicate', params: { line: 1 }, related: [1] },
+      { kind: 'conflict', line: 3, key: 'lint.conflict', params: { line: 1, newVal: '一' }, related: [1] },
+      { kind: 'shadowed', line: 4, key: 'lint.shadowed', params: { line: 1, old: '甲', newVal: '一' }, related: [1] },
+    ]);
+  });
+
+  it('範圍較寬的規則在後面時不算被蓋過', () => {
+    expect(lint('[t] 甲=一\n甲=二\n[w] 乙=三\n乙=四')).toEqual([]);
+  });
+
+  it('找出舊字與新字相同的規則', () => {
+    expect(lint('甲=甲\n[re] a=a')).toMatchObject([{ kind: 'identity', line: 1 }]);
+  });
+
+  it('找出同一方向上的替換循環並列出循環中的其他規則', () => {
+    const issues = lint('甲=乙\n乙=丙\n丙=甲\n丁=戊').sort((a, b) => a.line - b.line);
+    expect(issues.map(({ kind, line, related }) => ({ kind, line, related }))).toEqual([
+      { kind: 'cycle', line: 1, related: [2, 3] },
+      { kind: 'cycle', line: 2, related: [1, 3] },
+      { kind: 'cycle', line: 3, related: [1, 2] },
+    ]);
+    expect(String(issues[0].params?.path).split(', ').sort()).toEqual(['丙=甲', '乙=丙', '甲=乙'].sort());
+  });
+
+  it('方向不同的規則不構成循環', () => {
+    expect(lint('[s] 甲=乙\n[t] 乙=甲')).toEqual([]);
+  });
+});
+
+describe('findUnmatchableRules', () => {
+  // 以簡單的對照表模擬 OpenCC：轉為繁體時「软→軟」，只有香港以外的繁體把「着」改為「著」
+  const convert = async (text: string, { to }: ConversionPair) => {
+    const traditional = to === 'tw' || to === 'twp' || to === 'hk' || to === 't';
+    if (!traditional) return text.replace(/軟/g, '软');
+    return text.replace(/软/g, '軟').replace(/着/g, to === 'hk' ? '着' : '著');
+  };
+
+  it('在所有適用的轉換組合中都不可能命中時才列出', async () => {
+    const rules = parsePatchText('[t] 软件=軟體\n[t] 着=著\n[s] 軟件=软件\n软件=软体').rules;
+    const issues = await findUnmatchableRules(rules, convert);
+    expect(issues.map(({ line, key, params }) => ({ line, key, params }))).toEqual([
+      { line: 1, key: 'lint.unmatchable', params: { old: '软件', converted: '軟件' } },
+      { line: 3, key: 'lint.unmatchable', params: { old: '軟件', converted: '软件' } },
+    ]);
+  });
+
+  it('轉換結果的行數不符時不列出', async () => {
+    const issues = await findUnmatchableRules(parsePatchText('[t] 软=軟\n[t] 件=件').rules, async text => `${text}\n`);
+    expect(issues).toEqual([]);
+  });
+
+  it('略過正規表示式規則', async () => {
+    expect(await findUnmatchableRules(parsePatchText('[re][t] 软.=軟').rules, convert)).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { ConversionPair, ConversionType, PatchRule } from '../types';
+import { MessageKey } from '../locales/zh-TW';
+import { CHINESE_VARIANTS, getConversionDirection } from './converter';
+import { Message, MessageParams } from './messages';
+
+/**
+ * 規則檢查：找出重複、互相衝突或被蓋過的規則、循環替換、
+ * 舊字與新字相同，以及 OpenCC 輸出中不可能出現而永遠不會命中的規則。
+ */
+
+export type PatchLintKind = 'duplicate' | 'conflict' | 'shadowed' | 'cycle' | 'identity' | 'unmatchable';
+
+/** 問題說明的訊息鍵與參數，由介面翻譯 */
+export interface PatchLintIssue extends Message {
+  kind: PatchLintKind;
+  /** 有問題的規則行號 */
+  line: number;
+  /** 相關規則的行號（例如先出現的同名規則或循環中的其他規則） */
+  related: number[];
+}
+
+/** 各類問題的顯示順序；名稱見各語言目錄的 lint.kind.* */
+export const LINT_KINDS: PatchLintKind[] = ['duplicate', 'conflict', 'shadowed', 'cycle', 'identity', 'unmatchable'];
+
+const DIRECTIONS = [ConversionType.TO_SIMPLIFIED, ConversionType.TO_TRADITIONAL];
+
+const appliesTo = (rule: PatchRule, direction: ConversionType) => !rule.direction || rule.direction === direction;
+
+const scriptOf = (variant: ConversionPair['to']) => getConversionDirection({ from: variant, to: variant });
+
+// 跨越繁簡的中文轉換組合；同為繁體之間的地區轉換假設輸入已是目標字形，
+// 日本新字體不使用簡體字，兩者都不列入判斷
+const CROSS_SCRIPT_PAIRS: ConversionPair[] = CHINESE_VARIANTS
+  .filter(({ value }) => value !== 'jp')
+  .flatMap(({ value: from }, _, variants) => variants
+    .filter(({ value: to }) => scriptOf(to) !== scriptOf(from))
+    .map(({ value: to }) => ({ from, to })));
+
+const issue = (kind: PatchLintKind, rule: PatchRule, key: MessageKey, params?: MessageParams, related: number[] = []): PatchLintIssue =>
+  ({ kind, line: rule.line ?? 0, key, params, related });
+
+/**
+ * 同一比對字串的規則中，先出現者在等長命中時優先；
+ * 條件完全相同時後者重複或衝突，先出現者條件較寬時後者被蓋過
+ */
+const findDuplicates = (rules: PatchRule[]): PatchLintIssue[] => {
+  const issues: PatchLintIssue[] = [];
+  const byOld = new Map<string, PatchRule[]>();
+  for (const rule of rules) {
+    const key = `${rule.isRegex ? 're' : ''}|${rule.old}`;
+    const earlier = byOld.get(key) ?? [];
+    for (const prev of earlier) {
+      const sameScope = prev.direction === rule.direction && !!prev.wholeWord === !!rule.wholeWord;
+      if (sameScope && prev.newVal === rule.newVal) {
+        issues.push(issue('duplicate', rule, 'lint.duplicate', { line: prev.line ?? 0 }, [prev.line ?? 0]));
+        break;
+      }
+      if (sameScope) {
+        issues.push(issue('conflict', rule, 'lint.conflict', { line: prev.line ?? 0, newVal: prev.newVal }, [prev.line ?? 0]));
+        break;
+      }
+      const covers = (!prev.direction || prev.direction === rule.direction) && (!prev.wholeWord || !!rule.wholeWord);
+      if (covers) {
+        issues.push(issue('shadowed', rule, 'lint.shadowed', { line: prev.line ?? 0, old: prev.old, newVal: prev.newVal }, [prev.line ?? 0]));
+        break;
+      }
+    }
+    byOld.set(key, [...earlier, rule]);
+  }
+  return issues;
+};
+
+/**
+ * 以 Tarjan 演算法找出一般規則在同一方向上形成的替換循環（如 A=B、B=A）
+ */
+const findCycles = (rules: PatchRule[]): PatchLintIssue[] => {
+  const issues: PatchLintIssue[] = [];
+  const reported = new Set<string>();
+
+  for (const direction of DIRECTIONS) {
+    const edges = new Map<string, PatchRule[]>();
+    for (const rule of rules) {
+      if (rule.isRegex || rule.old === rule.newVal || !appliesTo(rule, direction)) continue;
+      edges.set(rule.old, [...(edges.get(rule.old) ?? []), rule]);
+    }
+
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let counter = 0;
+
+    const visit = (node: string) => {
+      index.set(node, counter);
+      low.set(node, counter++);
+      stack.push(node);
+      onStack.add(node);
+      for (const rule of edges.get(node) ?? []) {
+        const next = rule.newVal;
+        if (!edges.has(next)) continue;
+        if (!index.has(next)) {
+          visit(next);
+          low.set(node, Math.min(low.get(node)!, low.get(next)!));
+        } else if (onStack.has(next)) {
+          low.set(node, Math.min(low.get(node)!, index.get(next)!));
+        }
+      }
+      if (low.get(node) !== index.get(node)) return;
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length < 2) return;
+
+      const members = new Set(component);
+      const cycleRules = component.flatMap(n => edges.get(n)!.filter(r => members.has(r.newVal)));
+      const lines = cycleRules.map(r => r.line ?? 0).sort((a, b) => a - b);
+      const key = lines.join(',');
+      if (reported.has(key)) return;
+      reported.add(key);
+      const path = cycleRules.map(r => `${r.old}=${r.newVal}`).join(', ');
+      for (const rule of cycleRules) {
+        issues.push(issue('cycle', rule, 'lint.cycle', { path }, lines.filter(l => l !== rule.line)));
+      }
+    };
+
+    for (const node of edges.keys()) {
+      if (!index.has(node)) visit(node);
+    }
+  }
+  return issues;
+};
+
+/**
+ * 同步檢查一份規則清單（不含需要 OpenCC 的檢查）
+ */
+export const lintPatchRules = (rules: PatchRule[]): PatchLintIssue[] => [
+  ...rules.filter(r => !r.isRegex && r.old === r.newVal).map(r => issue('identity', r, 'lint.identity')),
+  ...findDuplicates(rules),
+  ...findCycles(rules),
+];
+
+/**
+ * 找出後置補丁中永遠不會命中的一般規則：舊字經某個轉換組合的 OpenCC 轉換後會改變，
+ * 代表其中含有該組合輸出中不會出現的字。規則依方向套用到多個組合（例如 cn→tw、cn→hk），
+ * 只有在所有適用的組合中都不可能比對成功時才列出。
+ * convert 由呼叫端提供（通常為 convertText）；每個組合只把尚未排除的舊字以換行串接轉換一次。
+ */
+export const findUnmatchableRules = async (
+  rules: PatchRule[],
+  convert: (text: string, pair: ConversionPair) => Promise<string>
+): Promise<PatchLintIssue[]> => {
+  const candidates = rules.filter(r => !r.isRegex && r.old && !r.old.includes('\n'));
+  // 在某個組合中可能命中的規則；其餘規則記下第一個組合的轉換結果作為說明
+  const matchable = new Set<PatchRule>();
+  const samples = new Map<PatchRule, string>();
+  for (const pair of CROSS_SCRIPT_PAIRS) {
+    const direction = getConversionDirection(pair);
+    const pending = candidates.filter(r => !matchable.has(r) && appliesTo(r, direction));
+    if (!pending.length) continue;
+    const lines = (await convert(pending.map(r => r.old).join('\n'), pair)).split('\n');
+    pending.forEach((rule, i) => {
+      // 行數不符時無法對應，視為可能命中
+      if (lines.length !== pending.length || lines[i] === rule.old) matchable.add(rule);
+      else if (!samples.has(rule)) samples.set(rule, lines[i]);
+    });
+  }
+
+  return candidates
+    .filter(rule => !matchable.has(rule))
+    .map(rule => issue('unmatchable', rule, 'lint.unmatchable', { old: rule.old, converted: samples.get(rule)! }));
+};
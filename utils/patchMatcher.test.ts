@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionType } from '../types';
+import { buildPatchMatcher } from './patchMatcher';
+import { parsePatchText } from './patchParser';
+
+const matcherOf = (patches: string, direction?: ConversionType) =>
+  buildPatchMatcher(parsePatchText(patches).rules, direction);
+
+describe('buildPatchMatcher', () => {
+  it('替換後的輸出不會再被其他規則比對', () => {
+    expect(matcherOf('A=B\nB=C').replace('AB')).toBe('BC');
+  });
+
+  it('同一位置取最長的命中', () => {
+    expect(matcherOf('軟體=软件\n軟體工程=软件工程学').replace('軟體工程師')).toBe('软件工程学師');
+  });
+
+  it('等長命中時依規則順序取第一條', () => {
+    expect(matcherOf('甲=一\n甲=二').replace('甲')).toBe('一');
+  });
+
+  it('等長命中時一般規則優先於正規表示式規則', () => {
+    expect(matcherOf('[re] 甲.=正則\n甲乙=一般').replace('甲乙')).toBe('一般');
+  });
+
+  it('只套用指定方向與未限定方向的規則', () => {
+    const patches = '[s] 甲=简\n[t] 甲=繁\n乙=共';
+    expect(matcherOf(patches, ConversionType.TO_SIMPLIFIED).replace('甲乙')).toBe('简共');
+    expect(matcherOf(patches, ConversionType.TO_TRADITIONAL).replace('甲乙')).toBe('繁共');
+  });
+
+  it('整詞規則不比對詞中的片段', () => {
+    const matcher = matcherOf('[w] cat=dog');
+    expect(matcher.replace('cat catalog')).toBe('dog catalog');
+  });
+
+  it('正規表示式規則展開擷取群組', () => {
+    expect(matcherOf('[re] (\\d+)年=$1 年').replace('2024年')).toBe('2024 年');
+    expect(matcherOf('[re] (?<n>\\d+)=[$<n>]').replace('a12')).toBe('a[12]');
+    expect(matcherOf('[re] x=$$&').replace('x')).toBe('$&');
+  });
+
+  it('與解析器一致，不套用能命中空字串的正規表示式規則', () => {
+    expect(parsePatchText('[re] a*=b').rules).toEqual([]);
+    const matcher = buildPatchMatcher([{ old: 'a*', newVal: 'b', isRegex: true }]);
+    expect(matcher.replace('cac')).toBe('cac');
+  });
+
+  it('略過長度為零的正規表示式命中', () => {
+    expect(matcherOf('[re] (?<=a)=X').replace('ab')).toBe('ab');
+  });
+
+  it('以代理對表示的字元視為單一字元', () => {
+    expect(matcherOf('𠮷=吉').replace('𠮷野家')).toBe('吉野家');
+  });
+
+  it('命中不會跨越分隔字元，分隔字元本身不受影響', () => {
+    const matches = matcherOf('[re] \\S+=X').scan('ab\uE000cd', ch => ch === '\uE000');
+    expect(matches.map(m => [m.start, m.end])).toEqual([[0, 2], [3, 5]]);
+  });
+
+  it('回傳命中的規則與位置', () => {
+    const [match] = matcherOf('# 註解\n甲=乙').scan('丙甲');
+    expect(match).toMatchObject({ start: 1, end: 2, replacement: '乙', rule: { old: '甲', line: 2 } });
+  });
+});
@@ -0,0 +1,228 @@
+import { ConversionType, PatchRule } from '../types';
+
+/**
+ * 字典樹節點：每個節點對應規則關鍵字的一個字元
+ */
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  rules: PatchRule[];
+}
+
+/**
+ * 正規表示式規則在單次掃描中的狀態（快取下一個命中位置）
+ */
+interface RegexState {
+  rule: PatchRule;
+  regex: RegExp;
+  next: RegExpExecArray | null | undefined;
+}
+
+interface Candidate {
+  rule: PatchRule;
+  end: number;
+  replacement: string;
+}
+
+/**
+ * 單一命中：原文 [start, end) 由 rule 替換為 replacement
+ */
+export interface PatchMatch {
+  start: number;
+  end: number;
+  rule: PatchRule;
+  replacement: string;
+}
+
+/**
+ * 由規則建立一次、可重複使用的補丁比對器
+ */
+export interface PatchMatcher {
+  /** isBarrier 為真的字元（例如遮罩用的替代字元）不會被比對，任何命中都不會跨越它 */
+  scan: (text: string, isBarrier?: (ch: string) => boolean) => PatchMatch[];
+  replace: (text: string) => string;
+}
+
+const createNode = (): TrieNode => ({ children: new Map(), rules: [] });
+
+const charAt = (text: string, index: number): string | undefined =>
+  index < text.length ? String.fromCodePoint(text.codePointAt(index)!) : undefined;
+
+const charBefore = (text: string, index: number): string | undefined => {
+  if (index <= 0) return undefined;
+  const code = text.charCodeAt(index - 1);
+  const isLowSurrogate = code >= 0xdc00 && code <= 0xdfff;
+  return isLowSurrogate && index >= 2 ? text.slice(index - 2, index) : text[index - 1];
+};
+
+/**
+ * 整詞比對用的字元分類：漢字、其他文字與數字、其餘符號
+ */
+const charClass = (ch: string | undefined): 'han' | 'word' | 'other' => {
+  if (!ch) return 'other';
+  if (/\p{Script=Han}/u.test(ch)) return 'han';
+  if (/[\p{L}\p{N}_]/u.test(ch)) return 'word';
+  return 'other';
+};
+
+/**
+ * 檢查 [start, end) 兩端是否與相鄰字元形成邊界
+ */
+const isWholeWord = (text: string, start: number, end: number): boolean => {
+  const head = charClass(charAt(text, start));
+  const tail = charClass(charBefore(text, end));
+  if (head !== 'other' && charClass(charBefore(text, start)) === head) return false;
+  if (tail !== 'other' && charClass(charAt(text, end)) === tail) return false;
+  return true;
+};
+
+/**
+ * 展開正規表示式規則的取代字串（$$、$&、$n、$<name>）
+ */
+const expandReplacement = (template: string, match: RegExpExecArray): string =>
+  template.replace(/\$(\$|&|<([^>]+)>|(\d{1,2}))/g, (token, kind: string, name?: string, num?: string) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const n = Number(num);
+    if (n > 0 && n < match.length) return match[n] ?? '';
+    const single = Number(num![0]);
+    if (num!.length === 2 && single > 0 && single < match.length) return (match[single] ?? '') + num![1];
+    return token;
+  });
+
+/**
+ * 能命中空字串的正規表示式規則（例如 a*）不會套用，與 patchParser 拒絕這類規則的判斷相同
+ */
+const matchesEmpty = (rule: PatchRule): boolean => new RegExp(rule.old, 'u').test('');
+
+/**
+ * 將一般規則建成字典樹；同一關鍵字保留所有規則，依原順序取第一條可用者
+ */
+const buildTrie = (rules: PatchRule[]): TrieNode => {
+  const root = createNode();
+  rules.forEach(rule => {
+    if (!rule.old || rule.isRegex) return;
+    let node = root;
+    for (const ch of rule.old) {
+      let next = node.children.get(ch);
+      if (!next) {
+        next = createNode();
+        node.children.set(ch, next);
+      }
+      node = next;
+    }
+    node.rules.push(rule);
+  });
+  return root;
+};
+
+/**
+ * 從指定位置沿字典樹往下走，回傳最長的可用規則
+ */
+const findLiteralMatch = (root: TrieNode, text: string, start: number): Candidate | null => {
+  let node: TrieNode | undefined = root;
+  let best: Candidate | null = null;
+  let i = start;
+  while (i < text.length) {
+    const ch = charAt(text, i)!;
+    node = node.children.get(ch);
+    if (!node) break;
+    i += ch.length;
+    const end = i;
+    const rule = node.rules.find(r => !r.wholeWord || isWholeWord(text, start, end));
+    if (rule) best = { rule, end, replacement: rule.newVal };
+  }
+  return best;
+};
+
+/**
+ * 取得正規表示式規則在指定位置的命中結果；略過長度為零的命中（例如只有 \b 或環視的模式）
+ */
+const findRegexMatch = (state: RegexState, text: string, start: number): Candidate | null => {
+  if (state.next === null) return null;
+  if (state.next === undefined || state.next.index < start) {
+    state.regex.lastIndex = start;
+    let m = state.regex.exec(text);
+    while (m && m[0].length === 0) {
+      state.regex.lastIndex = m.index + (charAt(text, m.index)?.length ?? 1);
+      m = state.regex.exec(text);
+    }
+    state.next = m;
+  }
+  const m = state.next;
+  if (!m || m.index !== start) return null;
+  const end = start + m[0].length;
+  if (state.rule.wholeWord && !isWholeWord(text, start, end)) {
+    state.next = undefined;
+    return null;
+  }
+  return { rule: state.rule, end, replacement: expandReplacement(state.rule.newVal, m) };
+};
+
+/**
+ * 建立單次掃描、最長優先的補丁比對器。
+ * 文字只掃描一次，替換後的輸出不會再被其他規則比對，因此規則之間不會連鎖替換。
+ * 等長命中時一般規則優先，其次依規則在清單中的順序。
+ * 指定 direction 時只套用該方向與未限定方向的規則。
+ * 掃描時可指定分隔字元：文字在分隔字元處切成數段各自比對（正規表示式的 ^、$ 也以段落為準），
+ * 分隔字元本身保持不變，避免 \S+、. 之類的規則吃掉遮罩。
+ */
+export const buildPatchMatcher = (rules: PatchRule[], direction?: ConversionType): PatchMatcher => {
+  const active = rules.filter(r => !r.direction || r.direction === direction);
+  const root = buildTrie(active);
+  const regexRules = active.filter(r => r.isRegex && !matchesEmpty(r));
+
+  // 掃描單一段落，命中位置加上 offset 換算回整段文字
+  const scanSegment = (text: string, offset: number, matches: PatchMatch[]) => {
+    const states: RegexState[] = regexRules.map(rule => ({ rule, regex: new RegExp(rule.old, 'gu'), next: undefined }));
+    let i = 0;
+    while (i < text.length) {
+      let best = findLiteralMatch(root, text, i);
+      for (const state of states) {
+        const candidate = findRegexMatch(state, text, i);
+        if (candidate && (!best || candidate.end > best.end)) best = candidate;
+      }
+      if (best) {
+        matches.push({ start: offset + i, end: offset + best.end, rule: best.rule, replacement: best.replacement });
+        i = best.end;
+      } else {
+        i += charAt(text, i)!.length;
+      }
+    }
+  };
+
+  const scan = (text: string, isBarrier?: (ch: string) => boolean): PatchMatch[] => {
+    const matches: PatchMatch[] = [];
+    if (root.children.size === 0 && regexRules.length === 0) return matches;
+    if (!isBarrier) {
+      scanSegment(text, 0, matches);
+      return matches;
+    }
+    let start = 0;
+    let i = 0;
+    while (i < text.length) {
+      const ch = charAt(text, i)!;
+      if (isBarrier(ch)) {
+        if (i > start) scanSegment(text.slice(start, i), start, matches);
+        start = i + ch.length;
+      }
+      i += ch.length;
+    }
+    if (start < text.length) scanSegment(text.slice(start), start, matches);
+    return matches;
+  };
+
+  const replace = (text: string): string => {
+    const matches = scan(text);
+    if (matches.length === 0) return text;
+    let result = '';
+    let cursor = 0;
+    for (const m of matches) {
+      result += text.slice(cursor, m.start) + m.replacement;
+      cursor = m.end;
+    }
+    return result + text.slice(cursor);
+  };
+
+  return { scan, replace };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { PatchSet } from '../types';
+import { EMPTY_PATCH_SET, hashPatchSet, mergePatchSets, samePatchSet } from './patchMerge';
+
+const patches = (text: string): PatchSet => ({ ...EMPTY_PATCH_SET, patches: text });
+
+describe('mergePatchSets', () => {
+  it('只有一方修改的規則採用該方的版本', () => {
+    const base = patches('甲=一\n乙=二\n丙=三');
+    const local = patches('甲=壹\n乙=二\n丙=三\n丁=四');
+    const remote = patches('甲=一\n丙=叁');
+    const { patchSet, conflicts } = mergePatchSets(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(patchSet.patches).toBe('甲=壹\n丙=叁\n丁=四');
+  });
+
+  it('依本地順序輸出，再接上只存在於雲端的規則', () => {
+    const { patchSet } = mergePatchSets(EMPTY_PATCH_SET, patches('乙=二\n甲=一'), patches('甲=一\n丙=三'));
+    expect(patchSet.patches).toBe('乙=二\n甲=一\n丙=三');
+  });
+
+  it('兩方改成不同內容時列為衝突，未選擇時以本地為準', () => {
+    const base = patches('甲=一');
+    const local = patches('甲=壹');
+    const remote = patches('甲=弌');
+    const { patchSet, conflicts } = mergePatchSets(base, local, remote);
+    expect(conflicts).toEqual([
+      { id: 'patches:甲', field: 'patches', key: '甲', base: '甲=一', local: '甲=壹', remote: '甲=弌' },
+    ]);
+    expect(patchSet.patches).toBe('甲=壹');
+    expect(mergePatchSets(base, local, remote, { 'patches:甲': 'remote' }).patchSet.patches).toBe('甲=弌');
+  });
+
+  it('一方刪除、另一方修改時列為衝突', () => {
+    const { conflicts } = mergePatchSets(patches('甲=一'), patches(''), patches('甲=壹'));
+    expect(conflicts).toMatchObject([{ local: null, remote: '甲=壹' }]);
+  });
+
+  it('保護詞以整行為鍵，各欄位分別合併', () => {
+    const base = { patches: '甲=一', prePatches: '', protectedTerms: 'A' };
+    const local = { patches: '甲=一', prePatches: '乙=二', protectedTerms: 'A\nB' };
+    const remote = { patches: '甲=壹', prePatches: '', protectedTerms: 'C' };
+    expect(mergePatchSets(base, local, remote)).toEqual({
+      patchSet: { patches: '甲=壹', prePatches: '乙=二', protectedTerms: 'B\nC' },
+      conflicts: [],
+    });
+  });
+});
+
+describe('samePatchSet 與 hashPatchSet', () => {
+  it('忽略行首尾空白與空行', () => {
+    const a = patches('甲=一\n乙=二');
+    const b = patches('  甲=一\n\n乙=二  \n');
+    expect(samePatchSet(a, b)).toBe(true);
+    expect(hashPatchSet(a)).toBe(hashPatchSet(b));
+    expect(hashPatchSet(a)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('內容或欄位不同時視為不同', () => {
+    const a = patches('甲=一');
+    const b = { ...EMPTY_PATCH_SET, prePatches: '甲=一' };
+    expect(samePatchSet(a, b)).toBe(false);
+    expect(hashPatchSet(a)).not.toBe(hashPatchSet(b));
+  });
+});
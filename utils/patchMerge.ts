@@ -0,0 +1,121 @@
+import { PatchSet } from '../types';
+import { patchLineKey } from './patchParser';
+
+/**
+ * 以規則為單位的三方合併：比較共同基準（上次同步的版本）、本地與雲端。
+ * 只有一方修改的規則直接採用該方的版本；兩方改成不同內容時列為衝突，
+ * 由使用者選擇本地或雲端（未選擇時暫以本地為準）。
+ */
+
+export type PatchField = keyof PatchSet;
+
+export type MergeChoice = 'local' | 'remote';
+
+export interface MergeConflict {
+  id: string;
+  field: PatchField;
+  key: string;
+  base: string | null;
+  local: string | null;
+  remote: string | null;
+}
+
+export interface MergeResult {
+  patchSet: PatchSet;
+  conflicts: MergeConflict[];
+}
+
+export const PATCH_FIELDS: PatchField[] = ['patches', 'prePatches', 'protectedTerms'];
+
+export const EMPTY_PATCH_SET: PatchSet = { patches: '', prePatches: '', protectedTerms: '' };
+
+// 比較與雜湊時忽略行首尾空白與空行
+const normalizeField = (text: string): string =>
+  text.split('\n').map(l => l.trim()).filter(Boolean).join('\n');
+
+/**
+ * 將一份規則文字拆成「鍵 → 行」；同一鍵重複出現時以流水號區分
+ */
+const indexLines = (text: string, field: PatchField): Map<string, string> => {
+  const map = new Map<string, string>();
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    const baseKey = field === 'protectedTerms' ? line : patchLineKey(line);
+    let key = baseKey;
+    for (let n = 2; map.has(key); n++) key = `${baseKey}\u0000${n}`;
+    map.set(key, line);
+  });
+  return map;
+};
+
+const mergeField = (
+  field: PatchField,
+  base: string,
+  local: string,
+  remote: string,
+  choices: Record<string, MergeChoice>,
+  conflicts: MergeConflict[]
+): string => {
+  const b = indexLines(base, field);
+  const l = indexLines(local, field);
+  const r = indexLines(remote, field);
+
+  // 依本地順序輸出，再接上只存在於雲端的新鍵
+  const keys = [...l.keys(), ...[...r.keys()].filter(k => !l.has(k))];
+  const lines: string[] = [];
+
+  for (const key of keys) {
+    const baseLine = b.get(key) ?? null;
+    const localLine = l.get(key) ?? null;
+    const remoteLine = r.get(key) ?? null;
+
+    let chosen: string | null;
+    if (localLine === remoteLine) chosen = localLine;
+    else if (localLine === baseLine) chosen = remoteLine;
+    else if (remoteLine === baseLine) chosen = localLine;
+    else {
+      const id = `${field}:${key}`;
+      conflicts.push({ id, field, key: key.split('\u0000')[0], base: baseLine, local: localLine, remote: remoteLine });
+      chosen = choices[id] === 'remote' ? remoteLine : localLine;
+    }
+    if (chosen !== null) lines.push(chosen);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * 三方合併整組補丁設定
+ */
+export const mergePatchSets = (
+  base: PatchSet,
+  local: PatchSet,
+  remote: PatchSet,
+  choices: Record<string, MergeChoice> = {}
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const patchSet = { ...EMPTY_PATCH_SET };
+  for (const field of PATCH_FIELDS) {
+    patchSet[field] = mergeField(field, base[field], local[field], remote[field], choices, conflicts);
+  }
+  return { patchSet, conflicts };
+};
+
+/**
+ * 比較兩組補丁設定是否相同（忽略行首尾空白與空行）
+ */
+export const samePatchSet = (a: PatchSet, b: PatchSet): boolean =>
+  PATCH_FIELDS.every(field => normalizeField(a[field]) === normalizeField(b[field]));
+
+/**
+ * 補丁設定的內容雜湊（FNV-1a），用於顯示與快速比對版本
+ */
+export const hashPatchSet = (patchSet: PatchSet): string => {
+  const source = PATCH_FIELDS.map(field => normalizeField(patchSet[field])).join('\u0001');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionType } from '../types';
+import { escapePatchText, formatPatchRule, parsePatchText, patchLineKey } from './patchParser';
+
+describe('parsePatchText', () => {
+  it('解析一般規則並略過註解與空行', () => {
+    const { rules, errors } = parsePatchText('# 註解\n\n 軟體 = 软件 ');
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([{ old: '軟體', newVal: '软件', line: 3 }]);
+  });
+
+  it('解析組合的標記', () => {
+    const [rule] = parsePatchText('[S, W] 甲=乙').rules;
+    expect(rule).toMatchObject({ direction: ConversionType.TO_SIMPLIFIED, wholeWord: true });
+    expect(rule.isRegex).toBeUndefined();
+  });
+
+  it('還原轉義字元', () => {
+    expect(parsePatchText('a\\=b=c\\\\d').rules[0]).toMatchObject({ old: 'a=b', newVal: 'c\\d' });
+    expect(parsePatchText('\\#tag=標籤\n\\[x]=y').rules.map(r => r.old)).toEqual(['#tag', '[x]']);
+  });
+
+  it('正規表示式規則保留反斜線', () => {
+    expect(parsePatchText('[re] \\d+\\==$&').rules[0]).toMatchObject({ old: '\\d+=', newVal: '$&', isRegex: true });
+  });
+
+  it('以訊息鍵回報逐行錯誤，並保留來源語言的文字', () => {
+    const { rules, errors } = parsePatchText([
+      '[t 甲=乙',
+      '[s,t] 甲=乙',
+      '[x] 甲=乙',
+      '甲乙',
+      '=乙',
+      '[re] a*=b',
+      '[re] (=b',
+      '丙=丁',
+    ].join('\n'));
+    expect(rules.map(r => r.line)).toEqual([8]);
+    expect(errors.map(({ line, key, params }) => ({ line, key, params }))).toEqual([
+      { line: 1, key: 'parse.unclosedFlags', params: undefined },
+      { line: 2, key: 'parse.conflictingDirections', params: undefined },
+      { line: 3, key: 'parse.unknownFlag', params: { flag: 'x' } },
+      { line: 4, key: 'parse.missingSeparator', params: undefined },
+      { line: 5, key: 'parse.emptyOld', params: undefined },
+      { line: 6, key: 'parse.emptyMatch', params: undefined },
+      { line: 7, key: 'parse.invalidRegex', params: { message: expect.any(String) } },
+    ]);
+    expect(errors[2].message).toContain('x');
+  });
+});
+
+describe('formatPatchRule', () => {
+  it('與解析結果互為還原', () => {
+    const samples = [
+      { old: 'a=b', newVal: '#c\\', direction: ConversionType.TO_TRADITIONAL },
+      { old: '#開頭', newVal: '[括號]', wholeWord: true },
+      { old: '(\\d)=', newVal: '$1', isRegex: true },
+    ];
+    for (const sample of samples) {
+      const { rules, errors } = parsePatchText(formatPatchRule(sample.old, sample.newVal, sample));
+      expect(errors).toEqual([]);
+      expect(rules[0]).toMatchObject(sample);
+    }
+  });
+
+  it('依固定順序輸出標記', () => {
+    expect(formatPatchRule('x', 'y', { wholeWord: true, isRegex: true, direction: ConversionType.TO_SIMPLIFIED }))
+      .toBe('[s,re,w] x=y');
+    expect(escapePatchText('#a=b')).toBe('\\#a\\=b');
+  });
+});
+
+describe('patchLineKey', () => {
+  it('以標記與 = 左側為鍵，註解與無法解析的行以整行為鍵', () => {
+    expect(patchLineKey(' [t] 甲 = 乙 ')).toBe('[t] 甲');
+    expect(patchLineKey('a\\=b=c')).toBe('a\\=b');
+    expect(patchLineKey('# a=b')).toBe('# a=b');
+    expect(patchLineKey('沒有分隔')).toBe('沒有分隔');
+  });
+});
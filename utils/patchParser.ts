@@ -0,0 +1,166 @@
+import { ConversionType, PatchParseError, PatchRule } from '../types';
+import { MessageKey } from '../locales/zh-TW';
+import { MessageParams, sourceMessage } from './messages';
+
+/**
+ * 補丁規則語法（每行一條）：
+ *
+ *   # 註解                 以 # 開頭的整行會被忽略
+ *   舊字=新字              一般規則，兩個方向都會套用
+ *   [s] 舊字=新字          只在轉為簡體時套用
+ *   [t] 舊字=新字          只在轉為繁體時套用
+ *   [w] 舊字=新字          整詞規則：前後相鄰字元不可與端點同屬英數字或同屬漢字
+ *   [re] 模式=取代         正規表示式規則，取代內容可用 $1、$<name>、$& 引用
+ *   [t,w] 舊字=新字        標記可用逗號組合
+ *
+ * 第一個未轉義的 = 為分隔符號；左側的 = 請寫成 \=。
+ * 其他轉義：\\ 表示反斜線，\# 與 \[ 可讓行首的 # 或 [ 視為一般文字。
+ */
+
+export interface PatchParseResult {
+  rules: PatchRule[];
+  errors: PatchParseError[];
+}
+
+const FLAG_PATTERN = /^\[([^\]]*)\]\s*/;
+
+/**
+ * 找出第一個未被反斜線轉義的 =
+ */
+const findSeparator = (line: string): number => {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') { i++; continue; }
+    if (line[i] === '=') return i;
+  }
+  return -1;
+};
+
+/**
+ * 規則行的識別鍵（標記與 = 左側的原始文字），供合併時判斷兩邊是否為同一條規則；
+ * 註解與無法解析的行以整行為鍵
+ */
+export const patchLineKey = (rawLine: string): string => {
+  const line = rawLine.trim();
+  if (line.startsWith('#')) return line;
+  const sep = findSeparator(line);
+  return sep < 0 ? line : line.slice(0, sep).trim();
+};
+
+/**
+ * 還原一般規則中的轉義字元
+ */
+const unescapeLiteral = (value: string): string =>
+  value.replace(/\\([\\=#[])/g, '$1');
+
+/**
+ * 正規表示式規則只還原 \=，其餘反斜線保留給正規表示式本身
+ */
+const unescapeRegex = (value: string): string =>
+  value.replace(/\\(\\)|\\=/g, (_, backslash) => (backslash ? '\\\\' : '='));
+
+/**
+ * 將字串轉義為可安全寫回規則清單的形式
+ */
+export const escapePatchText = (value: string): string =>
+  value.replace(/[\\=]/g, '\\$&').replace(/^[#[]/, '\\$&');
+
+/**
+ * 由舊字與新字組出一行規則；可帶入方向、整詞與正規表示式標記
+ */
+export const formatPatchRule = (
+  old: string,
+  newVal: string,
+  flags: Pick<PatchRule, 'direction' | 'isRegex' | 'wholeWord'> = {}
+): string => {
+  const tags: string[] = [];
+  if (flags.direction) tags.push(flags.direction === ConversionType.TO_SIMPLIFIED ? 's' : 't');
+  if (flags.isRegex) tags.push('re');
+  if (flags.wholeWord) tags.push('w');
+  const escape = flags.isRegex ? (v: string) => v.replace(/=/g, '\\=') : escapePatchText;
+  const body = `${escape(old)}=${escape(newVal)}`;
+  return tags.length ? `[${tags.join(',')}] ${body}` : body;
+};
+
+/**
+ * 解析補丁文字為規則與逐行錯誤
+ */
+export const parsePatchText = (patchStr: string): PatchParseResult => {
+  const rules: PatchRule[] = [];
+  const errors: PatchParseError[] = [];
+  const fail = (line: number, key: MessageKey, params?: MessageParams) =>
+    errors.push({ line, key, params, message: sourceMessage(key, params) });
+
+  patchStr.split('\n').forEach((rawLine, index) => {
+    const line = index + 1;
+    let body = rawLine.trim();
+    if (!body || body.startsWith('#')) return;
+
+    let direction: ConversionType | undefined;
+    let isRegex = false;
+    let wholeWord = false;
+
+    if (body.startsWith('[')) {
+      const flagMatch = body.match(FLAG_PATTERN);
+      if (!flagMatch) {
+        fail(line, 'parse.unclosedFlags');
+        return;
+      }
+      const flags = flagMatch[1].split(',').map(f => f.trim().toLowerCase()).filter(Boolean);
+      for (const flag of flags) {
+        if (flag === 's' || flag === 't') {
+          const next = flag === 's' ? ConversionType.TO_SIMPLIFIED : ConversionType.TO_TRADITIONAL;
+          if (direction && direction !== next) {
+            fail(line, 'parse.conflictingDirections');
+            return;
+          }
+          direction = next;
+        } else if (flag === 're') {
+          isRegex = true;
+        } else if (flag === 'w') {
+          wholeWord = true;
+        } else {
+          fail(line, 'parse.unknownFlag', { flag });
+          return;
+        }
+      }
+      body = body.slice(flagMatch[0].length);
+    }
+
+    const sep = findSeparator(body);
+    if (sep < 0) {
+      fail(line, 'parse.missingSeparator');
+      return;
+    }
+
+    const rawOld = body.slice(0, sep).trim();
+    const rawNew = body.slice(sep + 1).trim();
+    const old = isRegex ? unescapeRegex(rawOld) : unescapeLiteral(rawOld);
+    const newVal = isRegex ? unescapeRegex(rawNew) : unescapeLiteral(rawNew);
+
+    if (!old) {
+      fail(line, 'parse.emptyOld');
+      return;
+    }
+
+    if (isRegex) {
+      try {
+        const probe = new RegExp(old, 'u');
+        if (probe.test('')) {
+          fail(line, 'parse.emptyMatch');
+          return;
+        }
+      } catch (e) {
+        fail(line, 'parse.invalidRegex', { message: (e as Error).message });
+        return;
+      }
+    }
+
+    const rule: PatchRule = { old, newVal, line };
+    if (direction) rule.direction = direction;
+    if (isRegex) rule.isRegex = true;
+    if (wholeWord) rule.wholeWord = true;
+    rules.push(rule);
+  });
+
+  return { rules, errors };
+};
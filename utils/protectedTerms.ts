@@ -0,0 +1,113 @@
+import { TextEdit } from './changeSpans';
+import { buildPatchMatcher } from './patchMatcher';
+import { LocalizedError } from './messages';
+
+/**
+ * 遮罩結果：受保護的片段被換成文字中未出現的私用區字元，轉換完成後再還原
+ */
+export interface ProtectedMask {
+  text: string;
+  /** 是否為此遮罩使用的替代字元；補丁比對以它為分隔，不會改動遮罩 */
+  isPlaceholder: (ch: string) => boolean;
+  /** 還原受保護片段所需的編輯（以編輯形式回傳，供追蹤變更位置使用）；替代字元遺失時拋出錯誤 */
+  restoreEdits: (converted: string) => TextEdit[];
+}
+
+// Unicode 私用區：基本多文種平面與第 15、16 平面
+const PUA_RANGES: Array<[number, number]> = [
+  [0xe000, 0xf8ff],
+  [0xf0000, 0xffffd],
+  [0x100000, 0x10fffd],
+];
+
+const isPrivateUse = (code: number) => PUA_RANGES.some(([lo, hi]) => code >= lo && code <= hi);
+
+const EMPTY_MASK = (text: string): ProtectedMask => ({ text, isPlaceholder: () => false, restoreEdits: () => [] });
+
+/**
+ * 依序產生文字中尚未出現的私用區字元
+ */
+const placeholderAllocator = (text: string) => {
+  const used = new Set<number>();
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (isPrivateUse(code)) used.add(code);
+  }
+  let range = 0;
+  let code = PUA_RANGES[0][0];
+  return (): string => {
+    while (range < PUA_RANGES.length) {
+      if (code > PUA_RANGES[range][1]) {
+        range++;
+        if (range < PUA_RANGES.length) code = PUA_RANGES[range][0];
+        continue;
+      }
+      const candidate = code++;
+      if (!used.has(candidate)) return String.fromCodePoint(candidate);
+    }
+    throw new LocalizedError('error.tooManyProtected');
+  };
+};
+
+/**
+ * 遮罩指定的範圍（需依位置排序且互不重疊）；內容相同的片段共用同一個替代字元
+ */
+export const maskRanges = (text: string, ranges: Array<[number, number]>): ProtectedMask => {
+  if (ranges.length === 0 || !text) return EMPTY_MASK(text);
+
+  const nextPlaceholder = placeholderAllocator(text);
+  const byContent = new Map<string, string>();
+  const placeholders = new Map<string, string>();
+  let masked = '';
+  let cursor = 0;
+  let count = 0;
+  for (const [start, end] of ranges) {
+    if (start < cursor || end <= start) continue;
+    count++;
+    const content = text.slice(start, end);
+    let mark = byContent.get(content);
+    if (!mark) {
+      mark = nextPlaceholder();
+      byContent.set(content, mark);
+      placeholders.set(mark, content);
+    }
+    masked += text.slice(cursor, start) + mark;
+    cursor = end;
+  }
+  masked += text.slice(cursor);
+
+  const restoreEdits = (converted: string): TextEdit[] => {
+    const edits: TextEdit[] = [];
+    let i = 0;
+    for (const ch of converted) {
+      const content = placeholders.get(ch);
+      if (content !== undefined) edits.push({ start: i, end: i + ch.length, text: content });
+      i += ch.length;
+    }
+    if (edits.length !== count) throw new LocalizedError('error.protectedLost');
+    return edits;
+  };
+
+  return { text: masked, isPlaceholder: ch => placeholders.has(ch), restoreEdits };
+};
+
+/**
+ * 解析保護詞清單：每行一個詞，空行與 # 開頭的註解會被忽略
+ */
+export const parseProtectedTerms = (termStr: string): string[] => {
+  const seen = new Set<string>();
+  termStr.split('\n').forEach(line => {
+    const term = line.trim();
+    if (term && !term.startsWith('#')) seen.add(term);
+  });
+  return [...seen];
+};
+
+/**
+ * 遮罩文字中的保護詞（最長優先）；無保護詞時原樣回傳
+ */
+export const maskProtectedTerms = (text: string, terms: string[]): ProtectedMask => {
+  if (terms.length === 0 || !text) return EMPTY_MASK(text);
+  const matcher = buildPatchMatcher(terms.map(term => ({ old: term, newVal: term })));
+  return maskRanges(text, matcher.scan(text).map(m => [m.start, m.end] as [number, number]));
+};
@@ -0,0 +1,11 @@
+/**
+ * 註冊 Service Worker（僅限正式建置；開發伺服器沒有預先快取清單）
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => {
+      console.warn('Service Worker 註冊失敗，離線功能無法使用', err);
+    });
+  });
+};
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ConversionType } from '../types';
+import { parsePatchText } from './patchParser';
+import { EMPTY_RULE_STATS, findDeadRules, loadRuleStats, pruneRuleStats, recordConversion, ruleStatKey, saveRuleStats } from './ruleStats';
+
+const [common, toSimplified, other] = parsePatchText('甲=一\n[s] 乙=二\n丙=三').rules;
+const active = [common, toSimplified, other].map(rule => ({ rule, stage: 'post' as const }));
+const key = (rule = common) => ruleStatKey(rule, 'post');
+
+describe('recordConversion', () => {
+  it('命中的規則累加命中次數並歸零未命中次數，其餘適用的規則累加未命中次數', () => {
+    let stats = recordConversion(EMPTY_RULE_STATS, active, [], ConversionType.TO_SIMPLIFIED);
+    stats = recordConversion(stats, active, [{ rule: common, stage: 'post', count: 3 }], ConversionType.TO_SIMPLIFIED);
+    expect(stats.conversions).toBe(2);
+    expect(stats.rules[key()]).toEqual({ hits: 3, idle: 0, lastHit: 2 });
+    expect(stats.rules[key(toSimplified)]).toEqual({ hits: 0, idle: 2, lastHit: null });
+  });
+
+  it('限定另一方向的規則與未參與的規則不受影響', () => {
+    const stats = recordConversion(EMPTY_RULE_STATS, active.slice(0, 2), [], ConversionType.TO_TRADITIONAL);
+    expect(stats.rules[key()]).toEqual({ hits: 0, idle: 1, lastHit: null });
+    expect(stats.rules[key(toSimplified)]).toBeUndefined();
+    expect(stats.rules[key(other)]).toBeUndefined();
+  });
+
+  it('前置與後置階段分開統計', () => {
+    const stats = recordConversion(EMPTY_RULE_STATS, [{ rule: common, stage: 'pre' }], [], ConversionType.TO_SIMPLIFIED);
+    expect(Object.keys(stats.rules)).toEqual([ruleStatKey(common, 'pre')]);
+  });
+});
+
+describe('findDeadRules 與 pruneRuleStats', () => {
+  const stats = [1, 2, 3].reduce(
+    (s, n) => recordConversion(s, active, n === 1 ? [{ rule: other, stage: 'post', count: 1 }] : [], ConversionType.TO_SIMPLIFIED),
+    EMPTY_RULE_STATS
+  );
+
+  it('找出連續未命中達門檻的規則', () => {
+    expect(findDeadRules(stats, [common, toSimplified, other], 'post', 3).map(d => [d.rule.old, d.idle])).toEqual([['甲', 3], ['乙', 3]]);
+    expect(findDeadRules(stats, [other], 'post', 2).map(d => d.idle)).toEqual([2]);
+  });
+
+  it('只保留仍存在的規則；沒有刪除時回傳原物件', () => {
+    expect(Object.keys(pruneRuleStats(stats, active.slice(0, 1)).rules)).toEqual([key()]);
+    expect(pruneRuleStats(stats, active)).toBe(stats);
+  });
+});
+
+describe('loadRuleStats', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('保存後可讀回', () => {
+    const stats = recordConversion(EMPTY_RULE_STATS, active, [], ConversionType.TO_SIMPLIFIED);
+    saveRuleStats(stats);
+    expect(loadRuleStats()).toEqual(stats);
+  });
+
+  it('舊版只有 firstSeen 的紀錄以轉換次數估算未命中次數', () => {
+    localStorage.setItem('dream_cloud_rule_stats', JSON.stringify({
+      conversions: 10,
+      rules: { a: { hits: 0, lastHit: null, firstSeen: 4 }, b: { hits: 2, lastHit: 7 } },
+    }));
+    expect(loadRuleStats().rules).toEqual({
+      a: { hits: 0, idle: 7, lastHit: null },
+      b: { hits: 2, idle: 3, lastHit: 7 },
+    });
+  });
+
+  it('損壞的紀錄重新開始', () => {
+    localStorage.setItem('dream_cloud_rule_stats', '{');
+    expect(loadRuleStats()).toEqual(EMPTY_RULE_STATS);
+  });
+});
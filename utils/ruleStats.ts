@@ -0,0 +1,119 @@
+import { ConversionType, PatchRule, RuleHit } from '../types';
+import { formatPatchRule } from './patchParser';
+
+/**
+ * 規則命中的累計統計（跨工作階段保存於 localStorage）。
+ * 每條規則只計算它能參與的轉換（所屬字典啟用中、方向相符），
+ * 藉此找出連續 N 次適用的轉換都沒有命中的規則。
+ */
+
+export interface RuleStat {
+  hits: number;
+  /** 自上次命中（或開始統計）以來，規則適用但未命中的轉換次數 */
+  idle: number;
+  /** 最後一次命中時的轉換序號；從未命中為 null */
+  lastHit: number | null;
+}
+
+export interface RuleStats {
+  /** 累計轉換次數 */
+  conversions: number;
+  rules: Record<string, RuleStat>;
+}
+
+export interface DeadRule {
+  rule: PatchRule;
+  stat: RuleStat;
+  /** 距離上次命中（或開始統計）已經過的適用轉換次數 */
+  idle: number;
+}
+
+const STORAGE_KEY = 'dream_cloud_rule_stats';
+
+export const EMPTY_RULE_STATS: RuleStats = { conversions: 0, rules: {} };
+
+/**
+ * 規則的統計鍵：所屬字典、階段與規則內容（內容改變即視為新規則）
+ */
+export const ruleStatKey = (rule: PatchRule, stage: RuleHit['stage']): string =>
+  `${rule.dictionary?.id ?? ''}|${stage}|${formatPatchRule(rule.old, rule.newVal, rule)}`;
+
+// 舊版紀錄只有 firstSeen（第一次參與的轉換序號），以全部轉換次數估算未命中次數
+const normalizeStat = (stat: Partial<RuleStat> & { firstSeen?: number }, conversions: number): RuleStat => {
+  const lastHit = typeof stat.lastHit === 'number' ? stat.lastHit : null;
+  const idle = typeof stat.idle === 'number'
+    ? stat.idle
+    : lastHit === null ? conversions - (stat.firstSeen ?? conversions) + 1 : conversions - lastHit;
+  return { hits: typeof stat.hits === 'number' ? stat.hits : 0, idle: Math.max(0, idle), lastHit };
+};
+
+export const loadRuleStats = (): RuleStats => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (data && typeof data.conversions === 'number' && data.rules && typeof data.rules === 'object') {
+      const rules: Record<string, RuleStat> = {};
+      for (const [key, stat] of Object.entries(data.rules)) {
+        if (stat && typeof stat === 'object') rules[key] = normalizeStat(stat, data.conversions);
+      }
+      return { conversions: data.conversions, rules };
+    }
+  } catch {
+    // 損壞的統計直接重新開始
+  }
+  return EMPTY_RULE_STATS;
+};
+
+export const saveRuleStats = (stats: RuleStats) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+};
+
+/**
+ * 記錄一次轉換。active 為實際參與這次轉換的規則（啟用中字典的規則）；
+ * 其中方向相符的規則未命中時累加未命中次數，命中者累加命中次數並歸零。
+ * 停用的字典與限定另一方向的規則不受影響。
+ */
+export const recordConversion = (
+  stats: RuleStats,
+  active: Array<{ rule: PatchRule; stage: RuleHit['stage'] }>,
+  hits: RuleHit[],
+  direction: ConversionType
+): RuleStats => {
+  const conversion = stats.conversions + 1;
+  const rules = { ...stats.rules };
+  const hitCounts = new Map(hits.map(({ rule, stage, count }) => [ruleStatKey(rule, stage), count]));
+  for (const { rule, stage } of active) {
+    if (rule.direction && rule.direction !== direction) continue;
+    const key = ruleStatKey(rule, stage);
+    if (hitCounts.has(key)) continue;
+    const stat = rules[key] ?? { hits: 0, idle: 0, lastHit: null };
+    rules[key] = { ...stat, idle: stat.idle + 1 };
+  }
+  for (const [key, count] of hitCounts) {
+    const stat = rules[key] ?? { hits: 0, idle: 0, lastHit: null };
+    rules[key] = { hits: stat.hits + count, idle: 0, lastHit: conversion };
+  }
+  return { conversions: conversion, rules };
+};
+
+/**
+ * 只保留仍存在於字典中的規則統計（規則被刪除或改寫後舊的鍵不再使用）
+ */
+export const pruneRuleStats = (stats: RuleStats, existing: Array<{ rule: PatchRule; stage: RuleHit['stage'] }>): RuleStats => {
+  const keys = new Set(existing.map(({ rule, stage }) => ruleStatKey(rule, stage)));
+  const rules = Object.fromEntries(Object.entries(stats.rules).filter(([key]) => keys.has(key)));
+  return Object.keys(rules).length === Object.keys(stats.rules).length ? stats : { ...stats, rules };
+};
+
+/**
+ * 找出至少連續 threshold 次適用的轉換都沒有命中的規則
+ */
+export const findDeadRules = (
+  stats: RuleStats,
+  rules: PatchRule[],
+  stage: RuleHit['stage'],
+  threshold: number
+): DeadRule[] =>
+  rules.flatMap(rule => {
+    const stat = stats.rules[ruleStatKey(rule, stage)];
+    return stat && stat.idle >= threshold ? [{ rule, stat, idle: stat.idle }] : [];
+  });
@@ -0,0 +1,47 @@
+/**
+ * 鍵盤快捷鍵：Mod 在 macOS 為 ⌘，其他平台為 Ctrl。
+ * 避開瀏覽器本身常用的組合（如 Ctrl+Shift+C/I/J）。
+ */
+
+export interface Shortcut {
+  key: string;
+  mod?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+export const SHORTCUTS = {
+  convert: { key: 'Enter', mod: true },
+  swap: { key: 's', mod: true, shift: true },
+  copy: { key: 'y', mod: true, shift: true },
+  prefillFix: { key: 'e', mod: true, shift: true },
+  quickFix: { key: 'f', mod: true, shift: true },
+  palette: { key: 'k', mod: true },
+} satisfies Record<string, Shortcut>;
+
+export type ShortcutAction = keyof typeof SHORTCUTS;
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const matchShortcut = (e: KeyboardEvent, shortcut: Shortcut): boolean =>
+  (IS_MAC ? e.metaKey : e.ctrlKey) === !!shortcut.mod &&
+  e.shiftKey === !!shortcut.shift &&
+  e.altKey === !!shortcut.alt &&
+  e.key.toLowerCase() === shortcut.key.toLowerCase();
+
+export const findShortcut = (e: KeyboardEvent): ShortcutAction | null =>
+  (Object.keys(SHORTCUTS) as ShortcutAction[]).find(action => matchShortcut(e, SHORTCUTS[action])) ?? null;
+
+/**
+ * 顯示用的按鍵組合，例如 Ctrl+Shift+S 或 ⌘⇧S
+ */
+export const formatShortcut = (shortcut: Shortcut): string => {
+  const key = shortcut.key === 'Enter' ? (IS_MAC ? '↩' : 'Enter') : shortcut.key.toUpperCase();
+  const parts = [
+    shortcut.mod && (IS_MAC ? '⌘' : 'Ctrl'),
+    shortcut.alt && (IS_MAC ? '⌥' : 'Alt'),
+    shortcut.shift && (IS_MAC ? '⇧' : 'Shift'),
+    key,
+  ].filter(Boolean);
+  return parts.join(IS_MAC ? '' : '+');
+};
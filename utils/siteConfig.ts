@@ -0,0 +1,287 @@
+import { Locale, PatchDictionary, SiteConfig, SiteText, SyncBackendKind, SyncSettings } from '../types';
+import { isDictionary } from './dictionaries';
+import { isLocale } from './i18n';
+import { LocalizedError } from './messages';
+import { SYNC_BACKENDS } from './syncAdapters';
+
+/**
+ * 網站設定：主程式與後台共用的讀取、驗證、版本遷移與設定包匯入匯出。
+ * 儲存的設定帶有版本號；讀取時依序套用遷移，再逐欄驗證，無效的欄位改用預設值。
+ */
+
+const STORAGE_KEY = 'dream_cloud_site_config';
+// 第 1 版之前另外存放的 GAS 網址
+const LEGACY_GAS_URL_KEY = 'dream_cloud_gas_url';
+
+export const SITE_CONFIG_VERSION = 4;
+
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  siteName: '夢幻文字雲端轉換器',
+  subtitle: '追求效率與美感的創作者工具',
+  translations: {},
+  customIcon: null,
+  clickSound: null,
+  sync: null,
+  embedOrigins: [],
+};
+
+type StoredConfig = Record<string, unknown> & { version: number };
+
+/**
+ * 各版本升到下一版的遷移；鍵為遷移前的版本
+ */
+const MIGRATIONS: Record<number, (data: StoredConfig) => StoredConfig> = {
+  // 第 1 版（未標版本）：同步只有 gasUrl；改為統一的 sync 設定
+  1: ({ gasUrl, ...data }) => ({
+    ...data,
+    sync: data.sync ?? (typeof gasUrl === 'string' && gasUrl ? { backend: 'gas', url: gasUrl } : null),
+    version: 2,
+  }),
+  // 第 2 版：新增各語言的網站名稱與副標題
+  2: data => ({ ...data, translations: data.translations ?? {}, version: 3 }),
+  // 第 3 版：新增嵌入允許來源
+  3: data => ({ ...data, embedOrigins: data.embedOrigins ?? [], version: 4 }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const migrate = (data: Record<string, unknown>): StoredConfig => {
+  let current: StoredConfig = { ...data, version: typeof data.version === 'number' ? data.version : 1 };
+  while (current.version < SITE_CONFIG_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) break;
+    current = step(current);
+  }
+  return current;
+};
+
+const validText = (value: unknown, fallback: string) =>
+  typeof value === 'string' && value.trim() ? value : fallback;
+
+const validMedia = (value: unknown) =>
+  typeof value === 'string' && /^(?:data:|https?:|blob:)/.test(value) ? value : null;
+
+const validSync = (value: unknown): SyncSettings | null => {
+  if (!isObject(value) || !SYNC_BACKENDS.includes(value.backend as SyncBackendKind)) return null;
+  const sync: SyncSettings = { backend: value.backend as SyncSettings['backend'], url: typeof value.url === 'string' ? value.url : '' };
+  for (const key of ['token', 'username', 'password'] as const) {
+    if (typeof value[key] === 'string') sync[key] = value[key] as string;
+  }
+  return sync;
+};
+
+// 只保留已知語言中非空白的名稱與副標題
+const validTranslations = (value: unknown): SiteConfig['translations'] => {
+  if (!isObject(value)) return {};
+  const translations: SiteConfig['translations'] = {};
+  for (const [locale, text] of Object.entries(value)) {
+    if (!isLocale(locale) || !isObject(text)) continue;
+    const entry: SiteText = {};
+    for (const key of ['siteName', 'subtitle'] as const) {
+      if (typeof text[key] === 'string' && (text[key] as string).trim()) entry[key] = text[key] as string;
+    }
+    if (Object.keys(entry).length) translations[locale] = entry;
+  }
+  return translations;
+};
+
+/**
+ * 將輸入的網址正規化為來源（scheme://host[:port]）；不是 http(s) 網址時回傳 null
+ */
+export const toOrigin = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+const validOrigins = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? [...new Set(value.filter((v): v is string => typeof v === 'string').map(toOrigin).filter((v): v is string => v !== null))]
+    : [];
+
+/**
+ * 將任意資料（可能是舊版或損壞的設定）遷移並驗證為完整的設定
+ */
+export const normalizeSiteConfig = (data: unknown): SiteConfig => {
+  if (!isObject(data)) return DEFAULT_SITE_CONFIG;
+  const migrated = migrate(data);
+  return {
+    siteName: validText(migrated.siteName, DEFAULT_SITE_CONFIG.siteName),
+    subtitle: typeof migrated.subtitle === 'string' ? migrated.subtitle : DEFAULT_SITE_CONFIG.subtitle,
+    translations: validTranslations(migrated.translations),
+    customIcon: validMedia(migrated.customIcon),
+    clickSound: validMedia(migrated.clickSound),
+    sync: validSync(migrated.sync),
+    embedOrigins: validOrigins(migrated.embedOrigins),
+  };
+};
+
+/**
+ * 讀取設定；不存在或損壞時回傳預設值，絕不拋出例外。
+ * 只存有舊版 GAS 網址鍵時一併遷移。
+ */
+export const loadSiteConfig = (): SiteConfig => {
+  let data: unknown = null;
+  try {
+    data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+  } catch {
+    // 損壞的設定視為不存在
+  }
+  const legacyGasUrl = localStorage.getItem(LEGACY_GAS_URL_KEY);
+  if (!isObject(data) && legacyGasUrl) data = { gasUrl: legacyGasUrl };
+  return normalizeSiteConfig(data);
+};
+
+/**
+ * 依介面語言取得網站名稱與副標題；該語言未另外設定時沿用預設值
+ */
+export const localizeSiteText = (config: SiteConfig, locale: Locale): Required<SiteText> => ({
+  siteName: config.translations[locale]?.siteName || config.siteName,
+  subtitle: config.translations[locale]?.subtitle || config.subtitle,
+});
+
+/**
+ * 儲存設定（附上版本號），並移除舊版的 GAS 網址鍵
+ */
+export const saveSiteConfig = (config: SiteConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SITE_CONFIG_VERSION, ...normalizeSiteConfig(config) }));
+  localStorage.removeItem(LEGACY_GAS_URL_KEY);
+};
+
+// 主程式上次確認過的設定摘要，用來提醒設定在兩次造訪之間被修改
+const SEEN_KEY = 'dream_cloud_seen_config';
+const SEEN_VERSION = 2;
+// 第 1 版的摘要以介面文字描述這兩欄，格式不同無法比較，升級時視為未變更
+const REFORMATTED_FIELDS: (keyof SiteConfig)[] = ['sync', 'embedOrigins'];
+
+/**
+ * 被修改的設定欄位；欄位名稱與變更後的值由介面依目前的設定與語言顯示
+ */
+export interface ConfigChange {
+  field: keyof SiteConfig;
+}
+
+// 圖示與音效可能是很大的 data URL，只保存雜湊
+const digest = (value: string | null) => {
+  if (value === null) return '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// 設定摘要不含同步憑證，也不含介面文字，切換語言不會被視為變更
+const summarize = (config: SiteConfig): Record<keyof SiteConfig, string> => ({
+  siteName: config.siteName,
+  subtitle: config.subtitle,
+  translations: JSON.stringify(config.translations),
+  customIcon: digest(config.customIcon),
+  clickSound: digest(config.clickSound),
+  sync: config.sync ? `${config.sync.backend} ${config.sync.url}`.trim() : '',
+  embedOrigins: config.embedOrigins.join('\n'),
+});
+
+export const markConfigSeen = (config: SiteConfig) => {
+  localStorage.setItem(SEEN_KEY, JSON.stringify({ version: SEEN_VERSION, ...summarize(config) }));
+};
+
+/**
+ * 與上次確認過的設定比較，列出被修改的欄位；第一次造訪時直接記錄目前設定
+ */
+export const findConfigChanges = (config: SiteConfig): ConfigChange[] => {
+  let seen: Partial<Record<keyof SiteConfig | 'version', unknown>> | null = null;
+  try {
+    seen = JSON.parse(localStorage.getItem(SEEN_KEY) || 'null');
+  } catch {
+    // 損壞的紀錄視為第一次造訪
+  }
+  const current = summarize(config);
+  if (!isObject(seen)) {
+    markConfigSeen(config);
+    return [];
+  }
+  if (seen.version !== SEEN_VERSION) {
+    seen = { ...seen };
+    REFORMATTED_FIELDS.forEach(field => delete seen![field]);
+  }
+  const fields = Object.keys(current) as (keyof SiteConfig)[];
+  // 舊版紀錄沒有的欄位（設定新增的欄位）視為未變更，並補進紀錄
+  if (seen.version !== SEEN_VERSION || fields.some(field => !(field in seen!))) {
+    localStorage.setItem(SEEN_KEY, JSON.stringify({ ...current, ...seen, version: SEEN_VERSION }));
+  }
+  return fields
+    .filter(field => field in seen! && seen![field] !== current[field])
+    .map(field => ({ field }));
+};
+
+/**
+ * 設定包：網站設定與所有字典，附 SHA-256 校驗碼以偵測傳輸或存放時的損毀。
+ * 校驗碼不含密鑰，任何人修改內容後都能重新計算，因此無法證明設定包的來源。
+ */
+export interface ConfigBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  config: SiteConfig & { version: number };
+  dictionaries: PatchDictionary[];
+  checksum: string;
+}
+
+const BUNDLE_FORMAT = 'dream-cloud-bundle';
+const BUNDLE_VERSION = 1;
+
+const checksum = async (payload: Omit<ConfigBundle, 'checksum'>): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return `sha256-${[...digest].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * 產生設定包；預設不含同步憑證（token 與密碼）
+ */
+export const createConfigBundle = async (
+  config: SiteConfig,
+  dictionaries: PatchDictionary[],
+  { includeCredentials = false } = {}
+): Promise<ConfigBundle> => {
+  const sync = config.sync && !includeCredentials
+    ? { backend: config.sync.backend, url: config.sync.url, ...(config.sync.username ? { username: config.sync.username } : {}) }
+    : config.sync;
+  const payload = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    config: { version: SITE_CONFIG_VERSION, ...config, sync },
+    dictionaries,
+  } as const;
+  return { ...payload, checksum: await checksum(payload) };
+};
+
+/**
+ * 解析並驗證設定包；格式不符、校驗碼不一致或沒有字典時拋出錯誤
+ */
+export const readConfigBundle = async (text: string): Promise<{ config: SiteConfig; dictionaries: PatchDictionary[] }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('admin.bundle.invalidJson');
+  }
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) throw new LocalizedError('admin.bundle.notBundle');
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) throw new LocalizedError('admin.bundle.tooNew');
+  const { checksum: stored, ...payload } = data;
+  if (stored !== (await checksum(payload as Omit<ConfigBundle, 'checksum'>))) {
+    throw new LocalizedError('admin.bundle.checksumMismatch');
+  }
+  const dictionaries = Array.isArray(data.dictionaries)
+    ? data.dictionaries.filter(isDictionary).map(d => ({ ...d, enabled: d.enabled !== false }))
+    : [];
+  if (!dictionaries.length) throw new LocalizedError('admin.bundle.noDictionaries');
+  return { config: normalizeSiteConfig(data.config), dictionaries };
+};
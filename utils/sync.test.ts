@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PatchSet } from '../types';
+import { EMPTY_PATCH_SET } from './patchMerge';
+import { decideSync, makeSnapshot, parseBody, toSnapshot } from './sync';
+
+const patches = (text: string): PatchSet => ({ ...EMPTY_PATCH_SET, patches: text });
+
+describe('decideSync', () => {
+  const base = makeSnapshot(3, patches('甲=一'));
+
+  it('本地與雲端相同時不需處理', () => {
+    expect(decideSync(base, patches(' 甲=二 '), makeSnapshot(4, patches('甲=二')))).toEqual({ kind: 'up-to-date' });
+  });
+
+  it('只有雲端更新時直接採用雲端', () => {
+    expect(decideSync(base, patches('甲=一'), makeSnapshot(4, patches('甲=二')))).toEqual({ kind: 'fast-forward' });
+  });
+
+  it('只有本地更新時上傳本地', () => {
+    expect(decideSync(base, patches('甲=二'), base)).toEqual({ kind: 'local-ahead' });
+  });
+
+  it('兩方都更新時以基準進行三方合併', () => {
+    expect(decideSync(base, patches('甲=二'), makeSnapshot(4, patches('甲=三'))))
+      .toEqual({ kind: 'conflict', base: base.patchSet });
+  });
+
+  it('版本號相同但內容雜湊不同時視為雲端已更新', () => {
+    const remote = { ...makeSnapshot(3, patches('甲=三')) };
+    expect(decideSync(base, patches('甲=二'), remote).kind).toBe('conflict');
+  });
+
+  it('沒有基準時以空白設定為基準', () => {
+    expect(decideSync(null, EMPTY_PATCH_SET, makeSnapshot(1, patches('甲=一')))).toEqual({ kind: 'fast-forward' });
+    expect(decideSync(null, patches('甲=二'), makeSnapshot(1, patches('甲=一'))))
+      .toEqual({ kind: 'conflict', base: EMPTY_PATCH_SET });
+  });
+
+  it('空白的版本 0 不會覆蓋本地內容', () => {
+    expect(decideSync(null, patches('甲=一'), makeSnapshot(0, EMPTY_PATCH_SET))).toEqual({ kind: 'local-ahead' });
+  });
+});
+
+describe('toSnapshot 與 parseBody', () => {
+  it('舊版的純文字與 { patches } 視為版本 0', () => {
+    expect(toSnapshot('甲=一')).toMatchObject({ revision: 0, patchSet: patches('甲=一') });
+    expect(toSnapshot({ patches: '甲=一' })).toMatchObject({ revision: 0, patchSet: patches('甲=一') });
+  });
+
+  it('略過型別不符的欄位', () => {
+    const snapshot = toSnapshot({ revision: '2', patches: 1, prePatches: '乙=二', protectedTerms: null });
+    expect(snapshot).toEqual(makeSnapshot(0, { patches: '', prePatches: '乙=二', protectedTerms: '' }));
+  });
+
+  it('不是 JSON 的回應回傳原始文字', () => {
+    expect(parseBody('{"revision":2}')).toEqual({ revision: 2 });
+    expect(parseBody('甲=一')).toBe('甲=一');
+  });
+});
@@ -0,0 +1,100 @@
+import { PatchSet, PatchSnapshot } from '../types';
+import { EMPTY_PATCH_SET, hashPatchSet, samePatchSet } from './patchMerge';
+
+/**
+ * 版本同步的共用邏輯：快照格式、三方比較與同步基準的保存。
+ * 各後端的傳輸方式見 syncAdapters.ts。
+ */
+
+export type PushResult =
+  | { ok: true; snapshot: PatchSnapshot }
+  | { ok: false; remote: PatchSnapshot };
+
+/**
+ * 本地、上次同步的基準與雲端三者比較後的處理方式
+ */
+export type SyncDecision =
+  | { kind: 'up-to-date' }
+  | { kind: 'fast-forward' }
+  | { kind: 'local-ahead' }
+  | { kind: 'conflict'; base: PatchSet };
+
+const SYNC_BASE_KEY = 'dream_cloud_sync_base';
+
+export const makeSnapshot = (revision: number, patchSet: PatchSet): PatchSnapshot => ({
+  revision,
+  hash: hashPatchSet(patchSet),
+  patchSet,
+});
+
+/**
+ * 將回應內容轉為快照；接受舊版的純文字或 { patches } 格式
+ */
+export const toSnapshot = (data: unknown): PatchSnapshot => {
+  if (typeof data === 'string') {
+    return makeSnapshot(0, { ...EMPTY_PATCH_SET, patches: data });
+  }
+  const obj = (data ?? {}) as Record<string, unknown>;
+  const patchSet: PatchSet = {
+    patches: typeof obj.patches === 'string' ? obj.patches : '',
+    prePatches: typeof obj.prePatches === 'string' ? obj.prePatches : '',
+    protectedTerms: typeof obj.protectedTerms === 'string' ? obj.protectedTerms : '',
+  };
+  const revision = typeof obj.revision === 'number' && Number.isFinite(obj.revision) ? obj.revision : 0;
+  return makeSnapshot(revision, patchSet);
+};
+
+/**
+ * 解析回應內容；不是 JSON 時回傳原始文字（舊版端點）
+ */
+export const parseBody = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * 判斷下載到的雲端版本該如何處理
+ */
+export const decideSync = (base: PatchSnapshot | null, local: PatchSet, remote: PatchSnapshot): SyncDecision => {
+  if (samePatchSet(local, remote.patchSet)) return { kind: 'up-to-date' };
+  // 空白的版本 0 表示雲端從未寫入（例如剛換成新版 GAS 腳本），不可用來覆蓋本地內容
+  if (remote.revision === 0 && samePatchSet(remote.patchSet, EMPTY_PATCH_SET)) return { kind: 'local-ahead' };
+  const basePatchSet = base?.patchSet ?? EMPTY_PATCH_SET;
+  const localChanged = !samePatchSet(local, basePatchSet);
+  const remoteChanged = !base || base.revision !== remote.revision || base.hash !== remote.hash;
+  if (!localChanged) return { kind: 'fast-forward' };
+  if (!remoteChanged) return { kind: 'local-ahead' };
+  return { kind: 'conflict', base: basePatchSet };
+};
+
+// 各同步目標的基準版本：{ [target]: { revision, patchSet } }
+const readSyncBases = (): Record<string, unknown> => {
+  try {
+    const data = JSON.parse(localStorage.getItem(SYNC_BASE_KEY) || 'null');
+    if (!data || typeof data !== 'object') return {};
+    // 舊版只記錄單一目標：{ target, revision, patchSet }
+    if ('patchSet' in data) return typeof data.target === 'string' ? { [data.target]: data } : {};
+    return data;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 讀取上次與指定目標同步的基準版本；切換同步目標後舊的基準不再適用
+ */
+export const loadSyncBase = (target: string): PatchSnapshot | null => {
+  const data = readSyncBases()[target] as { revision?: unknown; patchSet?: unknown } | undefined;
+  if (!data) return null;
+  const snapshot = toSnapshot(data.patchSet);
+  return { ...snapshot, revision: typeof data.revision === 'number' ? data.revision : 0 };
+};
+
+export const saveSyncBase = (target: string, snapshot: PatchSnapshot) => {
+  const bases = readSyncBases();
+  bases[target] = { revision: snapshot.revision, patchSet: snapshot.patchSet };
+  localStorage.setItem(SYNC_BASE_KEY, JSON.stringify(bases));
+};
@@ -0,0 +1,236 @@
+import { PatchDictionary, PatchSet, PatchSnapshot, SiteConfig, SyncBackendKind, SyncSettings } from '../types';
+import { DEFAULT_DICTIONARY_ID } from './dictionaries';
+import { LocalizedError } from './messages';
+import { EMPTY_PATCH_SET } from './patchMerge';
+import { makeSnapshot, parseBody, PushResult, toSnapshot } from './sync';
+
+/**
+ * 同步後端轉接層。每個後端都提供相同的 pull / push 介面，
+ * push 以 baseRevision 為前提，雲端已有更新版本時回傳衝突與雲端內容。
+ *
+ *   GAS     GET  → { revision, patches, prePatches, protectedTerms }（舊版純文字視為 revision 0）
+ *           POST ← text/plain { action: 'push', baseRevision, ...patchSet }（避開 CORS 預檢）
+ *                → { ok: true, revision } 或 { ok: false, conflict: true, remote }；
+ *                  其他回應（舊版腳本）視為沒有版本號的上傳成功。腳本見 scripts/gas-sync.gs
+ *   REST    GET  → 200 { revision, ...patchSet }，404 視為空白的 revision 0
+ *           PUT  ← application/json { baseRevision, ...patchSet }，Authorization: Bearer
+ *                → 200 { revision }；409 回傳雲端快照（或 { remote }）
+ *   WebDAV  補丁檔本身即為 JSON { revision, ...patchSet }；
+ *           先讀取版本與 ETag，再以 If-Match 覆寫，412 表示期間被他人更新
+ *   檔案    匯入時讀取使用者選擇的 JSON 檔，匯出時下載目前內容並遞增版本
+ *
+ * 每個字典各自同步：GAS 與 REST 在網址加上 ?dictionary=<id>，
+ * WebDAV 在副檔名前加上 .<id>，匯出的檔名則帶有字典名稱。
+ * 預設字典沿用原本的網址，與舊版資料相容。
+ */
+
+export interface SyncAdapter {
+  /** 同步目標的識別字串，用於區分不同目標的同步基準 */
+  id: string;
+  kind: SyncBackendKind;
+  /** 需要使用者操作（選擇檔案）的後端不會在啟動時自動同步 */
+  interactive: boolean;
+  pull: () => Promise<PatchSnapshot>;
+  push: (baseRevision: number, patchSet: PatchSet) => Promise<PushResult>;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** 可選的同步後端；名稱見各語言目錄的 syncBackend.* */
+export const SYNC_BACKENDS: SyncBackendKind[] = ['gas', 'rest', 'webdav', 'file'];
+
+type DictionaryRef = Pick<PatchDictionary, 'id' | 'name'>;
+
+const checkResponse = (response: Response) => {
+  if (response.status === 401 || response.status === 403) throw new LocalizedError('syncError.unauthorized');
+  if (!response.ok) throw new LocalizedError('syncError.status', { status: response.status });
+};
+
+const readJsonObject = async (response: Response): Promise<Record<string, unknown>> => {
+  const data = parseBody(await response.text());
+  if (typeof data !== 'object' || data === null) throw new LocalizedError('syncError.unrecognized');
+  return data as Record<string, unknown>;
+};
+
+const pushed = (revision: number, patchSet: PatchSet): PushResult => ({ ok: true, snapshot: makeSnapshot(revision, patchSet) });
+
+/**
+ * 將帳號密碼編碼為 Basic 驗證標頭（支援非 ASCII 字元）
+ */
+const basicAuth = (username: string, password: string) => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+const gasAdapter = (url: string, http: FetchLike): SyncAdapter => ({
+  id: `gas:${url}`,
+  kind: 'gas',
+  interactive: false,
+  pull: async () => {
+    const response = await http(url);
+    checkResponse(response);
+    return toSnapshot(parseBody(await response.text()));
+  },
+  push: async (baseRevision, patchSet) => {
+    const response = await http(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+      body: JSON.stringify({ action: 'push', baseRevision, ...patchSet }),
+    });
+    checkResponse(response);
+    const result = parseBody(await response.text());
+    if (typeof result !== 'object' || result === null) return pushed(baseRevision, patchSet);
+    const { ok, revision, conflict, remote, error } = result as Record<string, unknown>;
+    if (ok === true && typeof revision === 'number') return pushed(revision, patchSet);
+    if (conflict) return { ok: false, remote: toSnapshot(remote) };
+    if (ok === false) {
+      throw typeof error === 'string' ? new LocalizedError('syncError.rejectedWithReason', { reason: error }) : new LocalizedError('syncError.rejected');
+    }
+    // 舊版腳本只保存 patches 且不回傳版本號：視為沒有版本號的上傳
+    return pushed(baseRevision, patchSet);
+  },
+});
+
+const restAdapter = (url: string, token: string, http: FetchLike): SyncAdapter => {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return {
+    id: `rest:${url}`,
+    kind: 'rest',
+    interactive: false,
+    pull: async () => {
+      const response = await http(url, { headers });
+      if (response.status === 404) return makeSnapshot(0, EMPTY_PATCH_SET);
+      checkResponse(response);
+      return toSnapshot(await readJsonObject(response));
+    },
+    push: async (baseRevision, patchSet) => {
+      const response = await http(url, {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseRevision, ...patchSet }),
+      });
+      if (response.status === 409) {
+        const body = await readJsonObject(response);
+        return { ok: false, remote: toSnapshot(body.remote ?? body) };
+      }
+      checkResponse(response);
+      const result = await readJsonObject(response);
+      if (typeof result.revision !== 'number') throw new LocalizedError('syncError.noRevision');
+      return pushed(result.revision, patchSet);
+    },
+  };
+};
+
+const webdavAdapter = (url: string, username: string, password: string, http: FetchLike): SyncAdapter => {
+  const headers: Record<string, string> = {};
+  if (username) headers.Authorization = basicAuth(username, password);
+
+  // 讀取補丁檔與其 ETag；檔案不存在時視為空白的 revision 0
+  const read = async (): Promise<{ snapshot: PatchSnapshot; etag: string | null }> => {
+    const response = await http(url, { headers, cache: 'no-store' });
+    if (response.status === 404) return { snapshot: makeSnapshot(0, EMPTY_PATCH_SET), etag: null };
+    checkResponse(response);
+    return { snapshot: toSnapshot(parseBody(await response.text())), etag: response.headers.get('ETag') };
+  };
+
+  return {
+    id: `webdav:${url}`,
+    kind: 'webdav',
+    interactive: false,
+    pull: async () => (await read()).snapshot,
+    push: async (baseRevision, patchSet) => {
+      const current = await read();
+      if (current.snapshot.revision !== baseRevision) return { ok: false, remote: current.snapshot };
+
+      const revision = baseRevision + 1;
+      const response = await http(url, {
+        method: 'PUT',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json; charset=utf-8',
+          ...(current.etag ? { 'If-Match': current.etag } : { 'If-None-Match': '*' }),
+        },
+        body: JSON.stringify({ revision, ...patchSet }, null, 2),
+      });
+      if (response.status === 412) return { ok: false, remote: (await read()).snapshot };
+      checkResponse(response);
+      return pushed(revision, patchSet);
+    },
+  };
+};
+
+/**
+ * 讓使用者選擇一個文字檔並讀取內容；取消選擇時以「未選擇檔案」拒絕，不會一直等待
+ */
+export const pickTextFile = (accept: string) => new Promise<string>((resolve, reject) => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = accept;
+  input.onchange = () => {
+    const file = input.files?.[0];
+    if (file) file.text().then(resolve, reject);
+    else reject(new LocalizedError('syncError.noFile'));
+  };
+  input.addEventListener('cancel', () => reject(new LocalizedError('syncError.noFile')));
+  input.click();
+});
+
+export const downloadTextFile = (name: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const fileAdapter = (dictionary?: DictionaryRef): SyncAdapter => ({
+  id: `file:${dictionary?.id ?? DEFAULT_DICTIONARY_ID}`,
+  kind: 'file',
+  interactive: true,
+  pull: async () => toSnapshot(parseBody(await pickTextFile('.json,.txt'))),
+  push: async (baseRevision, patchSet) => {
+    const revision = baseRevision + 1;
+    const suffix = dictionary && dictionary.id !== DEFAULT_DICTIONARY_ID ? `-${dictionary.name}` : '';
+    downloadTextFile(`dream-cloud-patches${suffix}.json`, JSON.stringify({ revision, ...patchSet }, null, 2));
+    return pushed(revision, patchSet);
+  },
+});
+
+/**
+ * 取得設定中的同步目標；尚未填寫網址時視為未設定
+ */
+export const resolveSyncSettings = (config: SiteConfig): SyncSettings | null => {
+  if (!config.sync) return null;
+  return config.sync.backend === 'file' || config.sync.url ? config.sync : null;
+};
+
+/**
+ * 取得指定字典在此後端上的網址
+ */
+const dictionaryUrl = (backend: SyncBackendKind, url: string, dictionary?: DictionaryRef): string => {
+  if (!dictionary || dictionary.id === DEFAULT_DICTIONARY_ID) return url;
+  if (backend === 'webdav') {
+    const dot = url.lastIndexOf('.');
+    return dot > url.lastIndexOf('/') ? `${url.slice(0, dot)}.${dictionary.id}${url.slice(dot)}` : `${url}.${dictionary.id}`;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}dictionary=${encodeURIComponent(dictionary.id)}`;
+};
+
+/**
+ * 依設定建立同步後端（可指定同步的字典）；http 可替換為測試用的實作
+ */
+export const createSyncAdapter = (
+  settings: SyncSettings,
+  dictionary?: DictionaryRef,
+  http: FetchLike = (input, init) => fetch(input, init)
+): SyncAdapter => {
+  const url = dictionaryUrl(settings.backend, settings.url.trim(), dictionary);
+  switch (settings.backend) {
+    case 'gas': return gasAdapter(url, http);
+    case 'rest': return restAdapter(url, settings.token?.trim() ?? '', http);
+    case 'webdav': return webdavAdapter(url, settings.username ?? '', settings.password ?? '', http);
+    case 'file': return fileAdapter(dictionary);
+  }
+};
@@ -0,0 +1,18 @@
+/**
+ * 字數統計：字元數不含空白；字數以漢字、假名各算一字，連續的英數字算一個詞
+ */
+
+export interface TextCounts {
+  characters: number;
+  words: number;
+}
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const LATIN_WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export const countText = (text: string): TextCounts => {
+  const characters = [...text.replace(/\s/g, '')].length;
+  const cjk = text.match(CJK_CHAR)?.length ?? 0;
+  const latin = text.replace(CJK_CHAR, ' ').match(LATIN_WORD)?.length ?? 0;
+  return { characters, words: cjk + latin };
+};
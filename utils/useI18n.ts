@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Locale, PatchRule } from '../types';
+import {
+  cachedSimplifiedCatalog,
+  Catalog,
+  formatMessage,
+  loadLocale,
+  loadSimplifiedCatalog,
+  MessageKey,
+  MessageParams,
+  saveLocale,
+  SOURCE_CATALOG,
+  STATIC_CATALOGS,
+} from './i18n';
+
+// 補丁編輯停止後多久重新產生簡體目錄
+const DERIVE_DELAY = 800;
+
+const initialCatalog = (locale: Locale): Catalog =>
+  STATIC_CATALOGS[locale] ?? cachedSimplifiedCatalog() ?? SOURCE_CATALOG;
+
+/**
+ * 介面語言狀態與翻譯函式。rules 為產生簡體目錄時套用的補丁規則，
+ * 請傳入穩定的陣列（例如 useMemo 的結果），規則改變時簡體目錄才會重新產生。
+ */
+export const useI18n = (rules: PatchRule[]) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const [catalog, setCatalog] = useState<Catalog>(() => initialCatalog(locale));
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    const fixed = STATIC_CATALOGS[locale];
+    if (fixed) {
+      setCatalog(fixed);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      loadSimplifiedCatalog(rules)
+        .then(next => { if (!cancelled) setCatalog(next); })
+        .catch(err => console.warn('無法產生簡體介面文字', err));
+    }, DERIVE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [locale, rules]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+    setCatalog(initialCatalog(next));
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => formatMessage(catalog[key] ?? SOURCE_CATALOG[key], params),
+    [catalog]
+  );
+
+  return { locale, setLocale, t };
+};
+
+export type { Translate } from './messages';
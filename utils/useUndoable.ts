@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * 可復原／重做的狀態。連續輸入（相同 coalesce 鍵且間隔很短）合併為一步，
+ * 轉換、對調、清空等一次性的改寫則各自成為一步。
+ */
+
+interface UndoState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** 上一次變更的合併鍵與時間 */
+  lastKey: string | null;
+  lastAt: number;
+  /** 復原與重做的累計次數，供 onStep 在畫面更新後執行 */
+  step: number;
+}
+
+export interface SetOptions {
+  /** 相同鍵且在 COALESCE_MS 內的變更合併為一步（例如同一個輸入框的打字） */
+  coalesce?: string;
+}
+
+export interface UndoControls<T> {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** 直接替換目前的值並清空歷程（例如載入儲存的資料） */
+  reset: (value: T) => void;
+}
+
+export interface UndoableOptions<T> {
+  /** 復原或重做並更新畫面後，以新的值呼叫（例如寫回本地儲存） */
+  onStep?: (value: T) => void;
+}
+
+const MAX_STEPS = 50;
+const COALESCE_MS = 1000;
+
+export const useUndoable = <T>(
+  initial: T | (() => T),
+  { onStep }: UndoableOptions<T> = {}
+): [T, (value: T | ((prev: T) => T), options?: SetOptions) => void, UndoControls<T>] => {
+  const [state, setState] = useState<UndoState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+    step: 0,
+  }));
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+
+  // 更新函式必須沒有副作用，onStep 改在復原或重做生效後執行
+  useEffect(() => {
+    if (state.step > 0) onStepRef.current?.(state.present);
+  }, [state.step]);
+
+  const set = useCallback((value: T | ((prev: T) => T), { coalesce }: SetOptions = {}) => {
+    setState(s => {
+      const next = typeof value === 'function' ? (value as (prev: T) => T)(s.present) : value;
+      if (Object.is(next, s.present)) return s;
+      const now = Date.now();
+      const merge = coalesce !== undefined && coalesce === s.lastKey && now - s.lastAt < COALESCE_MS;
+      return {
+        past: merge ? s.past : [...s.past, s.present].slice(-MAX_STEPS),
+        present: next,
+        future: [],
+        lastKey: coalesce ?? null,
+        lastAt: now,
+        step: s.step,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      if (s.past.length === 0) return s;
+      const present = s.past[s.past.length - 1];
+      return { past: s.past.slice(0, -1), present, future: [s.present, ...s.future], lastKey: null, lastAt: 0, step: s.step + 1 };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      if (s.future.length === 0) return s;
+      const present = s.future[0];
+      return { past: [...s.past, s.present], present, future: s.future.slice(1), lastKey: null, lastAt: 0, step: s.step + 1 };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState(s => ({ past: [], present: value, future: [], lastKey: null, lastAt: 0, step: s.step }));
+  }, []);
+
+  return [state.present, set, { undo, redo, canUndo: state.past.length > 0, canRedo: state.future.length > 0, reset }];
+};
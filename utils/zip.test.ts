@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+/**
+ * 由中央目錄讀回各檔案的名稱、旗標、CRC 與內容
+ */
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const flags = view.getUint16(pos + 8, true);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength;
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    return { name, flags, crc, data: decoder.decode(zip.subarray(dataStart, dataStart + size)) };
+  });
+};
+
+describe('createZip', () => {
+  it('以 UTF-8 檔名打包各檔案並寫入正確的 CRC', () => {
+    const encoder = new TextEncoder();
+    const zip = createZip([
+      { name: 'hello.txt', data: encoder.encode('hello') },
+      { name: '轉換結果/第一章.txt', data: encoder.encode('內容') },
+    ]);
+    const entries = readZip(zip);
+    expect(entries.map(({ name, data }) => ({ name, data }))).toEqual([
+      { name: 'hello.txt', data: 'hello' },
+      { name: '轉換結果/第一章.txt', data: '內容' },
+    ]);
+    expect(entries[0].crc).toBe(0x3610a686);
+    expect(entries.every(e => e.flags & 0x0800)).toBe(true);
+  });
+
+  it('寫入 MS-DOS 格式的修改時間', () => {
+    const zip = createZip([{ name: 'a', data: new Uint8Array() }], new Date(2024, 4, 6, 13, 45, 30));
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 6);
+  });
+
+  it('沒有檔案時只有結尾紀錄', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+/**
+ * 命令列工具的建置設定：以 SSR 模式打包成 Node 可直接執行的 ESM，相依套件（opencc-js）不打包。
+ * 輸出到網頁建置的 dist 之外，兩者清空輸出目錄時不會互相刪除
+ */
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/convert.ts',
+    outDir: 'cli-dist',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'dream-convert.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
@@ -1,9 +1,40 @@
-
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * 產生 Service Worker 的預先快取清單（sw-manifest.js）：
+ * 列出建置輸出的所有檔案，並以檔名與頁面內容計算版本，內容變動時瀏覽器才會更新 Worker
+ */
+const precacheManifest = (): Plugin => ({
+  name: 'dream-cloud-precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).sort();
+    let hash = 0x811c9dc5;
+    for (const file of files) {
+      const output = bundle[file];
+      const source = file + (output.type === 'asset' && typeof output.source === 'string' ? output.source : '');
+      for (let i = 0; i < source.length; i++) {
+        hash ^= source.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+    }
+    const version = (hash >>> 0).toString(16).padStart(8, '0');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw-manifest.js',
+      source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, files })};\n`,
+    });
+  },
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  // 轉換 Worker 以模組形式載入，OpenCC 引擎才能拆成獨立區塊
+  worker: {
+    format: 'es'
+  },
   build: {
     outDir: 'dist',
     rollupOptions: {